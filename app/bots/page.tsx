@@ -1,9 +1,9 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useCallback, useState, useEffect } from "react";
 import { formatUnits } from "viem";
 import { useRouter } from "next/navigation";
-import { useApi } from "@/hooks/useApi";
+import { useApiClient } from "@/hooks/useApiClient";
 import {
   Card,
   CardHeader,
@@ -48,271 +48,225 @@ import {
   Bot,
   Target,
   Zap,
+  Settings2,
+  FlaskConical,
+  BarChart3,
+  ScrollText,
 } from "lucide-react";
 import { FaGlobe, FaTwitter, FaTelegramPlane, FaDiscord } from "react-icons/fa";
 import { toast } from "sonner";
-import { chatEventEmitter, CHAT_EVENTS } from "@/lib/eventEmitter";
 import { useUserStore } from "@/stores/userStore";
+import { quoteSell, toWei } from "@/lib/bondingCurve";
+import {
+  BOT_STRATEGIES,
+  createStrategyDraft,
+  parseStrategyDraft,
+  type StrategyDraft,
+} from "@/lib/bots";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { queryKeys } from "@/lib/api/queryKeys";
+import {
+  ensureQuery,
+  fetchQuery,
+  invalidateQueries,
+} from "@/lib/queryCache";
+import { useQuery } from "@/hooks/useQuery";
+import { EditBotDialog } from "@/components/shared/edit-bot-dialog";
+import { BotStrategyCard } from "@/components/shared/bot-strategy-card";
+import { BotStrategyFields } from "@/components/shared/bot-strategy-fields";
+import { BotBacktestDialog } from "@/components/shared/bot-backtest-dialog";
+import { BotAnalyticsDialog } from "@/components/shared/bot-analytics-dialog";
+import { BotLogDrawer } from "@/components/shared/bot-log-drawer";
+import type {
+  Bot as MarketMakerBot,
+  BotLog,
+  BotStrategyType,
+  Token,
+  TokenDetails,
+} from "@/lib/api/types";
 
-interface Token {
-  _id: string;
-  tokenAddress: string;
-  name: string;
-  symbol: string;
-  description: string;
-  image: string;
-  price?: string;
-  marketCap?: string;
-  volume24hBuy?: string;
-  volume24hSell?: string;
-  volume24hTotal?: string;
-  creator: string;
-  createdAt: string;
-}
-
-interface DetailedToken {
-  _id: string;
-  tokenAddress: string;
-  creator: string;
-  name: string;
-  symbol: string;
-  decimals: number;
-  description: string;
-  image: string;
-  website: string;
-  twitter: string;
-  telegram: string;
-  discord: string;
-  timestamp: string;
-  blockNumber: string;
-  price?: string;
-  marketCap?: string;
-  volume24hBuy?: string;
-  volume24hSell?: string;
-  volume24hTotal?: string;
-  createdAt: string;
-  updatedAt: string;
-  userTokenBalance?: string;
-}
-
-interface Bot {
-  botId: string;
+interface CreateBotForm {
   tokenAddress: string;
-  targetGrowthPerHour: number;
   budget: string;
-  isActive: boolean;
-  totalTrades: number;
-  totalBuyVolume: string;
-  totalSellVolume: string;
-  currentUsdtBalance: string;
-  currentTokenBalance: string;
-  lastTradeAt?: string;
-  nextTradeAt?: string;
-  createdAt: string;
-  updatedAt: string;
+  strategy: StrategyDraft;
 }
 
-interface BotLog {
-  action: "buy" | "sell" | "pause" | "error" | "start" | "stop";
-  amount: string;
-  priceBefore?: string;
-  priceAfter?: string;
-  transactionHash?: string;
-  success: boolean;
-  errorMessage?: string;
-  timestamp: string;
-  nextTradeScheduledAt?: string;
-  metadata?: any;
-}
+const INITIAL_FORM: CreateBotForm = {
+  tokenAddress: "",
+  budget: "100",
+  strategy: createStrategyDraft("target_growth"),
+};
 
-interface CreateBotForm {
-  tokenAddress: string;
-  targetGrowthPerHour: string;
-  budget: string;
+const BOT_LOG_LIMIT = 10;
+const NO_TOKENS: Token[] = [];
+const NO_BOTS: MarketMakerBot[] = [];
+
+interface LoadOptions {
+  silent?: boolean; // Don't log failures
+  force?: boolean; // Refetch even when the cached entry is still fresh
 }
 
 export default function BotsPage() {
-  const [tokens, setTokens] = useState<Token[]>([]);
-  const [bots, setBots] = useState<Bot[]>([]);
   const [detailedTokens, setDetailedTokens] = useState<
-    Record<string, DetailedToken>
+    Record<string, TokenDetails>
   >({});
   const [botLogs, setBotLogs] = useState<Record<string, BotLog[]>>({});
-  const [loading, setLoading] = useState(true);
-  const [tokensLoading, setTokensLoading] = useState(false);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [createError, setCreateError] = useState<string | null>(null);
   const [operationLoading, setOperationLoading] = useState<
     Record<string, boolean>
   >({});
+  const [editingBot, setEditingBot] = useState<MarketMakerBot | null>(null);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isBacktestDialogOpen, setIsBacktestDialogOpen] = useState(false);
+  const [analyticsBot, setAnalyticsBot] = useState<MarketMakerBot | null>(
+    null
+  );
+  const [isAnalyticsDialogOpen, setIsAnalyticsDialogOpen] = useState(false);
+  const [logTokenAddress, setLogTokenAddress] = useState<string | null>(null);
+  const [isLogDrawerOpen, setIsLogDrawerOpen] = useState(false);
 
-  const [formData, setFormData] = useState<CreateBotForm>({
-    tokenAddress: "",
-    targetGrowthPerHour: "1",
-    budget: "100",
-  });
+  const [formData, setFormData] = useState<CreateBotForm>(INITIAL_FORM);
 
-  const { get, post, delete: del } = useApi();
+  const api = useApiClient();
   const { isAuthenticated } = useUserStore();
   const router = useRouter();
 
-  useEffect(() => {
-    if (isAuthenticated) {
-      fetchBots();
-      fetchTokens(); // Fetch tokens on page load for the create dialog
-    }
-  }, [isAuthenticated]);
-
-  // Listen for chat refresh events
-  useEffect(() => {
-    const handleRefreshBots = () => {
-      console.log(`[BOTS PAGE] Received refresh bots event from chat`);
-      if (isAuthenticated) {
-        fetchBots(true);
-      }
-    };
+  // Tokens for the create dialog, shared with the other token views
+  const {
+    data: tokens = NO_TOKENS,
+    error: tokensError,
+    isLoading: tokensLoading,
+  } = useQuery(queryKeys.tokens(), api.getTokens, {
+    enabled: isAuthenticated,
+  });
 
-    chatEventEmitter.on(CHAT_EVENTS.REFRESH_TOKENS, handleRefreshBots);
-    return () => {
-      chatEventEmitter.off(CHAT_EVENTS.REFRESH_TOKENS, handleRefreshBots);
-    };
-  }, [isAuthenticated]);
+  // Chat refreshes invalidate the bots key, which refetches it
+  const {
+    data: bots = NO_BOTS,
+    error: botsError,
+    isLoading: loading,
+    mutate: setBots,
+  } = useQuery(queryKeys.bots(), api.getBots, { enabled: isAuthenticated });
 
-  const fetchTokens = async () => {
-    try {
-      setTokensLoading(true);
-      const response = await get<{ success: boolean; data: Token[] }>(
-        "/tokens"
-      );
-      if (response.data.success) {
-        setTokens(response.data.data);
-      }
-    } catch (error) {
-      console.error("Error fetching tokens:", error);
+  useEffect(() => {
+    if (tokensError) {
+      console.error("Error fetching tokens:", tokensError);
       toast.error("Failed to fetch tokens");
-    } finally {
-      setTokensLoading(false);
     }
-  };
+  }, [tokensError]);
 
-  const fetchDetailedToken = async (
-    tokenAddress: string,
-    silent: boolean = false
-  ) => {
-    try {
-      const response = await get<{ success: boolean; data: DetailedToken }>(
-        `/tokens/address/${tokenAddress}`
-      );
-      if (response.data.success) {
+  useEffect(() => {
+    if (botsError) {
+      console.error("Error fetching bots:", botsError);
+      toast.error("Failed to fetch autonomous agents");
+    }
+  }, [botsError]);
+
+  const fetchDetailedToken = useCallback(
+    async (
+      tokenAddress: string,
+      { silent = false, force = true }: LoadOptions = {}
+    ) => {
+      try {
+        const detailedToken = await (force ? fetchQuery : ensureQuery)(
+          queryKeys.token(tokenAddress),
+          () => api.getToken(tokenAddress)
+        );
         setDetailedTokens((prev) => ({
           ...prev,
-          [tokenAddress]: response.data.data,
+          [tokenAddress]: detailedToken,
         }));
-      }
-    } catch (error) {
-      if (!silent) {
-        console.error(`Error fetching detailed token ${tokenAddress}:`, error);
-      }
-    }
-  };
-
-  const fetchBots = async (silent: boolean = false) => {
-    try {
-      if (!silent) setLoading(true);
-
-      const response = await get<{ success: boolean; data: Bot[] }>(
-        "/market-maker/bots"
-      );
-      if (response.data.success) {
-        setBots(response.data.data);
-
-        // Fetch logs and detailed token info for each bot
-        for (const bot of response.data.data) {
-          fetchBotLogs(bot.tokenAddress, true);
-          fetchDetailedToken(bot.tokenAddress, true);
+      } catch (error) {
+        if (!silent) {
+          console.error(
+            `Error fetching detailed token ${tokenAddress}:`,
+            error
+          );
         }
       }
-    } catch (error) {
-      console.error("Error fetching bots:", error);
-      toast.error("Failed to fetch autonomous agents");
-    } finally {
-      if (!silent) setLoading(false);
-    }
-  };
+    },
+    [api]
+  );
 
-  const fetchBotLogs = async (
-    tokenAddress: string,
-    silent: boolean = false
-  ) => {
-    try {
-      const response = await get<{ success: boolean; data: BotLog[] }>(
-        `/market-maker/logs/${tokenAddress}?limit=10`
-      );
-      if (response.data.success) {
+  const fetchBotLogs = useCallback(
+    async (
+      tokenAddress: string,
+      { silent = false, force = true }: LoadOptions = {}
+    ) => {
+      try {
+        const logs = await (force ? fetchQuery : ensureQuery)(
+          queryKeys.botLogs(tokenAddress, BOT_LOG_LIMIT),
+          () => api.getBotLogs(tokenAddress, { limit: BOT_LOG_LIMIT })
+        );
         setBotLogs((prev) => ({
           ...prev,
-          [tokenAddress]: response.data.data,
+          [tokenAddress]: logs,
         }));
+      } catch (error) {
+        if (!silent) {
+          console.error("Error fetching bot logs:", error);
+        }
       }
-    } catch (error) {
-      if (!silent) {
-        console.error("Error fetching bot logs:", error);
-      }
+    },
+    [api]
+  );
+
+  // Load logs and detailed token info for each bot whenever the list changes.
+  // Fresh cache entries are reused, so optimistic updates and revalidation of
+  // the list don't refetch every bot.
+  useEffect(() => {
+    for (const bot of bots) {
+      fetchBotLogs(bot.tokenAddress, { silent: true, force: false });
+      fetchDetailedToken(bot.tokenAddress, { silent: true, force: false });
     }
-  };
+  }, [bots, fetchBotLogs, fetchDetailedToken]);
 
   const handleCreateBot = async () => {
-    if (
-      !formData.tokenAddress ||
-      !formData.targetGrowthPerHour ||
-      !formData.budget
-    ) {
+    if (!formData.tokenAddress || !formData.budget) {
       setCreateError("Please fill in all required fields");
       return;
     }
 
-    const growthPerHour = parseFloat(formData.targetGrowthPerHour);
     const budgetAmount = parseFloat(formData.budget);
 
-    if (growthPerHour < 0.1 || growthPerHour > 10) {
-      setCreateError("Target growth must be between 0.1% and 10% per hour");
+    if (budgetAmount < 10 || budgetAmount > 10000) {
+      setCreateError("Budget must be between 10 and 10,000 USDT");
       return;
     }
 
-    if (budgetAmount < 10 || budgetAmount > 10000) {
-      setCreateError("Budget must be between 10 and 10,000 USDT");
+    const result = parseStrategyDraft(formData.strategy, budgetAmount);
+    if ("error" in result) {
+      setCreateError(result.error);
       return;
     }
+    const { strategy } = result;
 
     try {
       setIsCreating(true);
       setCreateError(null);
 
-      const response = await post("/market-maker/create", {
+      await api.createBot({
         tokenAddress: formData.tokenAddress,
-        targetGrowthPerHour: growthPerHour,
+        strategy,
+        targetGrowthPerHour:
+          strategy.type === "target_growth"
+            ? strategy.targetGrowthPerHour
+            : undefined,
         budget: formData.budget,
       });
 
-      if (response.data.success) {
-        toast.success("Autonomous agent created successfully!");
-        setIsCreateDialogOpen(false);
-        setFormData({
-          tokenAddress: "",
-          targetGrowthPerHour: "1",
-          budget: "100",
-        });
-        // Silent refresh to avoid blinking after a brief delay
-        setTimeout(() => {
-          fetchBots(true);
-        }, 300);
-      } else {
-        setCreateError(response.data.error || "Failed to create agent");
-      }
-    } catch (error: any) {
+      toast.success("Autonomous agent created successfully!");
+      setIsCreateDialogOpen(false);
+      setFormData(INITIAL_FORM);
+      // Silent refresh to avoid blinking after a brief delay
+      setTimeout(() => {
+        invalidateQueries(queryKeys.bots());
+      }, 300);
+    } catch (error) {
       console.error("Error creating bot:", error);
-      setCreateError(error.response?.data?.error || "Failed to create agent");
+      setCreateError(getApiErrorMessage(error, "Failed to create agent"));
     } finally {
       setIsCreating(false);
     }
@@ -332,52 +286,77 @@ export default function BotsPage() {
     try {
       setOperationLoading((prev) => ({ ...prev, [operationKey]: true }));
 
-      let response;
       if (operation === "delete") {
-        response = await del(`/market-maker/${tokenAddress}`);
+        await api.deleteBot(tokenAddress);
+      } else if (operation === "start") {
+        await api.startBot(tokenAddress);
       } else {
-        response = await post(`/market-maker/${operation}`, { tokenAddress });
+        await api.stopBot(tokenAddress);
       }
 
-      if (response.data.success) {
-        // Optimistic update for immediate UI feedback
-        if (operation === "start" || operation === "stop") {
-          setBots((prevBots) =>
-            prevBots.map((bot) =>
-              bot.tokenAddress === tokenAddress
-                ? { ...bot, isActive: operation === "start" }
-                : bot
-            )
-          );
-        } else if (operation === "delete") {
-          setBots((prevBots) =>
-            prevBots.filter((bot) => bot.tokenAddress !== tokenAddress)
-          );
-        }
-
-        toast.success(
-          `Agent ${operation}${
-            operation === "stop" ? "ped" : operation === "start" ? "ed" : "d"
-          } successfully!`
+      // Optimistic update for immediate UI feedback
+      if (operation === "start" || operation === "stop") {
+        setBots((prevBots) =>
+          prevBots?.map((bot) =>
+            bot.tokenAddress === tokenAddress
+              ? { ...bot, isActive: operation === "start" }
+              : bot
+          )
+        );
+      } else if (operation === "delete") {
+        setBots((prevBots) =>
+          prevBots?.filter((bot) => bot.tokenAddress !== tokenAddress)
         );
-
-        // Silent refresh to sync with server after a brief delay
-        setTimeout(() => {
-          fetchBots(true);
-        }, 500);
-      } else {
-        toast.error(response.data.error || `Failed to ${operation} agent`);
       }
-    } catch (error: any) {
-      console.error(`Error ${operation}ing bot:`, error);
-      toast.error(
-        error.response?.data?.error || `Failed to ${operation} agent`
+
+      toast.success(
+        `Agent ${operation}${
+          operation === "stop" ? "ped" : operation === "start" ? "ed" : "d"
+        } successfully!`
       );
+
+      // Silent refresh to sync with server after a brief delay
+      setTimeout(() => {
+        invalidateQueries(queryKeys.bots());
+      }, 500);
+    } catch (error) {
+      console.error(`Error ${operation}ing bot:`, error);
+      toast.error(getApiErrorMessage(error, `Failed to ${operation} agent`));
     } finally {
       setOperationLoading((prev) => ({ ...prev, [operationKey]: false }));
     }
   };
 
+  const handleEditBot = (bot: MarketMakerBot) => {
+    setEditingBot(bot);
+    setIsEditDialogOpen(true);
+  };
+
+  const handleShowAnalytics = (bot: MarketMakerBot) => {
+    setAnalyticsBot(bot);
+    setIsAnalyticsDialogOpen(true);
+  };
+
+  const handleShowLogs = (tokenAddress: string) => {
+    setLogTokenAddress(tokenAddress);
+    setIsLogDrawerOpen(true);
+  };
+
+  // Apply saved changes right away, then sync with the server
+  const handleBotUpdated = (
+    tokenAddress: string,
+    changes: Partial<MarketMakerBot>
+  ) => {
+    setBots((prevBots) =>
+      prevBots?.map((bot) =>
+        bot.tokenAddress === tokenAddress ? { ...bot, ...changes } : bot
+      )
+    );
+    setTimeout(() => {
+      invalidateQueries(queryKeys.bots());
+    }, 500);
+  };
+
   const formatCurrency = (
     amountWei: string | undefined,
     decimals: number = 18
@@ -486,6 +465,22 @@ export default function BotsPage() {
     }
   };
 
+  // Current price of a bot's token in USDT, once its details have loaded
+  const getTokenPrice = (tokenAddress: string) => {
+    const price = detailedTokens[tokenAddress]?.price;
+    return price ? parseFloat(formatUnits(BigInt(price), 18)) : undefined;
+  };
+
+  // USDT the bot would receive selling its whole token balance into the curve
+  const getTokenBalanceValue = (bot: MarketMakerBot) => {
+    const detailedToken = detailedTokens[bot.tokenAddress];
+    if (!detailedToken) return undefined;
+    return quoteSell(
+      toWei(bot.currentTokenBalance),
+      toWei(detailedToken.totalUsdtRaised)
+    ).toString();
+  };
+
   const shortenAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
@@ -630,159 +625,214 @@ export default function BotsPage() {
             </div>
           </div>
 
-          <Dialog
-            open={isCreateDialogOpen}
-            onOpenChange={setIsCreateDialogOpen}
-          >
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="h-4 w-4" />
-                Create Agent
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[500px]">
-              <DialogHeader>
-                <DialogTitle>Create Autonomous Agent</DialogTitle>
-                <DialogDescription>
-                  Configure a new liquidity automation agent for your selected
-                  token
-                </DialogDescription>
-              </DialogHeader>
-
-              <div className="space-y-4 py-4">
-                {createError && (
-                  <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-2 rounded-md text-sm">
-                    {createError}
-                  </div>
-                )}
-
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Select Token</label>
-                  <Select
-                    value={formData.tokenAddress}
-                    onValueChange={(value) =>
-                      setFormData((prev) => ({ ...prev, tokenAddress: value }))
-                    }
-                    disabled={tokensLoading}
-                  >
-                    <SelectTrigger>
-                      <SelectValue
-                        placeholder={
-                          tokensLoading
-                            ? "Loading tokens..."
-                            : tokens.length === 0
-                            ? "No tokens available"
-                            : "Choose a token"
-                        }
-                      />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {tokensLoading ? (
-                        <SelectItem value="" disabled>
-                          <div className="flex items-center gap-2">
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                            Loading tokens...
-                          </div>
-                        </SelectItem>
-                      ) : tokens.length === 0 ? (
-                        <SelectItem value="" disabled>
-                          No tokens available
-                        </SelectItem>
-                      ) : (
-                        tokens.map((token) => (
-                          <SelectItem
-                            key={token.tokenAddress}
-                            value={token.tokenAddress}
-                          >
-                            <div className="flex items-center gap-2">
-                              {token.image ? (
-                                <img
-                                  src={token.image}
-                                  alt={token.name}
-                                  className="w-5 h-5 rounded-full"
-                                />
-                              ) : (
-                                <div className="w-5 h-5 rounded-full bg-muted flex items-center justify-center text-xs">
-                                  {token.symbol.charAt(0)}
-                                </div>
-                              )}
-                              <span>{token.name}</span>
-                              <span className="text-muted-foreground">
-                                ({token.symbol})
-                              </span>
-                            </div>
-                          </SelectItem>
-                        ))
-                      )}
-                    </SelectContent>
-                  </Select>
-                </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => setIsBacktestDialogOpen(true)}
+            >
+              <FlaskConical className="h-4 w-4" />
+              Backtest
+            </Button>
+            <Dialog
+              open={isCreateDialogOpen}
+              onOpenChange={setIsCreateDialogOpen}
+            >
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Create Agent
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Create Autonomous Agent</DialogTitle>
+                  <DialogDescription>
+                    Configure a new liquidity automation agent for your selected
+                    token
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-4">
+                  {createError && (
+                    <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-2 rounded-md text-sm">
+                      {createError}
+                    </div>
+                  )}
 
-                <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <label className="text-sm font-medium">
-                      Target Growth (%/hour)
-                    </label>
-                    <Input
-                      type="number"
-                      step="0.1"
-                      min="0.1"
-                      max="10"
-                      value={formData.targetGrowthPerHour}
-                      onChange={(e) =>
-                        setFormData((prev) => ({
-                          ...prev,
-                          targetGrowthPerHour: e.target.value,
-                        }))
+                    <label className="text-sm font-medium">Select Token</label>
+                    <Select
+                      value={formData.tokenAddress}
+                      onValueChange={(value) =>
+                        setFormData((prev) => ({ ...prev, tokenAddress: value }))
                       }
-                      placeholder="e.g., 1"
-                    />
+                      disabled={tokensLoading}
+                    >
+                      <SelectTrigger>
+                        <SelectValue
+                          placeholder={
+                            tokensLoading
+                              ? "Loading tokens..."
+                              : tokens.length === 0
+                              ? "No tokens available"
+                              : "Choose a token"
+                          }
+                        />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tokensLoading ? (
+                          <SelectItem value="" disabled>
+                            <div className="flex items-center gap-2">
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                              Loading tokens...
+                            </div>
+                          </SelectItem>
+                        ) : tokens.length === 0 ? (
+                          <SelectItem value="" disabled>
+                            No tokens available
+                          </SelectItem>
+                        ) : (
+                          tokens.map((token) => (
+                            <SelectItem
+                              key={token.tokenAddress}
+                              value={token.tokenAddress}
+                            >
+                              <div className="flex items-center gap-2">
+                                {token.image ? (
+                                  <img
+                                    src={token.image}
+                                    alt={token.name}
+                                    className="w-5 h-5 rounded-full"
+                                  />
+                                ) : (
+                                  <div className="w-5 h-5 rounded-full bg-muted flex items-center justify-center text-xs">
+                                    {token.symbol.charAt(0)}
+                                  </div>
+                                )}
+                                <span>{token.name}</span>
+                                <span className="text-muted-foreground">
+                                  ({token.symbol})
+                                </span>
+                              </div>
+                            </SelectItem>
+                          ))
+                        )}
+                      </SelectContent>
+                    </Select>
                   </div>
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Budget (USDT)</label>
-                    <Input
-                      type="number"
-                      min="10"
-                      max="10000"
-                      value={formData.budget}
-                      onChange={(e) =>
-                        setFormData((prev) => ({
-                          ...prev,
-                          budget: e.target.value,
-                        }))
-                      }
-                      placeholder="e.g., 100"
-                    />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Strategy</label>
+                      <Select
+                        value={formData.strategy.type}
+                        onValueChange={(value: BotStrategyType) =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            strategy: createStrategyDraft(value),
+                          }))
+                        }
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {BOT_STRATEGIES.map((strategy) => (
+                            <SelectItem
+                              key={strategy.value}
+                              value={strategy.value}
+                            >
+                              {strategy.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Budget (USDT)</label>
+                      <Input
+                        type="number"
+                        min="10"
+                        max="10000"
+                        value={formData.budget}
+                        onChange={(e) =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            budget: e.target.value,
+                          }))
+                        }
+                        placeholder="e.g., 100"
+                      />
+                    </div>
                   </div>
+
+                  <p className="text-xs text-muted-foreground">
+                    {
+                      BOT_STRATEGIES.find(
+                        (strategy) => strategy.value === formData.strategy.type
+                      )?.description
+                    }
+                  </p>
+
+                  <BotStrategyFields
+                    draft={formData.strategy}
+                    onChange={(strategy) =>
+                      setFormData((prev) => ({ ...prev, strategy }))
+                    }
+                  />
                 </div>
-              </div>
-
-              <DialogFooter>
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    setIsCreateDialogOpen(false);
-                    setCreateError(null);
-                  }}
-                  disabled={isCreating}
-                >
-                  Cancel
-                </Button>
-                <Button onClick={handleCreateBot} disabled={isCreating}>
-                  {isCreating ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Creating...
-                    </>
-                  ) : (
-                    "Create Agent"
-                  )}
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+
+                <DialogFooter>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setIsCreateDialogOpen(false);
+                      setCreateError(null);
+                    }}
+                    disabled={isCreating}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setIsCreateDialogOpen(false);
+                      setCreateError(null);
+                      setIsBacktestDialogOpen(true);
+                    }}
+                    disabled={isCreating}
+                  >
+                    Backtest
+                  </Button>
+                  <Button onClick={handleCreateBot} disabled={isCreating}>
+                    {isCreating ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Creating...
+                      </>
+                    ) : (
+                      "Create Agent"
+                    )}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
+        <BotBacktestDialog
+          open={isBacktestDialogOpen}
+          onOpenChange={setIsBacktestDialogOpen}
+          tokens={tokens}
+          initial={formData}
+          onUseSettings={(setup) => {
+            setFormData(setup);
+            setIsBacktestDialogOpen(false);
+            setIsCreateDialogOpen(true);
+          }}
+        />
+
         {/* Bots List */}
         {bots.length === 0 ? (
           <Card className="w-full">
@@ -1024,9 +1074,7 @@ export default function BotsPage() {
                             <Button
                               size="sm"
                               variant="ghost"
-                              onClick={() =>
-                                fetchBotLogs(bot.tokenAddress, false)
-                              }
+                              onClick={() => fetchBotLogs(bot.tokenAddress)}
                               title="Refresh logs"
                             >
                               <RefreshCw className="h-3 w-3" />
@@ -1034,15 +1082,12 @@ export default function BotsPage() {
                           </div>
                         </div>
 
+                        <BotStrategyCard
+                          bot={bot}
+                          price={getTokenPrice(bot.tokenAddress)}
+                        />
+
                         <div className="space-y-3 text-sm">
-                          <div className="flex justify-between">
-                            <span className="text-muted-foreground">
-                              Target Growth:
-                            </span>
-                            <span className="font-medium">
-                              {bot.targetGrowthPerHour}%/hour
-                            </span>
-                          </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">
                               Budget:
@@ -1067,6 +1112,16 @@ export default function BotsPage() {
                               {formatTokenAmount(bot.currentTokenBalance)}
                             </span>
                           </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">
+                              Token Value:
+                            </span>
+                            <span className="font-medium">
+                              {detailedTokens[bot.tokenAddress]
+                                ? formatCurrency(getTokenBalanceValue(bot))
+                                : "N/A"}
+                            </span>
+                          </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">
                               Total Trades:
@@ -1096,9 +1151,20 @@ export default function BotsPage() {
 
                       {/* Logs Section */}
                       <div className="space-y-4 p-4 rounded-lg bg-muted/20">
-                        <h3 className="text-lg font-semibold">
-                          Recent Activity
-                        </h3>
+                        <div className="flex items-center justify-between">
+                          <h3 className="text-lg font-semibold">
+                            Recent Activity
+                          </h3>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1"
+                            onClick={() => handleShowLogs(bot.tokenAddress)}
+                          >
+                            <ScrollText className="h-4 w-4" />
+                            View All
+                          </Button>
+                        </div>
                         <ScrollArea className="h-64">
                           {logs.length === 0 ? (
                             <div className="text-center text-muted-foreground py-8">
@@ -1196,6 +1262,24 @@ export default function BotsPage() {
                             </Button>
                           )}
 
+                          <Button
+                            variant="outline"
+                            className="w-full gap-2"
+                            onClick={() => handleEditBot(bot)}
+                          >
+                            <Settings2 className="h-4 w-4" />
+                            Edit Agent
+                          </Button>
+
+                          <Button
+                            variant="outline"
+                            className="w-full gap-2"
+                            onClick={() => handleShowAnalytics(bot)}
+                          >
+                            <BarChart3 className="h-4 w-4" />
+                            Analytics
+                          </Button>
+
                           <Button
                             variant="destructive"
                             className="w-full gap-2"
@@ -1239,6 +1323,41 @@ export default function BotsPage() {
           </div>
         )}
       </div>
+
+      <EditBotDialog
+        bot={editingBot}
+        tokenSymbol={
+          editingBot
+            ? detailedTokens[editingBot.tokenAddress]?.symbol
+            : undefined
+        }
+        open={isEditDialogOpen}
+        onOpenChange={setIsEditDialogOpen}
+        onSaved={handleBotUpdated}
+      />
+
+      <BotAnalyticsDialog
+        bot={analyticsBot}
+        tokenSymbol={
+          analyticsBot
+            ? detailedTokens[analyticsBot.tokenAddress]?.symbol
+            : undefined
+        }
+        price={
+          analyticsBot ? getTokenPrice(analyticsBot.tokenAddress) : undefined
+        }
+        open={isAnalyticsDialogOpen}
+        onOpenChange={setIsAnalyticsDialogOpen}
+      />
+
+      <BotLogDrawer
+        tokenAddress={logTokenAddress}
+        tokenSymbol={
+          logTokenAddress ? detailedTokens[logTokenAddress]?.symbol : undefined
+        }
+        open={isLogDrawerOpen}
+        onOpenChange={setIsLogDrawerOpen}
+      />
     </div>
   );
 }
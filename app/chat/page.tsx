@@ -8,42 +8,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useUserStore } from "@/stores/userStore";
 import { useChatStore } from "@/stores/chatStore";
-import { useApi } from "@/hooks/useApi";
+import { useApiClient } from "@/hooks/useApiClient";
+import { getApiErrorMessage, isCancelledError } from "@/lib/api/errors";
+import type { ChatMessage } from "@/lib/api/types";
 import { toast } from "sonner";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { chatEventEmitter, CHAT_EVENTS } from "@/lib/eventEmitter";
-
-interface ChatMessage {
-  role: "user" | "assistant" | "tool";
-  content: string;
-  timestamp: string;
-  name?: string;
-  tool_calls?: Array<{
-    id: string;
-    type: "function";
-    function: {
-      name: string;
-      arguments: string;
-    };
-  }>;
-  tool_call_id?: string;
-}
-
-interface ChatResponse {
-  success: boolean;
-  response?: string;
-  timestamp?: string;
-  error?: string;
-  details?: string;
-}
-
-interface ChatHistoryResponse {
-  success: boolean;
-  history: ChatMessage[];
-  count: number;
-  error?: string;
-}
+import {
+  chatEventEmitter,
+  CHAT_EVENTS,
+  sessionEventEmitter,
+  SESSION_EVENTS,
+} from "@/lib/eventEmitter";
 
 export default function ChatPage() {
   const [message, setMessage] = useState("");
@@ -54,7 +30,7 @@ export default function ChatPage() {
   const { isAuthenticated, userEmail } = useUserStore();
   const { currentTokenAddress, currentTokenName, currentTokenSymbol } =
     useChatStore();
-  const { post, get, delete: del } = useApi();
+  const api = useApiClient();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -68,6 +44,15 @@ export default function ChatPage() {
     scrollToBottom();
   }, [messages]);
 
+  // Drop the conversation when the user signs out
+  useEffect(() => {
+    const handleLoggedOut = () => setMessages([]);
+    sessionEventEmitter.on(SESSION_EVENTS.LOGGED_OUT, handleLoggedOut);
+    return () => {
+      sessionEventEmitter.off(SESSION_EVENTS.LOGGED_OUT, handleLoggedOut);
+    };
+  }, []);
+
   // Load chat history when component mounts (if authenticated)
   useEffect(() => {
     if (isAuthenticated && messages.length === 0) {
@@ -84,30 +69,20 @@ export default function ChatPage() {
     console.log(`[CHAT PAGE] Loading chat history...`);
     setIsLoadingHistory(true);
     try {
-      const response = await get<ChatHistoryResponse>("/chat/history");
-      console.log(`[CHAT PAGE] Chat history response:`, {
-        success: response.data.success,
-        historyCount: response.data.history?.length || 0,
-        error: response.data.error,
-      });
-
-      if (response.data.success) {
-        const allMessages = response.data.history;
-        const visibleMessages = allMessages.filter(
-          (msg: ChatMessage) => msg.role !== "tool"
-        );
-        const toolMessages = allMessages.filter(
-          (msg: ChatMessage) => msg.role === "tool"
-        );
-
-        setMessages(allMessages); // Store all messages for context
-        console.log(
-          `[CHAT PAGE] Chat history loaded: ${allMessages.length} total messages (${visibleMessages.length} visible, ${toolMessages.length} tool messages hidden)`
-        );
-      } else {
-        console.error("Failed to load chat history:", response.data.error);
-      }
-    } catch (error: any) {
+      const allMessages = await api.getChatHistory();
+      const visibleMessages = allMessages.filter(
+        (msg: ChatMessage) => msg.role !== "tool"
+      );
+      const toolMessages = allMessages.filter(
+        (msg: ChatMessage) => msg.role === "tool"
+      );
+
+      setMessages(allMessages); // Store all messages for context
+      console.log(
+        `[CHAT PAGE] Chat history loaded: ${allMessages.length} total messages (${visibleMessages.length} visible, ${toolMessages.length} tool messages hidden)`
+      );
+    } catch (error) {
+      if (isCancelledError(error)) return; // Navigated away mid-load
       console.error(`[CHAT PAGE] Error loading chat history:`, error);
       // Don't show error toast for history loading - it's not critical
     } finally {
@@ -167,53 +142,34 @@ export default function ChatPage() {
 
       console.log(`[CHAT PAGE] Request body:`, requestBody);
 
-      const response = await post<ChatResponse>("/chat/message", requestBody);
+      const reply = await api.sendChatMessage(requestBody);
 
       console.log(`[CHAT PAGE] Response received:`, {
-        status: response.status,
-        success: response.data?.success,
-        hasResponse: !!response.data?.response,
-        responseLength: response.data?.response?.length || 0,
-        error: response.data?.error,
-        details: response.data?.details,
+        responseLength: reply.response.length,
       });
 
-      if (response.data.success && response.data.response) {
-        const assistantMessage: ChatMessage = {
-          role: "assistant",
-          content: response.data.response,
-          timestamp: response.data.timestamp || new Date().toISOString(),
-        };
-        console.log(`[CHAT PAGE] Adding assistant message to chat:`, {
-          contentLength: assistantMessage.content.length,
-          timestamp: assistantMessage.timestamp,
-        });
-        setMessages((prev) => [...prev, assistantMessage]);
-
-        // Emit refresh events after successful response
-        emitRefreshEvents();
-      } else {
-        console.error(`[CHAT PAGE] Response indicates failure:`, {
-          success: response.data.success,
-          error: response.data.error,
-          details: response.data.details,
-        });
-        throw new Error(response.data.error || "Failed to get response");
-      }
-    } catch (error: any) {
-      console.error(`[CHAT PAGE] Error caught in sendMessage:`, error);
-      console.error(`[CHAT PAGE] Error details:`, {
-        message: error.message,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        responseData: error.response?.data,
-        stack: error.stack,
+      const assistantMessage: ChatMessage = {
+        role: "assistant",
+        content: reply.response,
+        timestamp: reply.timestamp || new Date().toISOString(),
+      };
+      console.log(`[CHAT PAGE] Adding assistant message to chat:`, {
+        contentLength: assistantMessage.content.length,
+        timestamp: assistantMessage.timestamp,
       });
+      setMessages((prev) => [...prev, assistantMessage]);
+
+      // Emit refresh events after successful response
+      emitRefreshEvents();
+    } catch (error) {
+      console.error(`[CHAT PAGE] Error caught in sendMessage:`, error);
 
-      const errorMessage =
-        error.response?.data?.error ||
-        error.message ||
-        "Failed to send message";
+      const errorMessage = getApiErrorMessage(
+        error,
+        error instanceof Error && error.message
+          ? error.message
+          : "Failed to send message"
+      );
       console.log(`[CHAT PAGE] Using error message: "${errorMessage}"`);
 
       toast.error(errorMessage);
@@ -236,12 +192,12 @@ export default function ChatPage() {
     if (!isAuthenticated) return;
 
     try {
-      await del("/chat/history");
+      await api.clearChatHistory();
       setMessages([]);
       toast.success("Chat history cleared");
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error clearing history:", error);
-      toast.error("Failed to clear chat history");
+      toast.error(getApiErrorMessage(error, "Failed to clear chat history"));
     }
   };
 
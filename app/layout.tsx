@@ -5,6 +5,9 @@ import { Toaster } from "@/components/ui/sonner";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/layout/app-sidebar";
 import { ConditionalFloatingChat } from "@/components/shared/conditional-floating-chat";
+import { SessionExpiredDialog } from "@/components/shared/session-expired-dialog";
+import { AlertWatcher } from "@/components/shared/alert-watcher";
+import { AlertsPanel } from "@/components/shared/alerts-panel";
 import Bubbles from "@/components/shared/bg";
 
 const geistSans = Geist({
@@ -41,6 +44,9 @@ export default function RootLayout({
           </main>
         </SidebarProvider>
         <ConditionalFloatingChat />
+        <SessionExpiredDialog />
+        <AlertWatcher />
+        <AlertsPanel />
         <Toaster />
       </body>
     </html>
@@ -1,9 +1,9 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { formatUnits } from "viem";
 import { useRouter } from "next/navigation";
-import { useApi } from "@/hooks/useApi";
+import { useApiClient } from "@/hooks/useApiClient";
 import {
   Card,
   CardHeader,
@@ -32,76 +32,32 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plus, Loader2, ArrowUpDown } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Loader2, ArrowUpDown, Star } from "lucide-react";
 import { FaGlobe, FaTwitter, FaTelegramPlane, FaDiscord } from "react-icons/fa";
 import { toast } from "sonner";
-import { chatEventEmitter, CHAT_EVENTS } from "@/lib/eventEmitter";
+import { applyMarketUpdate, REALTIME_EVENTS } from "@/lib/realtime";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
 import { useUserStore } from "@/stores/userStore";
-
-interface Token {
-  _id: string;
-  eventId: string;
-  tokenAddress: string;
-  creator: string;
-  name: string;
-  symbol: string;
-  decimals: number;
-  description: string;
-  image: string;
-  website: string;
-  twitter: string;
-  telegram: string;
-  discord: string;
-  timestamp: string;
-  blockNumber: string;
-  price?: string; // Token price in USDT (wei)
-  marketCap?: string; // Market cap in USDT (wei)
-  volume24hBuy?: string; // 24h buy volume in USDT (wei)
-  volume24hSell?: string; // 24h sell volume in USDT (wei)
-  volume24hTotal?: string; // 24h total volume in USDT (wei)
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface ApiResponse {
-  success: boolean;
-  data: Token[];
-  count: number;
-  message: string;
-}
-
-interface CreateTokenForm {
-  name: string;
-  symbol: string;
-  description: string;
-  website: string;
-  twitter: string;
-  telegram: string;
-  discord: string;
-}
-
-interface CreateTokenResponse {
-  success: boolean;
-  data?: {
-    transactionHash: string;
-    tokenAddress?: string;
-    message: string;
-  };
-  error?: string;
-}
-
-type SortOption = "default" | "price" | "marketCap" | "volume";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { invalidateQueries } from "@/lib/queryCache";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import { useTokenList, type ListFilter } from "@/hooks/useTokenList";
+import { WatchlistStar } from "@/components/shared/watchlist-star";
+import { Sparkline } from "@/components/shared/sparkline";
+import { TokenFilterBar } from "@/components/shared/token-filter-bar";
+import { PaginationBar } from "@/components/shared/pagination-bar";
+import type { CreateTokenInput, TokenSort } from "@/lib/api/types";
+
+const PAGE_SIZE = 23; // Plus the create card: 8 full rows of three
 
 export default function Home() {
   const router = useRouter();
-  const [tokens, setTokens] = useState<Token[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [createError, setCreateError] = useState<string | null>(null);
-  const [sortBy, setSortBy] = useState<SortOption>("default");
-  const [formData, setFormData] = useState<CreateTokenForm>({
+  const [formData, setFormData] = useState<CreateTokenInput>({
     name: "",
     symbol: "",
     description: "",
@@ -110,28 +66,50 @@ export default function Home() {
     telegram: "",
     discord: "",
   });
-  const { get, post } = useApi();
+  const api = useApiClient();
   const { isAuthenticated } = useUserStore();
+  const { isWatched } = useWatchlist();
+
+  // One page of tokens, searched, filtered and sorted by the backend
+  const {
+    tokens,
+    total,
+    page,
+    totalPages,
+    setPage,
+    form: filterForm,
+    updateForm: updateFilters,
+    resetForm: resetFilters,
+    sort,
+    setSort,
+    listFilter,
+    setListFilter,
+    hasFilters,
+    watchlistCount,
+    isWatchlistEmpty,
+    error: tokensError,
+    isLoading: loading,
+    isValidating,
+    updateTokens,
+  } = useTokenList({ pageSize: PAGE_SIZE, defaultSort: "newest" });
+  const error =
+    tokensError && !tokens.length
+      ? getApiErrorMessage(tokensError, "Failed to fetch tokens")
+      : null;
+
+  // Listen for live market updates and new launches from the realtime stream
+  useRealtimeEvent(REALTIME_EVENTS.TOKEN_CREATED, (launch) => {
+    console.log(`[HOME PAGE] New token launched: ${launch.symbol}`);
+    invalidateQueries(queryKeys.tokens());
+  });
 
-  useEffect(() => {
-    fetchTokens();
-  }, [get]);
-
-  // Listen for chat refresh events
-  useEffect(() => {
-    const handleRefreshTokens = () => {
-      console.log(`[HOME PAGE] Received refresh tokens event from chat`);
-      fetchTokens(true); // Silent refresh
-    };
-
-    // Register event listener
-    chatEventEmitter.on(CHAT_EVENTS.REFRESH_TOKENS, handleRefreshTokens);
+  useRealtimeEvent(REALTIME_EVENTS.TRADE, (trade) => {
+    updateTokens((prev) => applyMarketUpdate(prev, trade));
+  });
 
-    // Cleanup event listener on unmount
-    return () => {
-      chatEventEmitter.off(CHAT_EVENTS.REFRESH_TOKENS, handleRefreshTokens);
-    };
-  }, []);
+  useRealtimeEvent(REALTIME_EVENTS.PRICE_TICK, (tick) => {
+    updateTokens((prev) => applyMarketUpdate(prev, tick));
+  });
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
@@ -243,29 +221,6 @@ export default function Home() {
     setCreateError(null);
   };
 
-  const fetchTokens = async (silent: boolean = false) => {
-    try {
-      if (!silent) {
-        setLoading(true);
-      }
-      setError(null);
-      const response = await get<ApiResponse>("/tokens");
-
-      if (response.data.success) {
-        setTokens(response.data.data);
-      } else {
-        setError("Failed to fetch tokens");
-      }
-    } catch (err: any) {
-      console.error("Error fetching tokens:", err);
-      setError(err.response?.data?.error || "Failed to fetch tokens");
-    } finally {
-      if (!silent) {
-        setLoading(false);
-      }
-    }
-  };
-
   const handleCreateToken = async () => {
     if (!formData.name || !formData.symbol || !formData.description) {
       setCreateError(
@@ -296,83 +251,25 @@ export default function Home() {
 
       console.log("Creating token with data:", tokenData);
 
-      const response = await post<CreateTokenResponse>(
-        "/create-token",
-        tokenData
-      );
-
-      if (response.data.success) {
-        console.log("Token created successfully:", response.data);
+      const result = await api.createToken(tokenData);
+      console.log("Token created successfully:", result);
 
-        // Close dialog and reset form
-        setIsCreateDialogOpen(false);
-        resetForm();
+      // Close dialog and reset form
+      setIsCreateDialogOpen(false);
+      resetForm();
 
-        // Wait 500ms then refresh tokens
-        setTimeout(() => {
-          fetchTokens();
-        }, 500);
-      } else {
-        setCreateError(response.data.error || "Failed to create token");
-      }
-    } catch (err: any) {
+      // Wait 500ms then refresh tokens
+      setTimeout(() => {
+        invalidateQueries(queryKeys.tokens());
+      }, 500);
+    } catch (err) {
       console.error("Error creating token:", err);
-      setCreateError(
-        err.response?.data?.error ||
-          err.response?.data?.details ||
-          "Failed to create token"
-      );
+      setCreateError(getApiErrorMessage(err, "Failed to create token"));
     } finally {
       setIsCreating(false);
     }
   };
 
-  // Sort tokens based on selected option
-  const getSortedTokens = () => {
-    const tokensCopy = [...tokens];
-
-    switch (sortBy) {
-      case "price":
-        return tokensCopy.sort((a, b) => {
-          const priceA = a.price
-            ? parseFloat(formatUnits(BigInt(a.price), 18))
-            : 0;
-          const priceB = b.price
-            ? parseFloat(formatUnits(BigInt(b.price), 18))
-            : 0;
-          return priceB - priceA; // Descending order
-        });
-      case "marketCap":
-        return tokensCopy.sort((a, b) => {
-          const marketCapA = a.marketCap
-            ? parseFloat(formatUnits(BigInt(a.marketCap), 18))
-            : 0;
-          const marketCapB = b.marketCap
-            ? parseFloat(formatUnits(BigInt(b.marketCap), 18))
-            : 0;
-          return marketCapB - marketCapA; // Descending order
-        });
-      case "volume":
-        return tokensCopy.sort((a, b) => {
-          const volumeA = a.volume24hTotal
-            ? parseFloat(formatUnits(BigInt(a.volume24hTotal), 18))
-            : 0;
-          const volumeB = b.volume24hTotal
-            ? parseFloat(formatUnits(BigInt(b.volume24hTotal), 18))
-            : 0;
-          return volumeB - volumeA; // Descending order
-        });
-      case "default":
-      default:
-        return tokensCopy.sort((a, b) => {
-          // Sort by creation date, newest first (default behavior)
-          return (
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-          );
-        });
-    }
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen p-6 pb-16">
@@ -444,19 +341,31 @@ export default function Home() {
           </p>
           <div className="flex justify-between items-center mt-2">
             <p className="text-sm text-foreground">
-              {tokens.length} AI agent{tokens.length !== 1 ? "s" : ""} found
+              {total} AI agent{total !== 1 ? "s" : ""} found
             </p>
             <div className="flex items-center gap-2">
+              <Tabs
+                value={listFilter}
+                onValueChange={(value) => setListFilter(value as ListFilter)}
+              >
+                <TabsList>
+                  <TabsTrigger value="all">All</TabsTrigger>
+                  <TabsTrigger value="watchlist">
+                    <Star className="h-3.5 w-3.5" />
+                    Watchlist ({watchlistCount})
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
               <ArrowUpDown className="h-4 w-4 text-foreground" />
               <Select
-                value={sortBy}
-                onValueChange={(value: SortOption) => setSortBy(value)}
+                value={sort}
+                onValueChange={(value: TokenSort) => setSort(value)}
               >
                 <SelectTrigger className="w-[160px]">
                   <SelectValue placeholder="Sort by" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="default">Latest</SelectItem>
+                  <SelectItem value="newest">Latest</SelectItem>
                   <SelectItem value="price">Price</SelectItem>
                   <SelectItem value="marketCap">Market Cap</SelectItem>
                   <SelectItem value="volume">Volume</SelectItem>
@@ -466,6 +375,14 @@ export default function Home() {
           </div>
         </div>
 
+        <TokenFilterBar
+          form={filterForm}
+          onChange={updateFilters}
+          onReset={resetFilters}
+          canFilterByWallet={isAuthenticated}
+          className="mb-6"
+        />
+
         {/* Tokens Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {/* Create Token Card */}
@@ -664,17 +581,28 @@ export default function Home() {
           )}
 
           {/* Existing Tokens */}
-          {tokens.length === 0 && !loading ? (
+          {isWatchlistEmpty ? (
+            <Card className="w-full col-span-full max-w-md mx-auto">
+              <CardHeader>
+                <CardTitle>Your Watchlist is Empty</CardTitle>
+                <CardDescription>
+                  Star an AI agent to follow it here and in the sidebar.
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          ) : tokens.length === 0 && !loading ? (
             <Card className="w-full col-span-full max-w-md mx-auto">
               <CardHeader>
                 <CardTitle>No Tokens Found</CardTitle>
                 <CardDescription>
-                  No tokens have been created yet. Be the first to create one!
+                  {hasFilters
+                    ? "No AI agents match your search and filters."
+                    : "No tokens have been created yet. Be the first to create one!"}
                 </CardDescription>
               </CardHeader>
             </Card>
           ) : (
-            getSortedTokens().map((token) => (
+            tokens.map((token) => (
               <Card
                 key={token._id}
                 className="w-full hover:shadow-lg transition-shadow duration-200 flex flex-col"
@@ -709,10 +637,11 @@ export default function Home() {
                         ${token.symbol}
                       </CardDescription>
                     </div>
-                    <CardAction>
+                    <CardAction className="flex items-center gap-1">
                       <span className="text-xs text-muted-foreground">
                         {formatDate(token.createdAt)}
                       </span>
+                      <WatchlistStar tokenAddress={token.tokenAddress} />
                     </CardAction>
                   </div>
                 </CardHeader>
@@ -729,7 +658,10 @@ export default function Home() {
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Price:</span>
-                      <span className="font-mono text-green-600">
+                      <span className="flex items-center gap-2 font-mono text-green-600">
+                        {isWatched(token.tokenAddress) && (
+                          <Sparkline tokenAddress={token.tokenAddress} />
+                        )}
                         {formatPrice(token.price)}
                       </span>
                     </div>
@@ -825,6 +757,17 @@ export default function Home() {
             ))
           )}
         </div>
+
+        {/* Pagination */}
+        {total > PAGE_SIZE && (
+          <PaginationBar
+            page={page}
+            totalPages={totalPages}
+            onPageChange={setPage}
+            disabled={isValidating}
+            className="mt-8"
+          />
+        )}
       </div>
     </div>
   );
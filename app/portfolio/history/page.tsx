@@ -0,0 +1,460 @@
+"use client";
+
+import { useState } from "react";
+import { formatUnits } from "viem";
+import { useRouter } from "next/navigation";
+import { useApiClient } from "@/hooks/useApiClient";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, ExternalLink, History, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useUserStore } from "@/stores/userStore";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { useQuery } from "@/hooks/useQuery";
+import { PaginationBar } from "@/components/shared/pagination-bar";
+import { getTransactionUrl } from "@/lib/contracts";
+import { downloadCsv, toCsv, type CsvColumn } from "@/lib/csv";
+import { fetchAllActivity } from "@/lib/portfolio";
+import type {
+  ActivityFilters,
+  ActivityType,
+  Token,
+  WalletActivity,
+} from "@/lib/api/types";
+
+const PAGE_SIZE = 20;
+const ALL = "all";
+const NO_TOKENS: Token[] = [];
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  create: "Token Created",
+  bot_buy: "Bot Buy",
+  bot_sell: "Bot Sell",
+};
+
+const ACTIVITY_STYLES: Record<ActivityType, string> = {
+  buy: "bg-green-600/15 text-green-600 border-green-600/30",
+  sell: "bg-red-600/15 text-red-600 border-red-600/30",
+  create: "bg-blue-600/15 text-blue-600 border-blue-600/30",
+  bot_buy: "bg-purple-600/15 text-purple-600 border-purple-600/30",
+  bot_sell: "bg-orange-600/15 text-orange-600 border-orange-600/30",
+};
+
+// `<input type="date">` value (local day) to unix seconds at its start or end
+const toUnixSeconds = (date: string, endOfDay: boolean) => {
+  if (!date) return undefined;
+  const time = new Date(`${date}T${endOfDay ? "23:59:59" : "00:00:00"}`);
+  return Math.floor(time.getTime() / 1000);
+};
+
+const fromWei = (value: string | undefined) =>
+  value ? formatUnits(BigInt(value), 18) : "";
+
+const CSV_COLUMNS: CsvColumn<WalletActivity>[] = [
+  {
+    header: "Date",
+    value: (activity) =>
+      new Date(Number(activity.timestamp) * 1000).toISOString(),
+  },
+  { header: "Type", value: (activity) => ACTIVITY_LABELS[activity.type] },
+  { header: "Token", value: (activity) => activity.tokenName },
+  { header: "Symbol", value: (activity) => activity.tokenSymbol },
+  { header: "Token Address", value: (activity) => activity.tokenAddress },
+  { header: "USDT Amount", value: (activity) => fromWei(activity.usdtAmount) },
+  { header: "Token Amount", value: (activity) => fromWei(activity.tokenAmount) },
+  { header: "Price (USDT)", value: (activity) => fromWei(activity.price) },
+  { header: "Transaction Hash", value: (activity) => activity.transactionHash },
+];
+
+export default function PortfolioHistoryPage() {
+  const router = useRouter();
+  const api = useApiClient();
+  const { isAuthenticated } = useUserStore();
+
+  const [tokenFilter, setTokenFilter] = useState(ALL);
+  const [typeFilter, setTypeFilter] = useState<ActivityType | typeof ALL>(ALL);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(1);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const filters: ActivityFilters = {
+    tokenAddress: tokenFilter === ALL ? undefined : tokenFilter,
+    type: typeFilter === ALL ? undefined : typeFilter,
+    from: toUnixSeconds(fromDate, false),
+    to: toUnixSeconds(toDate, true),
+  };
+
+  // Token list for the filter, shared with the other token views
+  const { data: tokens = NO_TOKENS } = useQuery(
+    queryKeys.tokens(),
+    api.getTokens,
+    { enabled: isAuthenticated }
+  );
+
+  const {
+    data: history,
+    error: historyError,
+    isLoading: loading,
+    isValidating,
+  } = useQuery(
+    queryKeys.portfolioHistory(filters, page, PAGE_SIZE),
+    () => api.getPortfolioHistory({ ...filters, page, limit: PAGE_SIZE }),
+    { enabled: isAuthenticated, keepPreviousData: true }
+  );
+
+  const activities = history?.items ?? [];
+  const total = history?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const error =
+    historyError && !history
+      ? getApiErrorMessage(historyError, "Failed to fetch transaction history")
+      : null;
+
+  // Any filter change starts again from the first page
+  const updateFilter =
+    <T,>(setter: (value: T) => void) =>
+    (value: T) => {
+      setter(value);
+      setPage(1);
+    };
+
+  const clearFilters = () => {
+    setTokenFilter(ALL);
+    setTypeFilter(ALL);
+    setFromDate("");
+    setToDate("");
+    setPage(1);
+  };
+
+  const hasFilters =
+    tokenFilter !== ALL || typeFilter !== ALL || !!fromDate || !!toDate;
+
+  // Export every page matching the current filters, not just the visible one
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchAllActivity(api.getPortfolioHistory, filters);
+
+      const date = new Date().toISOString().slice(0, 10);
+      downloadCsv(`transaction-history-${date}.csv`, toCsv(rows, CSV_COLUMNS));
+      toast.success(
+        `Exported ${rows.length} transaction${rows.length !== 1 ? "s" : ""}`
+      );
+    } catch (error) {
+      console.error("[HISTORY PAGE] Export failed:", error);
+      toast.error(getApiErrorMessage(error, "Failed to export history"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(Number(timestamp) * 1000).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const formatAmount = (amountWei: string | undefined, decimals = 2) => {
+    if (!amountWei || amountWei === "0") return "-";
+    try {
+      const amount = parseFloat(formatUnits(BigInt(amountWei), 18));
+      return amount.toLocaleString("en-US", {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+      });
+    } catch {
+      return "-";
+    }
+  };
+
+  const shortenHash = (hash: string) => {
+    return `${hash.slice(0, 8)}...${hash.slice(-6)}`;
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <History className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <CardTitle>Authentication Required</CardTitle>
+            <CardDescription>
+              Please sign in to view your transaction history
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-6 pb-32">
+      <div className="max-w-7xl mx-auto">
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center gap-4">
+              <div>
+                <CardTitle className="text-xl">Transaction History</CardTitle>
+                <CardDescription>
+                  {total} transaction{total !== 1 ? "s" : ""} from your wallet
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleExport}
+                disabled={isExporting || total === 0}
+              >
+                {isExporting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                Export CSV
+              </Button>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-3 pt-4">
+              <Select
+                value={tokenFilter}
+                onValueChange={updateFilter(setTokenFilter)}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Token" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All tokens</SelectItem>
+                  {tokens.map((token) => (
+                    <SelectItem key={token._id} value={token.tokenAddress}>
+                      {token.name} (${token.symbol})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={typeFilter}
+                onValueChange={updateFilter(
+                  (value: ActivityType | typeof ALL) => setTypeFilter(value)
+                )}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {(Object.keys(ACTIVITY_LABELS) as ActivityType[]).map(
+                    (type) => (
+                      <SelectItem key={type} value={type}>
+                        {ACTIVITY_LABELS[type]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => updateFilter(setFromDate)(e.target.value)}
+                  className="w-[160px]"
+                  aria-label="From date"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => updateFilter(setToDate)(e.target.value)}
+                  className="w-[160px]"
+                  aria-label="To date"
+                />
+              </div>
+              {hasFilters && (
+                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="space-y-4 p-6">
+                {[...Array(6)].map((_, i) => (
+                  <Skeleton key={i} className="h-14 w-full" />
+                ))}
+              </div>
+            ) : error ? (
+              <div className="p-8 text-center">
+                <CardTitle className="mb-2 text-destructive">
+                  Failed to load history
+                </CardTitle>
+                <CardDescription>{error}</CardDescription>
+              </div>
+            ) : activities.length === 0 ? (
+              <div className="p-8 text-center">
+                <CardTitle className="mb-2">No Transactions Found</CardTitle>
+                <CardDescription>
+                  {hasFilters
+                    ? "No transactions match the selected filters."
+                    : "Your trades, token launches and bot trades will appear here."}
+                </CardDescription>
+              </div>
+            ) : (
+              <div
+                className={`overflow-x-auto transition-opacity ${
+                  isValidating ? "opacity-60" : ""
+                }`}
+              >
+                <Table className="text-base">
+                  <TableHeader>
+                    <TableRow className="border-b-2 border-border/50">
+                      <TableHead className="h-14 px-6 text-lg font-semibold">
+                        Date
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold">
+                        Type
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold">
+                        Token
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold text-right">
+                        USDT
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold text-right">
+                        Tokens
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold text-right">
+                        Price
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold">
+                        Transaction
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {activities.map((activity) => {
+                      const explorerUrl =
+                        activity.transactionHash &&
+                        getTransactionUrl(activity.transactionHash);
+                      return (
+                        <TableRow
+                          key={activity.id}
+                          className="border-b border-border/30 hover:bg-muted/30"
+                        >
+                          <TableCell className="p-6 text-sm text-muted-foreground whitespace-nowrap">
+                            {formatDate(activity.timestamp)}
+                          </TableCell>
+                          <TableCell className="p-6">
+                            <Badge
+                              variant="outline"
+                              className={ACTIVITY_STYLES[activity.type]}
+                            >
+                              {ACTIVITY_LABELS[activity.type]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="p-6">
+                            <button
+                              onClick={() =>
+                                router.push(`/token/${activity.tokenAddress}`)
+                              }
+                              className="text-left hover:underline cursor-pointer"
+                            >
+                              <div className="font-semibold text-foreground">
+                                {activity.tokenName ?? "Unknown token"}
+                              </div>
+                              {activity.tokenSymbol && (
+                                <div className="font-mono text-sm text-muted-foreground">
+                                  ${activity.tokenSymbol}
+                                </div>
+                              )}
+                            </button>
+                          </TableCell>
+                          <TableCell className="p-6 text-right font-mono">
+                            {formatAmount(activity.usdtAmount)}
+                          </TableCell>
+                          <TableCell className="p-6 text-right font-mono">
+                            {formatAmount(activity.tokenAmount)}
+                          </TableCell>
+                          <TableCell className="p-6 text-right font-mono">
+                            {activity.price
+                              ? `$${formatAmount(activity.price, 6)}`
+                              : "-"}
+                          </TableCell>
+                          <TableCell className="p-6">
+                            {activity.transactionHash ? (
+                              explorerUrl ? (
+                                <a
+                                  href={explorerUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="inline-flex items-center gap-1 font-mono text-sm text-primary hover:underline"
+                                >
+                                  {shortenHash(activity.transactionHash)}
+                                  <ExternalLink className="h-3 w-3" />
+                                </a>
+                              ) : (
+                                <span className="font-mono text-sm">
+                                  {shortenHash(activity.transactionHash)}
+                                </span>
+                              )
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {/* Pagination */}
+            {total > PAGE_SIZE && (
+              <PaginationBar
+                page={page}
+                totalPages={totalPages}
+                onPageChange={setPage}
+                disabled={isValidating}
+                className="border-t border-border/50 px-6 py-4"
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,406 @@
+"use client";
+
+import { useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { useApiClient } from "@/hooks/useApiClient";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { History, PieChart, RefreshCw, Wallet } from "lucide-react";
+import { AllocationChart } from "@/components/shared/allocation-chart";
+import { PortfolioValueChart } from "@/components/shared/portfolio-value-chart";
+import { useUserStore } from "@/stores/userStore";
+import { useBalances } from "@/hooks/useBalances";
+import { useQuery } from "@/hooks/useQuery";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+import { applyMarketUpdate, REALTIME_EVENTS } from "@/lib/realtime";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { invalidateQueries } from "@/lib/queryCache";
+import {
+  buildPortfolio,
+  fetchAllActivity,
+  isBotActivity,
+} from "@/lib/portfolio";
+import { isSameAddress } from "@/lib/utils";
+import type { Token, WalletActivity } from "@/lib/api/types";
+
+const NO_TOKENS: Token[] = [];
+const NO_ACTIVITY: WalletActivity[] = [];
+
+export default function PortfolioPage() {
+  const router = useRouter();
+  const api = useApiClient();
+  const { isAuthenticated, walletAddress, usdtBalance } = useUserStore();
+  const { tokenBalances, balancesLoading, fetchBalances } = useBalances();
+
+  // Current prices come from the shared token list
+  const { data: tokens = NO_TOKENS, mutate: setTokens } = useQuery(
+    queryKeys.tokens(),
+    api.getTokens,
+    { enabled: isAuthenticated }
+  );
+
+  // The full history is needed to replay cost basis and realized PnL
+  const {
+    data: activities = NO_ACTIVITY,
+    error: activityError,
+    isLoading: activityLoading,
+    isValidating,
+  } = useQuery(
+    queryKeys.portfolioActivity(),
+    () => fetchAllActivity(api.getPortfolioHistory),
+    { enabled: isAuthenticated }
+  );
+
+  const error = activityError
+    ? getApiErrorMessage(activityError, "Failed to load trade history")
+    : null;
+
+  // Revalue positions as prices move; our own fills also change cost basis
+  useRealtimeEvent(REALTIME_EVENTS.TRADE, (trade) => {
+    setTokens((prev) => prev && applyMarketUpdate(prev, trade));
+    if (isSameAddress(trade.wallet, walletAddress)) {
+      console.log(`[PORTFOLIO PAGE] Own ${trade.type} detected, refreshing`);
+      invalidateQueries(queryKeys.portfolio());
+      fetchBalances();
+    }
+  });
+
+  useRealtimeEvent(REALTIME_EVENTS.PRICE_TICK, (tick) => {
+    setTokens((prev) => prev && applyMarketUpdate(prev, tick));
+  });
+
+  const portfolio = useMemo(
+    () => buildPortfolio(tokenBalances, usdtBalance, tokens, activities),
+    [tokenBalances, usdtBalance, tokens, activities]
+  );
+
+  // Agents trade from their own budget, so their trades are listed but not
+  // counted towards the wallet's PnL
+  const agentTradeCount = useMemo(
+    () => activities.filter(isBotActivity).length,
+    [activities]
+  );
+  const walletTradeCount = activities.length - agentTradeCount;
+
+  const handleRefresh = () => {
+    invalidateQueries(queryKeys.portfolio());
+    invalidateQueries(queryKeys.tokens());
+    fetchBalances();
+  };
+
+  const formatUsd = (value: number) => {
+    const abs = Math.abs(value);
+    const sign = value < 0 ? "-" : "";
+    if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(2)}M`;
+    if (abs >= 1e3) return `${sign}$${(abs / 1e3).toFixed(2)}K`;
+    return `${sign}$${abs.toFixed(2)}`;
+  };
+
+  const formatPnl = (value: number | undefined) => {
+    if (value === undefined) return "-";
+    return `${value > 0 ? "+" : ""}${formatUsd(value)}`;
+  };
+
+  const pnlColor = (value: number | undefined) => {
+    if (!value) return "text-muted-foreground";
+    return value > 0 ? "text-green-600" : "text-red-600";
+  };
+
+  const formatPrice = (price: number | undefined) => {
+    if (price === undefined || price === 0) return "N/A";
+    return `$${price.toFixed(6)}`;
+  };
+
+  const formatTokenAmount = (amount: number) => {
+    if (amount >= 1e9) return `${(amount / 1e9).toFixed(2)}B`;
+    if (amount >= 1e6) return `${(amount / 1e6).toFixed(2)}M`;
+    if (amount >= 1e3) return `${(amount / 1e3).toFixed(2)}K`;
+    return amount.toFixed(2);
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <Wallet className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <CardTitle>Authentication Required</CardTitle>
+            <CardDescription>Please sign in to view your portfolio</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (activityLoading) {
+    return (
+      <div className="min-h-screen p-6 pb-16">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-28 w-full" />
+            ))}
+          </div>
+          <Skeleton className="h-72 w-full" />
+          <Skeleton className="h-96 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  const totalPnl = portfolio.realizedPnl + portfolio.unrealizedPnl;
+  const summaryCards = [
+    {
+      label: "Total Value",
+      value: formatUsd(portfolio.totalValue),
+      detail: `${formatUsd(portfolio.tokensValue)} in tokens · ${formatUsd(
+        portfolio.usdtBalance
+      )} USDT`,
+      color: "text-foreground",
+    },
+    {
+      label: "Unrealized PnL",
+      value: formatPnl(portfolio.unrealizedPnl),
+      detail: `Cost basis ${formatUsd(portfolio.costBasis)}`,
+      color: pnlColor(portfolio.unrealizedPnl),
+    },
+    {
+      label: "Realized PnL",
+      value: formatPnl(portfolio.realizedPnl),
+      detail: `${walletTradeCount} trade${
+        walletTradeCount !== 1 ? "s" : ""
+      } in history${
+        agentTradeCount
+          ? ` · ${agentTradeCount} agent trade${
+              agentTradeCount !== 1 ? "s" : ""
+            } not counted`
+          : ""
+      }`,
+      color: pnlColor(portfolio.realizedPnl),
+    },
+    {
+      label: "Total PnL",
+      value: formatPnl(totalPnl),
+      detail: portfolio.costBasis
+        ? `${((portfolio.unrealizedPnl / portfolio.costBasis) * 100).toFixed(
+            2
+          )}% on open positions`
+        : "No open cost basis",
+      color: pnlColor(totalPnl),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen p-6 pb-32">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold">Portfolio</h1>
+            <p className="text-muted-foreground">
+              Positions valued at the current bonding curve price
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => router.push("/portfolio/history")}
+            >
+              <History className="h-4 w-4 mr-2" />
+              History
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleRefresh}
+              disabled={isValidating || balancesLoading}
+            >
+              <RefreshCw
+                className={`h-4 w-4 mr-2 ${
+                  isValidating || balancesLoading ? "animate-spin" : ""
+                }`}
+              />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Card className="border-destructive/50">
+            <CardContent className="p-4 text-sm text-destructive">
+              {error}. Cost basis and PnL may be incomplete.
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          {summaryCards.map((card) => (
+            <Card key={card.label}>
+              <CardContent className="p-6">
+                <div className="text-sm text-muted-foreground">
+                  {card.label}
+                </div>
+                <div className={`text-2xl font-bold font-mono ${card.color}`}>
+                  {card.value}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  {card.detail}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Value over time */}
+        <PortfolioValueChart
+          activities={activities}
+          tokenBalances={tokenBalances}
+          usdtBalance={usdtBalance}
+        />
+
+        {/* Allocation */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl flex items-center gap-2">
+              <PieChart className="h-5 w-5" />
+              Allocation
+            </CardTitle>
+            <CardDescription>Share of total value by holding</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AllocationChart
+              slices={[
+                ...portfolio.positions.map((position) => ({
+                  id: position.tokenAddress,
+                  label: `${position.name} ($${position.symbol})`,
+                  value: position.value,
+                })),
+                { id: "usdt", label: "USDT", value: portfolio.usdtBalance },
+              ]}
+              formatValue={formatUsd}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Positions */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Positions</CardTitle>
+            <CardDescription>
+              Average cost basis from your buys, sells and bot trades
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {portfolio.positions.length === 0 ? (
+              <div className="p-8 text-center">
+                <CardTitle className="mb-2">No Positions Yet</CardTitle>
+                <CardDescription>
+                  Buy an AI agent token to start building your portfolio.
+                </CardDescription>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table className="text-base">
+                  <TableHeader>
+                    <TableRow className="border-b-2 border-border/50">
+                      <TableHead className="h-14 px-6 text-lg font-semibold">
+                        Token
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold text-right">
+                        Balance
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold text-right">
+                        Avg Cost
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold text-right">
+                        Price
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold text-right">
+                        Value
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold text-right">
+                        Unrealized
+                      </TableHead>
+                      <TableHead className="h-14 px-6 text-lg font-semibold text-right">
+                        Realized
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {portfolio.positions.map((position) => (
+                      <TableRow
+                        key={position.tokenAddress}
+                        className="border-b border-border/30 hover:bg-muted/30 cursor-pointer"
+                        onClick={() =>
+                          router.push(`/token/${position.tokenAddress}`)
+                        }
+                      >
+                        <TableCell className="p-6">
+                          <div className="font-semibold text-foreground">
+                            {position.name}
+                          </div>
+                          <div className="font-mono text-sm text-muted-foreground">
+                            ${position.symbol}
+                          </div>
+                        </TableCell>
+                        <TableCell className="p-6 text-right font-mono">
+                          {position.balance
+                            ? formatTokenAmount(position.balance)
+                            : "Closed"}
+                        </TableCell>
+                        <TableCell className="p-6 text-right font-mono">
+                          {formatPrice(position.averageCost)}
+                        </TableCell>
+                        <TableCell className="p-6 text-right font-mono">
+                          {formatPrice(position.price)}
+                        </TableCell>
+                        <TableCell className="p-6 text-right font-mono font-semibold">
+                          {formatUsd(position.value)}
+                        </TableCell>
+                        <TableCell
+                          className={`p-6 text-right font-mono ${pnlColor(
+                            position.unrealizedPnl
+                          )}`}
+                        >
+                          <div>{formatPnl(position.unrealizedPnl)}</div>
+                          {position.unrealizedPnlPercent !== undefined && (
+                            <div className="text-xs">
+                              {position.unrealizedPnlPercent > 0 ? "+" : ""}
+                              {position.unrealizedPnlPercent.toFixed(2)}%
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell
+                          className={`p-6 text-right font-mono ${pnlColor(
+                            position.realizedPnl
+                          )}`}
+                        >
+                          {formatPnl(position.realizedPnl)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
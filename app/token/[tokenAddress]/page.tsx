@@ -1,9 +1,10 @@
 "use client";
 
-import { use, useState, useEffect } from "react";
+import { use, useEffect } from "react";
 import { formatUnits } from "viem";
-import { useApi } from "@/hooks/useApi";
+import { useApiClient } from "@/hooks/useApiClient";
 import { useChatStore } from "@/stores/chatStore";
+import { useAlertStore } from "@/stores/alertStore";
 import { TokenChart } from "@/components/shared/token-chart";
 import { TokenSwap } from "@/components/shared/token-swap";
 import { FaGlobe, FaTwitter, FaTelegramPlane, FaDiscord } from "react-icons/fa";
@@ -19,59 +20,17 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Bell } from "lucide-react";
 import { toast } from "sonner";
-import { chatEventEmitter, CHAT_EVENTS } from "@/lib/eventEmitter";
-
-interface TokenHolder {
-  address: string;
-  balance: string; // Token balance in wei
-  percentage: number; // Percentage of total supply (0-100)
-}
-
-interface TokenTransaction {
-  type: "buy" | "sell";
-  wallet: string;
-  amountIn: string;
-  amountOut: string;
-  timestamp: string;
-  blockNumber: string;
-  eventId: string;
-}
-
-interface Token {
-  _id: string;
-  eventId: string;
-  tokenAddress: string;
-  creator: string;
-  name: string;
-  symbol: string;
-  decimals: number;
-  description: string;
-  image: string;
-  website: string;
-  twitter: string;
-  telegram: string;
-  discord: string;
-  timestamp: string;
-  blockNumber: string;
-  price?: string; // Token price in USDT (wei)
-  marketCap?: string; // Market cap in USDT (wei)
-  totalUsdtRaised?: string; // Total USDT raised via bonding curve (wei)
-  volume24hBuy?: string; // 24h buy volume in USDT (wei)
-  volume24hSell?: string; // 24h sell volume in USDT (wei)
-  volume24hTotal?: string; // 24h total volume in USDT (wei)
-  userTokenBalance?: string; // User's balance of this token (wei)
-  holders?: TokenHolder[]; // Top 10 holders
-  recentTransactions?: TokenTransaction[]; // Recent buy/sell transactions
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface ApiResponse {
-  success: boolean;
-  data: Token;
-  message: string;
-}
+import { applyMarketUpdate, REALTIME_EVENTS } from "@/lib/realtime";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+import { isSameAddress } from "@/lib/utils";
+import { getMarketCap, getSpotPrice, toWei } from "@/lib/bondingCurve";
+import { BONDING_CURVE_ADDRESS } from "@/lib/contracts";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { invalidateQueries } from "@/lib/queryCache";
+import { useQuery } from "@/hooks/useQuery";
 
 interface TokenPageProps {
   params: Promise<{
@@ -81,15 +40,25 @@ interface TokenPageProps {
 
 export default function TokenPage({ params }: TokenPageProps) {
   const { tokenAddress } = use(params);
-  const [token, setToken] = useState<Token | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const { get } = useApi();
+  const api = useApiClient();
   const { setCurrentToken, clearCurrentToken } = useChatStore();
-
-  useEffect(() => {
-    fetchTokenData();
-  }, [tokenAddress, get]);
+  const openAlertsPanel = useAlertStore((state) => state.openPanel);
+
+  // Chat refreshes invalidate this key in the query cache, which refetches it
+  const {
+    data,
+    error: tokenError,
+    isLoading: loading,
+    refetch,
+    mutate: setToken,
+  } = useQuery(queryKeys.token(tokenAddress), () =>
+    api.getToken(tokenAddress)
+  );
+  const token = data ?? null;
+  const error =
+    tokenError && !data
+      ? getApiErrorMessage(tokenError, "Failed to fetch token data")
+      : null;
 
   // Set token context for chat when token data is available
   useEffect(() => {
@@ -111,72 +80,18 @@ export default function TokenPage({ params }: TokenPageProps) {
     };
   }, [clearCurrentToken]);
 
-  // Listen for chat refresh events
-  useEffect(() => {
-    const handleRefreshTokenData = (data: { tokenAddress?: string }) => {
-      console.log(
-        `[TOKEN PAGE] Received refresh token data event from chat:`,
-        data
-      );
-      // Refresh if no specific token address provided, or if it matches our current token
-      if (!data.tokenAddress || data.tokenAddress === tokenAddress) {
-        console.log(`[TOKEN PAGE] Refreshing token data for: ${tokenAddress}`);
-        fetchTokenData(true); // Silent refresh
-      }
-    };
-
-    // Register event listener
-    chatEventEmitter.on(CHAT_EVENTS.REFRESH_TOKEN_DATA, handleRefreshTokenData);
-
-    // Cleanup event listener on unmount
-    return () => {
-      chatEventEmitter.off(
-        CHAT_EVENTS.REFRESH_TOKEN_DATA,
-        handleRefreshTokenData
-      );
-    };
-  }, [tokenAddress]);
-
-  const fetchTokenData = async (silent: boolean = false) => {
-    try {
-      if (!silent) {
-        setLoading(true);
-      }
-      setError(null);
-      console.log("🔍 [TokenPage] Fetching token data for:", tokenAddress);
-
-      const response = await get<ApiResponse>(
-        `/tokens/address/${tokenAddress}`
-      );
-
-      console.log("📥 [TokenPage] API response:", {
-        success: response.data.success,
-        hasData: !!response.data.data,
-        userTokenBalance: response.data.data?.userTokenBalance,
-        tokenName: response.data.data?.name,
-        tokenSymbol: response.data.data?.symbol,
-      });
+  // Live updates for this token from the realtime stream
+  useRealtimeEvent(REALTIME_EVENTS.PRICE_TICK, (tick) => {
+    if (!isSameAddress(tick.tokenAddress, tokenAddress)) return;
+    setToken((prev) => prev && applyMarketUpdate([prev], tick)[0]);
+  });
 
-      if (response.data.success) {
-        setToken(response.data.data);
-        console.log("✅ [TokenPage] Token data set:", {
-          userTokenBalance: response.data.data.userTokenBalance,
-          name: response.data.data.name,
-          symbol: response.data.data.symbol,
-        });
-      } else {
-        console.log("❌ [TokenPage] Token not found");
-        setError("Token not found");
-      }
-    } catch (err: any) {
-      console.error("❌ [TokenPage] Error fetching token:", err);
-      setError(err.response?.data?.error || "Failed to fetch token data");
-    } finally {
-      if (!silent) {
-        setLoading(false);
-      }
-    }
-  };
+  useRealtimeEvent(REALTIME_EVENTS.TRADE, (trade) => {
+    if (!isSameAddress(trade.tokenAddress, tokenAddress)) return;
+    console.log(`[TOKEN PAGE] Live ${trade.type} trade for: ${tokenAddress}`);
+    setToken((prev) => prev && applyMarketUpdate([prev], trade)[0]);
+    refetch().catch(() => {}); // Silent refresh for transactions, holders and balance
+  });
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
@@ -252,7 +167,6 @@ export default function TokenPage({ params }: TokenPageProps) {
   };
 
   const getHolderDisplayName = (address: string) => {
-    const BONDING_CURVE_ADDRESS = "0x34F494c5FC1535Bc20DcECa39b6A590C743fc088";
     if (address.toLowerCase() === BONDING_CURVE_ADDRESS.toLowerCase()) {
       return "Bonding Curve";
     }
@@ -381,6 +295,17 @@ export default function TokenPage({ params }: TokenPageProps) {
     );
   }
 
+  // Fall back to the bonding curve when the API has not priced the token yet
+  const totalUsdtRaisedWei = toWei(token.totalUsdtRaised);
+  const priceWei =
+    token.price && token.price !== "0"
+      ? token.price
+      : getSpotPrice(totalUsdtRaisedWei).toString();
+  const marketCapWei =
+    token.marketCap && token.marketCap !== "0"
+      ? token.marketCap
+      : getMarketCap(totalUsdtRaisedWei).toString();
+
   return (
     <div className="h-full">
       <div className="container mx-auto px-4 py-8 pb-32">
@@ -467,6 +392,15 @@ export default function TokenPage({ params }: TokenPageProps) {
                       <FaDiscord className="w-4 h-4 text-white" />
                     </Button>
                   )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="p-2"
+                    onClick={() => openAlertsPanel(token.tokenAddress)}
+                    title="Set a price alert"
+                  >
+                    <Bell className="w-4 h-4 text-white" />
+                  </Button>
                 </div>
               </div>
             </div>
@@ -510,7 +444,7 @@ export default function TokenPage({ params }: TokenPageProps) {
             <h3 className="text-sm font-medium text-muted-foreground mb-1">
               Price
             </h3>
-            <p className="text-2xl font-bold">{formatPrice(token.price)}</p>
+            <p className="text-2xl font-bold">{formatPrice(priceWei)}</p>
             <p className="text-sm text-muted-foreground">Current price</p>
           </div>
 
@@ -520,7 +454,7 @@ export default function TokenPage({ params }: TokenPageProps) {
               Market Cap
             </h3>
             <p className="text-2xl font-bold">
-              {formatMarketCap(token.marketCap)}
+              {formatMarketCap(marketCapWei)}
             </p>
             <p className="text-sm text-muted-foreground">Total value</p>
           </div>
@@ -541,7 +475,10 @@ export default function TokenPage({ params }: TokenPageProps) {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Chart Section - Takes up 2/3 of the width on large screens */}
           <div className="lg:col-span-2 space-y-6">
-            <TokenChart tokenAddress={tokenAddress} />
+            <TokenChart
+              tokenAddress={tokenAddress}
+              transactions={token?.recentTransactions}
+            />
 
             {/* Recent Transactions Card */}
             <Card className="w-full">
@@ -584,7 +521,7 @@ export default function TokenPage({ params }: TokenPageProps) {
                                       tx.wallet
                                     );
                                     toast.success("Wallet address copied!");
-                                  } catch (error) {
+                                  } catch {
                                     toast.error("Failed to copy address");
                                   }
                                 }}
@@ -648,7 +585,7 @@ export default function TokenPage({ params }: TokenPageProps) {
                     : null
                 }
                 className="w-full"
-                onRefresh={() => fetchTokenData(true)}
+                onRefresh={() => invalidateQueries(queryKeys.token(tokenAddress))}
               />
 
               {/* Token Holders Card */}
@@ -675,7 +612,7 @@ export default function TokenPage({ params }: TokenPageProps) {
                                     holder.address
                                   );
                                   toast.success("Address copied to clipboard!");
-                                } catch (error) {
+                                } catch {
                                   toast.error("Failed to copy address");
                                 }
                               }}
@@ -1,9 +1,7 @@
 "use client";
 
-import { useState, useEffect } from "react";
 import { formatUnits } from "viem";
 import { useRouter } from "next/navigation";
-import { useApi } from "@/hooks/useApi";
 import {
   Card,
   CardHeader,
@@ -28,82 +26,71 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { ArrowUpDown, ExternalLink } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowUpDown, Star } from "lucide-react";
 import { FaGlobe, FaTwitter, FaTelegramPlane, FaDiscord } from "react-icons/fa";
 import { toast } from "sonner";
-import { chatEventEmitter, CHAT_EVENTS } from "@/lib/eventEmitter";
+import { applyMarketUpdate, REALTIME_EVENTS } from "@/lib/realtime";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { invalidateQueries } from "@/lib/queryCache";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import { useTokenList, type ListFilter } from "@/hooks/useTokenList";
+import { useUserStore } from "@/stores/userStore";
+import { WatchlistStar } from "@/components/shared/watchlist-star";
+import { Sparkline } from "@/components/shared/sparkline";
+import { TokenFilterBar } from "@/components/shared/token-filter-bar";
+import { PaginationBar } from "@/components/shared/pagination-bar";
+import type { TokenSort } from "@/lib/api/types";
 
-interface Token {
-  _id: string;
-  eventId: string;
-  tokenAddress: string;
-  creator: string;
-  name: string;
-  symbol: string;
-  decimals: number;
-  description: string;
-  image: string;
-  website: string;
-  twitter: string;
-  telegram: string;
-  discord: string;
-  timestamp: string;
-  blockNumber: string;
-  price?: string; // Token price in USDT (wei)
-  marketCap?: string; // Market cap in USDT (wei)
-  volume24hBuy?: string; // 24h buy volume in USDT (wei)
-  volume24hSell?: string; // 24h sell volume in USDT (wei)
-  volume24hTotal?: string; // 24h total volume in USDT (wei)
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface ApiResponse {
-  success: boolean;
-  data: Token[];
-  count: number;
-  message: string;
-}
-
-type SortOption = "default" | "price" | "marketCap" | "volume";
+const PAGE_SIZE = 25;
 
 export default function TradePage() {
   const router = useRouter();
-  const [tokens, setTokens] = useState<Token[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [sortBy, setSortBy] = useState<SortOption>("marketCap"); // Default to market cap
-  const { get } = useApi();
+  const { isAuthenticated } = useUserStore();
+  const { isWatched } = useWatchlist();
 
-  useEffect(() => {
-    fetchTokens();
-  }, [get]);
+  // One page of tokens, searched, filtered and sorted by the backend
+  const {
+    tokens,
+    total,
+    page,
+    totalPages,
+    setPage,
+    form,
+    updateForm,
+    resetForm,
+    sort,
+    setSort,
+    listFilter,
+    setListFilter,
+    hasFilters,
+    watchlistCount,
+    isWatchlistEmpty,
+    error: tokensError,
+    isLoading: loading,
+    isValidating,
+    updateTokens,
+  } = useTokenList({ pageSize: PAGE_SIZE, defaultSort: "marketCap" });
+  const error =
+    tokensError && !tokens.length
+      ? getApiErrorMessage(tokensError, "Failed to fetch tokens")
+      : null;
 
-  // Listen for chat refresh events
-  useEffect(() => {
-    const handleRefreshTokens = () => {
-      console.log(`[TRADE PAGE] Received refresh tokens event from chat`);
-      fetchTokens(true); // Silent refresh
-    };
+  // Listen for live market updates and new launches from the realtime stream
+  useRealtimeEvent(REALTIME_EVENTS.TOKEN_CREATED, (launch) => {
+    console.log(`[TRADE PAGE] New token launched: ${launch.symbol}`);
+    invalidateQueries(queryKeys.tokens());
+  });
 
-    // Register event listener
-    chatEventEmitter.on(CHAT_EVENTS.REFRESH_TOKENS, handleRefreshTokens);
+  useRealtimeEvent(REALTIME_EVENTS.TRADE, (trade) => {
+    updateTokens((prev) => applyMarketUpdate(prev, trade));
+  });
 
-    // Cleanup event listener on unmount
-    return () => {
-      chatEventEmitter.off(CHAT_EVENTS.REFRESH_TOKENS, handleRefreshTokens);
-    };
-  }, []);
-
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  };
+  useRealtimeEvent(REALTIME_EVENTS.PRICE_TICK, (tick) => {
+    updateTokens((prev) => applyMarketUpdate(prev, tick));
+  });
 
   const formatPrice = (priceWei: string | undefined) => {
     if (!priceWei || priceWei === "0") return "N/A";
@@ -182,75 +169,6 @@ export default function TradePage() {
     }
   };
 
-  const fetchTokens = async (silent: boolean = false) => {
-    try {
-      if (!silent) {
-        setLoading(true);
-      }
-      setError(null);
-      const response = await get<ApiResponse>("/tokens");
-
-      if (response.data.success) {
-        setTokens(response.data.data);
-      } else {
-        setError("Failed to fetch tokens");
-      }
-    } catch (err: any) {
-      console.error("Error fetching tokens:", err);
-      setError(err.response?.data?.error || "Failed to fetch tokens");
-    } finally {
-      if (!silent) {
-        setLoading(false);
-      }
-    }
-  };
-
-  // Sort tokens based on selected option
-  const getSortedTokens = () => {
-    const tokensCopy = [...tokens];
-
-    switch (sortBy) {
-      case "price":
-        return tokensCopy.sort((a, b) => {
-          const priceA = a.price
-            ? parseFloat(formatUnits(BigInt(a.price), 18))
-            : 0;
-          const priceB = b.price
-            ? parseFloat(formatUnits(BigInt(b.price), 18))
-            : 0;
-          return priceB - priceA; // Descending order
-        });
-      case "marketCap":
-        return tokensCopy.sort((a, b) => {
-          const marketCapA = a.marketCap
-            ? parseFloat(formatUnits(BigInt(a.marketCap), 18))
-            : 0;
-          const marketCapB = b.marketCap
-            ? parseFloat(formatUnits(BigInt(b.marketCap), 18))
-            : 0;
-          return marketCapB - marketCapA; // Descending order
-        });
-      case "volume":
-        return tokensCopy.sort((a, b) => {
-          const volumeA = a.volume24hTotal
-            ? parseFloat(formatUnits(BigInt(a.volume24hTotal), 18))
-            : 0;
-          const volumeB = b.volume24hTotal
-            ? parseFloat(formatUnits(BigInt(b.volume24hTotal), 18))
-            : 0;
-          return volumeB - volumeA; // Descending order
-        });
-      case "default":
-      default:
-        return tokensCopy.sort((a, b) => {
-          // Sort by creation date, newest first (default behavior)
-          return (
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-          );
-        });
-    }
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen p-6 pb-16">
@@ -307,21 +225,35 @@ export default function TradePage() {
               <div>
                 <CardTitle className="text-xl">AI Agents</CardTitle>
                 <CardDescription>
-                  {tokens.length} AI agent{tokens.length !== 1 ? "s" : ""}{" "}
-                  available
+                  {total} AI agent{total !== 1 ? "s" : ""}{" "}
+                  {hasFilters || listFilter === "watchlist"
+                    ? "found"
+                    : "available"}
                 </CardDescription>
               </div>
               <div className="flex items-center gap-2">
+                <Tabs
+                  value={listFilter}
+                  onValueChange={(value) => setListFilter(value as ListFilter)}
+                >
+                  <TabsList>
+                    <TabsTrigger value="all">All</TabsTrigger>
+                    <TabsTrigger value="watchlist">
+                      <Star className="h-3.5 w-3.5" />
+                      Watchlist ({watchlistCount})
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
                 <ArrowUpDown className="h-4 w-4 text-foreground" />
                 <Select
-                  value={sortBy}
-                  onValueChange={(value: SortOption) => setSortBy(value)}
+                  value={sort}
+                  onValueChange={(value: TokenSort) => setSort(value)}
                 >
                   <SelectTrigger className="w-[160px]">
                     <SelectValue placeholder="Sort by" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="default">Latest</SelectItem>
+                    <SelectItem value="newest">Latest</SelectItem>
                     <SelectItem value="price">Price</SelectItem>
                     <SelectItem value="marketCap">Market Cap</SelectItem>
                     <SelectItem value="volume">Volume</SelectItem>
@@ -329,13 +261,29 @@ export default function TradePage() {
                 </Select>
               </div>
             </div>
+            <TokenFilterBar
+              form={form}
+              onChange={updateForm}
+              onReset={resetForm}
+              canFilterByWallet={isAuthenticated}
+              className="mt-4"
+            />
           </CardHeader>
           <CardContent className="p-0">
-            {tokens.length === 0 && !loading ? (
+            {isWatchlistEmpty ? (
+              <div className="p-8 text-center">
+                <CardTitle className="mb-2">Your Watchlist is Empty</CardTitle>
+                <CardDescription>
+                  Star an AI agent to follow it here and in the sidebar.
+                </CardDescription>
+              </div>
+            ) : tokens.length === 0 && !loading ? (
               <div className="p-8 text-center">
                 <CardTitle className="mb-2">No Tokens Found</CardTitle>
                 <CardDescription>
-                  No tokens are currently available for trading.
+                  {hasFilters
+                    ? "No AI agents match your search and filters."
+                    : "No tokens are currently available for trading."}
                 </CardDescription>
               </div>
             ) : (
@@ -367,7 +315,7 @@ export default function TradePage() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {getSortedTokens().map((token) => (
+                    {tokens.map((token) => (
                       <TableRow
                         key={token._id}
                         className="border-b border-border/30 hover:bg-muted/30 cursor-pointer"
@@ -377,6 +325,10 @@ export default function TradePage() {
                       >
                         <TableCell className="p-6">
                           <div className="flex items-center gap-4">
+                            <WatchlistStar
+                              tokenAddress={token.tokenAddress}
+                              className="-mr-2"
+                            />
                             {token.image ? (
                               <img
                                 src={token.image}
@@ -408,9 +360,14 @@ export default function TradePage() {
                           </div>
                         </TableCell>
                         <TableCell className="p-6 text-right">
-                          <span className="font-mono text-base text-green-600 font-semibold">
-                            {formatPrice(token.price)}
-                          </span>
+                          <div className="flex items-center justify-end gap-3">
+                            {isWatched(token.tokenAddress) && (
+                              <Sparkline tokenAddress={token.tokenAddress} />
+                            )}
+                            <span className="font-mono text-base text-green-600 font-semibold">
+                              {formatPrice(token.price)}
+                            </span>
+                          </div>
                         </TableCell>
                         <TableCell className="p-6 text-right">
                           <span className="font-mono text-base text-blue-600 font-semibold">
@@ -508,6 +465,17 @@ export default function TradePage() {
                 </Table>
               </div>
             )}
+
+            {/* Pagination */}
+            {total > PAGE_SIZE && (
+              <PaginationBar
+                page={page}
+                totalPages={totalPages}
+                onPageChange={setPage}
+                disabled={isValidating}
+                className="border-t border-border/50 px-6 py-4"
+              />
+            )}
           </CardContent>
         </Card>
       </div>
@@ -5,13 +5,15 @@ import { useSearchParams, usePathname } from "next/navigation";
 import {
   Rocket,
   TrendingUp,
-  BarChart3,
   User,
   LogOut,
   Check,
   Wallet,
   MessageCircle,
   Bot,
+  History,
+  Bell,
+  Star,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -25,21 +27,30 @@ import {
 import {
   Sidebar,
   SidebarContent,
-  SidebarFooter,
   SidebarGroup,
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarHeader,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
 import { toast } from "sonner";
-import { useApi } from "@/hooks/useApi";
+import { useApiClient } from "@/hooks/useApiClient";
 import { useUserStore } from "@/stores/userStore";
 import { useBalances } from "@/hooks/useBalances";
+import { useWalletAuth } from "@/hooks/useWalletAuth";
+import { useAlertStore } from "@/stores/alertStore";
+import { useQuery } from "@/hooks/useQuery";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import { Sparkline } from "@/components/shared/sparkline";
+import { queryKeys } from "@/lib/api/queryKeys";
 import { chatEventEmitter, CHAT_EVENTS } from "@/lib/eventEmitter";
 import { formatUnits } from "viem";
+import { getApiErrorMessage, isCancelledError } from "@/lib/api/errors";
+import { getAuthToken, logout, startSession } from "@/lib/session";
+import { initTabSync } from "@/lib/tabSync";
 
 // Navigation items
 const items = [
@@ -58,6 +69,16 @@ const items = [
     url: "/bots",
     icon: Bot,
   },
+  {
+    title: "Portfolio",
+    url: "/portfolio",
+    icon: Wallet,
+  },
+  {
+    title: "History",
+    url: "/portfolio/history",
+    icon: History,
+  },
   {
     title: "AI Assistant",
     url: "/chat",
@@ -73,7 +94,7 @@ const items = [
 function AppSidebarContent() {
   const searchParams = useSearchParams();
   const pathname = usePathname();
-  const api = useApi();
+  const api = useApiClient();
 
   // Zustand store
   const {
@@ -85,9 +106,26 @@ function AppSidebarContent() {
     setUserData,
     setLoading,
     setVerifying,
-    logout: storeLogout,
   } = useUserStore();
 
+  // Price alerts panel and how many alerts are armed
+  const openAlertsPanel = useAlertStore((state) => state.openPanel);
+  const activeAlertCount = useAlertStore(
+    (state) => state.alerts.filter((alert) => alert.enabled).length
+  );
+
+  // Watched tokens, resolved from the shared token list
+  const { watchlist, isWatched } = useWatchlist();
+  const { data: tokens } = useQuery(queryKeys.tokens(), api.getTokens, {
+    enabled: watchlist.length > 0,
+  });
+  const watchedTokens = (tokens ?? []).filter((token) =>
+    isWatched(token.tokenAddress)
+  );
+
+  // Browser wallet sign-in (SIWE)
+  const { hasWallet, isSigningIn, signInWithWallet } = useWalletAuth();
+
   // Balance management
   const {
     ethBalance,
@@ -110,6 +148,11 @@ function AppSidebarContent() {
   const hasProcessedTokenRef = useRef(false);
   const hasCheckedSavedTokenRef = useRef(false);
 
+  // Keep auth and balances in step with other open tabs
+  useEffect(() => {
+    initTabSync();
+  }, []);
+
   useEffect(() => {
     // Check for magic link token in URL
     const token = searchParams.get("token");
@@ -124,7 +167,7 @@ function AppSidebarContent() {
     // Check if user is already authenticated - only run once on mount
     if (!token && !hasCheckedSavedTokenRef.current) {
       hasCheckedSavedTokenRef.current = true;
-      const savedToken = localStorage.getItem("authToken");
+      const savedToken = getAuthToken();
       if (savedToken) {
         // Get current auth state from store
         const currentAuthState = useUserStore.getState().isAuthenticated;
@@ -163,33 +206,26 @@ function AppSidebarContent() {
     setVerifying(true);
 
     try {
-      const response = await api.post("/auth/verify-token", { token });
-      const data = response.data;
-
-      if (response.status === 200 && data.success) {
-        localStorage.setItem("authToken", data.token);
+      const session = await api.verifyMagicLink(token);
+      startSession(session);
+      toast.success("Authentication successful! Welcome to Sei DeFAI.");
 
-        setUserData(data.email, data.walletAddress);
-        toast.success("Authentication successful! Welcome to Sei DeFAI.");
+      // Refresh balances after successful authentication
+      fetchBalances();
 
-        // Refresh balances after successful authentication
-        fetchBalances();
-
-        // Close the dialog after successful authentication
-        setIsDialogOpen(false);
+      // Close the dialog after successful authentication
+      setIsDialogOpen(false);
 
-        window.history.replaceState({}, document.title, "/");
-      } else {
-        toast.error(data.error || "Authentication failed");
-      }
-    } catch (error: any) {
+      window.history.replaceState({}, document.title, "/");
+    } catch (error) {
       console.error("Error verifying magic link:", error);
-      const errorMessage =
-        error.response?.data?.error ||
-        "Network error occurred during authentication";
+      const errorMessage = getApiErrorMessage(
+        error,
+        "Network error occurred during authentication"
+      );
 
       // Show more specific error messages for wallet funding failures
-      if (error.response?.data?.error?.includes("fund")) {
+      if (errorMessage.includes("fund")) {
         toast.error("Failed to fund your wallet. Please try again later.");
       } else {
         toast.error(errorMessage);
@@ -206,22 +242,15 @@ function AppSidebarContent() {
 
   const verifyCurrentToken = async (token: string) => {
     try {
-      const response = await api.get("/auth/me");
+      const user = await api.getCurrentUser();
+      setUserData(user.email, user.walletAddress);
 
-      if (response.status === 200) {
-        const data = response.data;
-        setUserData(data.email, data.walletAddress);
-
-        // Refresh balances for existing authenticated user
-        fetchBalances();
-      } else {
-        localStorage.removeItem("authToken");
-        storeLogout();
-      }
+      // Refresh balances for existing authenticated user
+      fetchBalances();
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error("Error verifying token:", error);
-      localStorage.removeItem("authToken");
-      storeLogout();
+      logout();
     }
   };
 
@@ -230,29 +259,27 @@ function AppSidebarContent() {
     setLoading(true);
 
     try {
-      const response = await api.post("/auth/send-magic-link", { email });
-      const data = response.data;
-
-      if (response.status === 200) {
-        setEmail("");
-        setIsMagicLinkSent(true);
-        toast.success("Magic link sent! Check your email to sign in.");
-      } else {
-        toast.error(data.error || "Failed to send magic link");
-      }
-    } catch (error: any) {
+      await api.sendMagicLink(email);
+      setEmail("");
+      setIsMagicLinkSent(true);
+      toast.success("Magic link sent! Check your email to sign in.");
+    } catch (error) {
       console.error("Error sending magic link:", error);
-      const errorMessage =
-        error.response?.data?.error || "Network error occurred";
-      toast.error(errorMessage);
+      toast.error(getApiErrorMessage(error, "Network error occurred"));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleConnectWallet = async () => {
+    if (await signInWithWallet()) {
+      fetchBalances();
+      setIsDialogOpen(false);
+    }
+  };
+
   const handleLogout = () => {
-    localStorage.removeItem("authToken");
-    storeLogout();
+    logout();
     toast.info("You have been logged out");
   };
 
@@ -294,6 +321,12 @@ function AppSidebarContent() {
     }
   };
 
+  const formatWatchPrice = (price?: string) => {
+    if (!price || price === "0") return "$0.00";
+    const value = parseFloat(formatUnits(BigInt(price), 18));
+    return value < 0.01 ? `$${value.toFixed(6)}` : `$${value.toFixed(4)}`;
+  };
+
   const visibleTokenBalances = showAllTokens
     ? tokenBalances
     : tokenBalances.slice(0, maxTokensToShow);
@@ -350,10 +383,60 @@ function AppSidebarContent() {
                   </SidebarMenuItem>
                 );
               })}
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  onClick={() => openAlertsPanel()}
+                  className="cursor-pointer hover:bg-zinc-900/50"
+                >
+                  <Bell />
+                  <span>Price Alerts</span>
+                </SidebarMenuButton>
+                {activeAlertCount > 0 && (
+                  <SidebarMenuBadge>{activeAlertCount}</SidebarMenuBadge>
+                )}
+              </SidebarMenuItem>
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
 
+        {watchlist.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>
+              <Star className="mr-2 size-3 fill-yellow-500 text-yellow-500" />
+              Watchlist
+            </SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {watchedTokens.map((token) => (
+                  <SidebarMenuItem key={token.tokenAddress}>
+                    <SidebarMenuButton asChild>
+                      <a
+                        href={`/token/${token.tokenAddress}`}
+                        className={
+                          pathname === `/token/${token.tokenAddress}`
+                            ? "bg-zinc-900/50 dark:bg-zinc-900/50 text-sidebar-accent-foreground font-medium"
+                            : "hover:bg-zinc-900/50"
+                        }
+                        title={token.name}
+                      >
+                        <span className="truncate flex-1">${token.symbol}</span>
+                        <Sparkline
+                          tokenAddress={token.tokenAddress}
+                          width={48}
+                          height={16}
+                        />
+                        <span className="text-xs font-mono">
+                          {formatWatchPrice(token.price)}
+                        </span>
+                      </a>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         <SidebarGroup className="mt-4">
           <SidebarGroupContent>
             <SidebarMenu>
@@ -362,7 +445,9 @@ function AppSidebarContent() {
                   <div className="flex flex-col gap-2">
                     <SidebarMenuButton className="hover:bg-zinc-900/50">
                       <User className="size-4" />
-                      <span className="truncate">{userEmail}</span>
+                      <span className="truncate">
+                        {userEmail || truncateWallet(walletAddress)}
+                      </span>
                     </SidebarMenuButton>
                     {walletAddress && (
                       <SidebarMenuButton
@@ -541,41 +626,64 @@ function AppSidebarContent() {
                             </p>{" "}
                           </div>
                         ) : (
-                          <form
-                            onSubmit={handleSendMagicLink}
-                            className="space-y-4"
-                          >
-                            <div>
-                              <label
-                                htmlFor="email"
-                                className="block text-sm font-medium text-foreground mb-2"
-                              >
-                                Email address
-                              </label>
-                              <Input
-                                type="email"
-                                id="email"
-                                value={email}
-                                onChange={(e) => setEmail(e.target.value)}
-                                required
-                                placeholder="your@email.com"
-                              />
-                            </div>
-                            <Button
-                              type="submit"
-                              disabled={isLoading}
-                              className="w-full"
+                          <div className="space-y-4">
+                            <form
+                              onSubmit={handleSendMagicLink}
+                              className="space-y-4"
                             >
-                              {isLoading ? (
-                                <div className="flex items-center justify-center">
-                                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current mr-2"></div>
-                                  Sending...
+                              <div>
+                                <label
+                                  htmlFor="email"
+                                  className="block text-sm font-medium text-foreground mb-2"
+                                >
+                                  Email address
+                                </label>
+                                <Input
+                                  type="email"
+                                  id="email"
+                                  value={email}
+                                  onChange={(e) => setEmail(e.target.value)}
+                                  required
+                                  placeholder="your@email.com"
+                                />
+                              </div>
+                              <Button
+                                type="submit"
+                                disabled={isLoading}
+                                className="w-full"
+                              >
+                                {isLoading ? (
+                                  <div className="flex items-center justify-center">
+                                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current mr-2"></div>
+                                    Sending...
+                                  </div>
+                                ) : (
+                                  "Send Magic Link"
+                                )}
+                              </Button>
+                            </form>
+                            {hasWallet && (
+                              <>
+                                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                                  <div className="h-px flex-1 bg-border" />
+                                  or
+                                  <div className="h-px flex-1 bg-border" />
                                 </div>
-                              ) : (
-                                "Send Magic Link"
-                              )}
-                            </Button>
-                          </form>
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  onClick={handleConnectWallet}
+                                  disabled={isSigningIn}
+                                  className="w-full"
+                                >
+                                  <Wallet className="size-4" />
+                                  {isSigningIn
+                                    ? "Check your wallet..."
+                                    : "Connect Wallet"}
+                                </Button>
+                              </>
+                            )}
+                          </div>
                         )}
                       </div>
                     </DialogContent>
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect } from "react";
+import { useApiClient } from "@/hooks/useApiClient";
+import { useQuery } from "@/hooks/useQuery";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+import { useTabLeader } from "@/hooks/useTabLeader";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { alertEventEmitter, ALERT_EVENTS } from "@/lib/eventEmitter";
+import { revalidateQuery } from "@/lib/queryCache";
+import { REALTIME_EVENTS } from "@/lib/realtime";
+import {
+  evaluateAlerts,
+  MarketSample,
+  sampleFromTick,
+  sampleFromToken,
+  sampleFromTrade,
+} from "@/lib/alerts";
+import { notify } from "@/lib/notifications";
+import { useAlertStore } from "@/stores/alertStore";
+
+const TOKEN_POLL_INTERVAL = 30000; // Refresh the token list while alerts are armed
+
+// Check a market sample against the stored alerts and deliver any that fire.
+// The other tabs show the same alert as a toast (see lib/tabSync.ts).
+const handleSample = (sample: MarketSample) => {
+  const { alerts, markTriggered } = useAlertStore.getState();
+  for (const trigger of evaluateAlerts(alerts, sample)) {
+    console.log(`[ALERTS] Triggered: ${trigger.title}`);
+    markTriggered(trigger.alert.id, sample.time, trigger.disarm);
+    const notification = {
+      title: trigger.title,
+      body: trigger.message,
+      tag: `alert-${trigger.alert.id}`,
+      url: `/token/${trigger.alert.tokenAddress}`,
+    };
+    notify(notification);
+    alertEventEmitter.emit(ALERT_EVENTS.TRIGGERED, notification);
+  }
+};
+
+// Subscribes to market data only while at least one alert is armed
+function AlertEvaluator() {
+  const api = useApiClient();
+
+  // The full token list. The sidebar's watchlist and a few pages share this
+  // key, but the paginated token lists don't, so it is polled here as well.
+  const { data: tokens } = useQuery(queryKeys.tokens(), api.getTokens);
+
+  useEffect(() => {
+    tokens?.forEach((token) => handleSample(sampleFromToken(token)));
+  }, [tokens]);
+
+  useEffect(() => {
+    const interval = setInterval(
+      () => revalidateQuery(queryKeys.tokens()),
+      TOKEN_POLL_INTERVAL
+    );
+    return () => clearInterval(interval);
+  }, []);
+
+  useRealtimeEvent(REALTIME_EVENTS.TRADE, (trade) => {
+    handleSample(sampleFromTrade(trade));
+  });
+
+  useRealtimeEvent(REALTIME_EVENTS.PRICE_TICK, (tick) => {
+    handleSample(sampleFromTick(tick));
+  });
+
+  return null;
+}
+
+// Alerts are evaluated in one tab only, so each fires once however many tabs
+// are open and one-shot alerts disarm before another tab can fire them again
+export function AlertWatcher() {
+  const isLeader = useTabLeader("alerts");
+  const hasArmedAlerts = useAlertStore((state) =>
+    state.alerts.some((alert) => alert.enabled)
+  );
+  return isLeader && hasArmedAlerts ? <AlertEvaluator /> : null;
+}
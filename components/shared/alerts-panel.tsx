@@ -0,0 +1,406 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatUnits } from "viem";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Bell, BellOff, BellRing, Pause, Play, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useApiClient } from "@/hooks/useApiClient";
+import { useQuery } from "@/hooks/useQuery";
+import { queryKeys } from "@/lib/api/queryKeys";
+import {
+  ALERT_TYPES,
+  AlertCondition,
+  AlertType,
+  describeCondition,
+  isPastThreshold,
+  PriceAlert,
+  sampleFromToken,
+} from "@/lib/alerts";
+import {
+  getNotificationPermission,
+  requestNotificationPermission,
+} from "@/lib/notifications";
+import { getCurvePrice } from "@/lib/portfolio";
+import { isSameAddress } from "@/lib/utils";
+import { useAlertStore } from "@/stores/alertStore";
+import type { Token } from "@/lib/api/types";
+
+interface AlertForm {
+  tokenAddress: string;
+  type: AlertType;
+  value: string;
+  windowMinutes: string;
+}
+
+const NO_TOKENS: Token[] = [];
+const DEFAULT_WINDOW_MINUTES = "60";
+
+// Label for the form's main value input, per condition type
+const VALUE_LABELS: Record<AlertType, string> = {
+  price_above: "Price (USDT)",
+  price_below: "Price (USDT)",
+  percent_move: "Move (%)",
+  market_cap_above: "Market cap (USDT)",
+  market_cap_below: "Market cap (USDT)",
+  large_trade: "Trade size (USDT)",
+};
+
+const toCondition = (form: AlertForm): AlertCondition | null => {
+  const value = parseFloat(form.value);
+  if (!isFinite(value) || value <= 0) return null;
+
+  switch (form.type) {
+    case "price_above":
+    case "price_below":
+      return { type: form.type, price: value };
+    case "market_cap_above":
+    case "market_cap_below":
+      return { type: form.type, marketCap: value };
+    case "large_trade":
+      return { type: form.type, usdtAmount: value };
+    case "percent_move": {
+      const windowMinutes = parseInt(form.windowMinutes);
+      if (!windowMinutes || windowMinutes <= 0 || windowMinutes > 1440) {
+        return null;
+      }
+      return { type: form.type, percent: value, windowMinutes };
+    }
+  }
+};
+
+// Side panel for creating and managing price alerts
+export function AlertsPanel() {
+  const api = useApiClient();
+  const {
+    alerts,
+    isPanelOpen,
+    panelTokenAddress,
+    addAlert,
+    removeAlert,
+    setAlertEnabled,
+    clearTriggered,
+    setPanelOpen,
+  } = useAlertStore();
+  const [form, setForm] = useState<AlertForm>({
+    tokenAddress: "",
+    type: "price_above",
+    value: "",
+    windowMinutes: DEFAULT_WINDOW_MINUTES,
+  });
+  const [permission, setPermission] = useState<NotificationPermission | null>(
+    null
+  );
+
+  const { data: tokens = NO_TOKENS } = useQuery(
+    queryKeys.tokens(),
+    api.getTokens,
+    { enabled: isPanelOpen }
+  );
+  const selectedToken = tokens.find((token) =>
+    isSameAddress(token.tokenAddress, form.tokenAddress)
+  );
+
+  // Preselect the token the panel was opened for
+  useEffect(() => {
+    if (!isPanelOpen) return;
+    setPermission(getNotificationPermission());
+    if (panelTokenAddress) {
+      setForm((prev) => ({ ...prev, tokenAddress: panelTokenAddress }));
+    }
+  }, [isPanelOpen, panelTokenAddress]);
+
+  const handleEnableNotifications = async () => {
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result === "granted") {
+      toast.success("Browser notifications enabled");
+    } else if (result === "denied") {
+      toast.error("Notifications are blocked in your browser settings");
+    }
+  };
+
+  const handleAddAlert = () => {
+    if (!selectedToken) {
+      toast.error("Select a token for the alert");
+      return;
+    }
+    const condition = toCondition(form);
+    if (!condition) {
+      toast.error(
+        form.type === "percent_move"
+          ? "Enter a positive % and a window of 1 to 1440 minutes"
+          : "Enter a positive value"
+      );
+      return;
+    }
+
+    addAlert({
+      tokenAddress: selectedToken.tokenAddress,
+      tokenName: selectedToken.name,
+      tokenSymbol: selectedToken.symbol,
+      condition,
+    });
+    setForm((prev) => ({ ...prev, value: "" }));
+    toast.success(
+      `Alert set: $${selectedToken.symbol} ${describeCondition(condition)}`
+    );
+    if (isPastThreshold(condition, sampleFromToken(selectedToken))) {
+      toast.info(
+        "The condition is already met, so the alert fires when it is next crossed"
+      );
+    }
+  };
+
+  // Hint for the value input from the token's current market
+  const getValuePlaceholder = () => {
+    if (!selectedToken) return "";
+    switch (form.type) {
+      case "price_above":
+      case "price_below":
+        return `Now ${getCurvePrice(selectedToken).toFixed(6)}`;
+      case "market_cap_above":
+      case "market_cap_below": {
+        const marketCap = selectedToken.marketCap
+          ? parseFloat(formatUnits(BigInt(selectedToken.marketCap), 18))
+          : 0;
+        return `Now ${marketCap.toFixed(2)}`;
+      }
+      case "percent_move":
+        return "e.g. 10";
+      case "large_trade":
+        return "e.g. 500";
+    }
+  };
+
+  const getStatus = (alert: PriceAlert) => {
+    if (alert.enabled) return { label: "Active", variant: "default" as const };
+    if (alert.triggerCount > 0) {
+      return { label: "Triggered", variant: "secondary" as const };
+    }
+    return { label: "Paused", variant: "outline" as const };
+  };
+
+  const formatTime = (time: number) => {
+    return new Date(time).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const hasTriggered = alerts.some(
+    (alert) => !alert.enabled && alert.triggerCount > 0
+  );
+
+  return (
+    <Sheet open={isPanelOpen} onOpenChange={setPanelOpen}>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Price Alerts
+          </SheetTitle>
+          <SheetDescription>
+            Alerts are checked against live market data while the app is open
+            and saved in this browser.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="space-y-6 px-4 pb-6">
+            {/* Browser notifications */}
+            {permission !== null && permission !== "granted" && (
+              <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <BellOff className="h-4 w-4 text-muted-foreground" />
+                  {permission === "denied"
+                    ? "Browser notifications are blocked"
+                    : "Get notified when this tab is in the background"}
+                </div>
+                {permission === "default" && (
+                  <Button size="sm" onClick={handleEnableNotifications}>
+                    Enable
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* Create alert */}
+            <div className="space-y-3 rounded-lg border p-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Token</label>
+                <Select
+                  value={form.tokenAddress}
+                  onValueChange={(tokenAddress) =>
+                    setForm((prev) => ({ ...prev, tokenAddress }))
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select a token" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tokens.map((token) => (
+                      <SelectItem key={token._id} value={token.tokenAddress}>
+                        {token.name} (${token.symbol})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Condition</label>
+                <Select
+                  value={form.type}
+                  onValueChange={(type: AlertType) =>
+                    setForm((prev) => ({ ...prev, type, value: "" }))
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALERT_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-3">
+                <div className="flex-1 space-y-2">
+                  <label className="text-sm font-medium">
+                    {VALUE_LABELS[form.type]}
+                  </label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.value}
+                    placeholder={getValuePlaceholder()}
+                    onChange={(e) =>
+                      setForm((prev) => ({ ...prev, value: e.target.value }))
+                    }
+                  />
+                </div>
+                {form.type === "percent_move" && (
+                  <div className="w-32 space-y-2">
+                    <label className="text-sm font-medium">Window (min)</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="1440"
+                      value={form.windowMinutes}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          windowMinutes: e.target.value,
+                        }))
+                      }
+                    />
+                  </div>
+                )}
+              </div>
+              <Button onClick={handleAddAlert} className="w-full">
+                <BellRing className="h-4 w-4 mr-2" />
+                Add Alert
+              </Button>
+            </div>
+
+            {/* Alert list */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold">
+                  Your Alerts ({alerts.length})
+                </h3>
+                {hasTriggered && (
+                  <Button variant="ghost" size="sm" onClick={clearTriggered}>
+                    Clear triggered
+                  </Button>
+                )}
+              </div>
+
+              {alerts.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  No alerts yet. Create one above.
+                </p>
+              ) : (
+                alerts.map((alert) => {
+                  const status = getStatus(alert);
+                  return (
+                    <div
+                      key={alert.id}
+                      className="flex items-start justify-between gap-3 rounded-lg border p-3"
+                    >
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold truncate">
+                            ${alert.tokenSymbol}
+                          </span>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                        </div>
+                        <div className="text-sm">
+                          {describeCondition(alert.condition)}
+                        </div>
+                        {alert.lastTriggeredAt && (
+                          <div className="text-xs text-muted-foreground">
+                            Last triggered {formatTime(alert.lastTriggeredAt)}
+                            {alert.triggerCount > 1 &&
+                              ` · ${alert.triggerCount} times`}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            setAlertEnabled(alert.id, !alert.enabled)
+                          }
+                          title={alert.enabled ? "Pause" : "Re-arm"}
+                        >
+                          {alert.enabled ? (
+                            <Pause className="h-4 w-4" />
+                          ) : (
+                            <Play className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeAlert(alert.id)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useState } from "react";
+
+export interface AllocationSlice {
+  id: string;
+  label: string;
+  value: number; // USDT
+}
+
+interface AllocationChartProps {
+  slices: AllocationSlice[];
+  formatValue: (value: number) => string;
+}
+
+const COLORS = [
+  "#10b981",
+  "#3b82f6",
+  "#8b5cf6",
+  "#f59e0b",
+  "#ef4444",
+  "#06b6d4",
+  "#ec4899",
+  "#84cc16",
+];
+const OTHER_COLOR = "#64748b";
+const MAX_SLICES = 7; // Smaller holdings are grouped into "Other"
+
+const RADIUS = 70;
+const STROKE_WIDTH = 28;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Donut chart of portfolio allocation with a legend of value and share
+export function AllocationChart({
+  slices,
+  formatValue,
+}: AllocationChartProps) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const sorted = slices
+    .filter((slice) => slice.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const visible = sorted.slice(0, MAX_SLICES);
+  const otherValue = sorted
+    .slice(MAX_SLICES)
+    .reduce((sum, slice) => sum + slice.value, 0);
+  if (otherValue > 0) {
+    visible.push({ id: "other", label: "Other", value: otherValue });
+  }
+
+  const total = visible.reduce((sum, slice) => sum + slice.value, 0);
+  const active = visible.find((slice) => slice.id === activeId);
+
+  if (total <= 0) {
+    return (
+      <div className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+        Nothing to allocate yet
+      </div>
+    );
+  }
+
+  let offset = 0;
+  const arcs = visible.map((slice, index) => {
+    const length = (slice.value / total) * CIRCUMFERENCE;
+    const arc = {
+      ...slice,
+      color: slice.id === "other" ? OTHER_COLOR : COLORS[index % COLORS.length],
+      length,
+      offset,
+    };
+    offset += length;
+    return arc;
+  });
+
+  return (
+    <div className="flex flex-col items-center gap-6 sm:flex-row">
+      <svg
+        viewBox="0 0 200 200"
+        className="h-48 w-48 shrink-0 -rotate-90"
+        role="img"
+        aria-label="Portfolio allocation"
+      >
+        {arcs.map((arc) => (
+          <circle
+            key={arc.id}
+            cx="100"
+            cy="100"
+            r={RADIUS}
+            fill="none"
+            stroke={arc.color}
+            strokeWidth={arc.id === activeId ? STROKE_WIDTH + 6 : STROKE_WIDTH}
+            strokeDasharray={`${arc.length} ${CIRCUMFERENCE - arc.length}`}
+            strokeDashoffset={-arc.offset}
+            className="cursor-pointer transition-all"
+            onMouseEnter={() => setActiveId(arc.id)}
+            onMouseLeave={() => setActiveId(null)}
+          />
+        ))}
+        <text
+          x="100"
+          y="100"
+          textAnchor="middle"
+          dominantBaseline="middle"
+          transform="rotate(90 100 100)"
+          className="fill-foreground text-sm font-semibold"
+        >
+          {active
+            ? `${((active.value / total) * 100).toFixed(1)}%`
+            : formatValue(total)}
+        </text>
+      </svg>
+
+      <div className="w-full space-y-2">
+        {arcs.map((arc) => (
+          <div
+            key={arc.id}
+            className={`flex items-center justify-between gap-4 rounded px-2 py-1 text-sm transition-colors ${
+              arc.id === activeId ? "bg-muted/50" : ""
+            }`}
+            onMouseEnter={() => setActiveId(arc.id)}
+            onMouseLeave={() => setActiveId(null)}
+          >
+            <div className="flex min-w-0 items-center gap-2">
+              <span
+                className="h-3 w-3 shrink-0 rounded-full"
+                style={{ backgroundColor: arc.color }}
+              />
+              <span className="truncate">{arc.label}</span>
+            </div>
+            <div className="flex items-center gap-3 font-mono">
+              <span>{formatValue(arc.value)}</span>
+              <span className="w-14 text-right text-muted-foreground">
+                {((arc.value / total) * 100).toFixed(1)}%
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
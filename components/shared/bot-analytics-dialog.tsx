@@ -0,0 +1,389 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import {
+  createChart,
+  BaselineSeries,
+  ColorType,
+  IChartApi,
+  ISeriesApi,
+  UTCTimestamp,
+} from "lightweight-charts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useApiClient } from "@/hooks/useApiClient";
+import { useQuery } from "@/hooks/useQuery";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { buildBotAnalytics, type PnlPoint } from "@/lib/botAnalytics";
+import type { Bot } from "@/lib/api/types";
+
+interface BotAnalyticsDialogProps {
+  bot: Bot | null;
+  tokenSymbol?: string;
+  price?: number; // Current token price (USDT), once loaded
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const BUY_COLOR = "#10b981";
+const SELL_COLOR = "#ef4444";
+
+const formatUsd = (amount: number) =>
+  `${amount < 0 ? "-" : ""}$${Math.abs(amount).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatDuration = (hours: number) => {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+};
+
+function Stat({
+  label,
+  value,
+  detail,
+  className,
+}: {
+  label: string;
+  value: string;
+  detail?: string;
+  className?: string;
+}) {
+  return (
+    <div className="rounded-lg border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={`text-lg font-semibold ${className ?? ""}`}>{value}</p>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+    </div>
+  );
+}
+
+// Cumulative PnL, green above zero and red below
+function PnlChart({ points }: { points: PnlPoint[] }) {
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const seriesRef = useRef<ISeriesApi<"Baseline"> | null>(null);
+
+  // Create chart (only once)
+  useEffect(() => {
+    if (!chartContainerRef.current || chartRef.current) return;
+
+    const chart = createChart(chartContainerRef.current, {
+      layout: {
+        textColor: "rgba(255, 255, 255, 0.9)",
+        background: { type: ColorType.Solid, color: "rgba(0, 0, 0, 0)" },
+        fontSize: 12,
+        fontFamily: "Inter, sans-serif",
+      },
+      width: chartContainerRef.current.clientWidth,
+      height: 240,
+      localization: {
+        priceFormatter: (price: number) => price.toFixed(2),
+      },
+      timeScale: {
+        timeVisible: true,
+        secondsVisible: false,
+      },
+      grid: {
+        horzLines: { color: "rgba(197, 203, 206, 0.1)" },
+        vertLines: { color: "rgba(197, 203, 206, 0.1)" },
+      },
+    });
+
+    seriesRef.current = chart.addSeries(BaselineSeries, {
+      baseValue: { type: "price", price: 0 },
+      topLineColor: BUY_COLOR,
+      topFillColor1: "rgba(16, 185, 129, 0.4)",
+      topFillColor2: "rgba(16, 185, 129, 0.05)",
+      bottomLineColor: SELL_COLOR,
+      bottomFillColor1: "rgba(239, 68, 68, 0.05)",
+      bottomFillColor2: "rgba(239, 68, 68, 0.4)",
+      lineWidth: 2,
+    });
+    chartRef.current = chart;
+
+    const handleResize = () => {
+      if (chartContainerRef.current && chartRef.current) {
+        chartRef.current.applyOptions({
+          width: chartContainerRef.current.clientWidth,
+        });
+      }
+    };
+    window.addEventListener("resize", handleResize);
+
+    return () => {
+      window.removeEventListener("resize", handleResize);
+      chart.remove();
+      chartRef.current = null;
+      seriesRef.current = null;
+    };
+  }, []);
+
+  // Update series data without recreating the chart
+  useEffect(() => {
+    seriesRef.current?.setData(
+      points.map((point) => ({
+        time: point.time as UTCTimestamp,
+        value: point.pnl,
+      }))
+    );
+    if (points.length) chartRef.current?.timeScale().fitContent();
+  }, [points]);
+
+  return <div ref={chartContainerRef} className="w-full h-[240px]" />;
+}
+
+// Performance of one bot from its full log history: PnL, growth against its
+// target, trade sizes, reliability and how long its USDT will last
+export function BotAnalyticsDialog({
+  bot,
+  tokenSymbol,
+  price,
+  open,
+  onOpenChange,
+}: BotAnalyticsDialogProps) {
+  const api = useApiClient();
+  const tokenAddress = bot?.tokenAddress ?? "";
+
+  // No limit: every log the bot has written
+  const {
+    data: logs,
+    error: logsError,
+    isLoading,
+  } = useQuery(
+    queryKeys.botLogs(tokenAddress),
+    () => api.getBotLogs(tokenAddress),
+    { enabled: open && !!bot }
+  );
+
+  const analytics = useMemo(
+    () =>
+      bot && logs
+        ? buildBotAnalytics(bot, logs, { currentPrice: price })
+        : undefined,
+    [bot, logs, price]
+  );
+
+  const maxBucket = Math.max(
+    1,
+    ...(analytics?.tradeSizes.map((bucket) => bucket.buys + bucket.sells) ??
+      [])
+  );
+
+  const renderContent = () => {
+    if (isLoading && !analytics) {
+      return (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-20" />
+            ))}
+          </div>
+          <Skeleton className="h-[240px]" />
+        </div>
+      );
+    }
+
+    if (!analytics) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          {getApiErrorMessage(logsError, "Failed to load agent logs")}
+        </p>
+      );
+    }
+
+    const { growth } = analytics;
+    const trades = analytics.buys + analytics.sells;
+
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Stat
+            label="Profit / Loss"
+            value={formatUsd(analytics.pnl)}
+            detail={`${trades} trades (${analytics.buys} buys, ${
+              analytics.sells
+            } sells)`}
+            className={
+              analytics.pnl >= 0 ? "text-green-600" : "text-red-600"
+            }
+          />
+          <Stat
+            label="Success Rate"
+            value={
+              analytics.successRate === undefined
+                ? "N/A"
+                : `${analytics.successRate.toFixed(1)}%`
+            }
+            detail={`${analytics.failures} failed`}
+          />
+          <Stat
+            label="USDT Burn Rate"
+            value={`${formatUsd(analytics.burnRatePerHour)}/h`}
+            detail={`Over the last ${formatDuration(
+              analytics.burnWindowHours
+            )}`}
+          />
+          <Stat
+            label="Budget Runway"
+            value={
+              analytics.hoursUntilExhausted === undefined
+                ? "Not burning"
+                : formatDuration(analytics.hoursUntilExhausted)
+            }
+            detail={
+              analytics.hoursUntilExhausted === undefined
+                ? "Sells cover its buys"
+                : `Empty around ${new Date(
+                    Date.now() + analytics.hoursUntilExhausted * 3600 * 1000
+                  ).toLocaleString("en-US", {
+                    month: "short",
+                    day: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}`
+            }
+          />
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">PnL Over Time</h4>
+          {analytics.pnlHistory.length > 1 ? (
+            <PnlChart points={analytics.pnlHistory} />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Not enough trades to chart yet
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Estimated from logged trade prices, with held tokens valued at the
+            current price
+          </p>
+        </div>
+
+        {growth && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Growth vs Target</h4>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">
+                ${growth.startPrice.toFixed(6)} → $
+                {growth.currentPrice.toFixed(6)} over{" "}
+                {formatDuration(growth.hours)}
+              </span>
+              <span
+                className={`font-medium ${
+                  growth.achievedPerHour >= growth.targetPerHour
+                    ? "text-green-600"
+                    : "text-yellow-500"
+                }`}
+              >
+                {growth.achievedPerHour.toFixed(2)}% /{" "}
+                {growth.targetPerHour}% per hour
+              </span>
+            </div>
+            <Progress
+              value={Math.min(
+                100,
+                Math.max(
+                  0,
+                  (growth.achievedPerHour / growth.targetPerHour) * 100
+                )
+              )}
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Trade Sizes</h4>
+            {analytics.tradeSizes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No trades yet</p>
+            ) : (
+              <div className="space-y-1">
+                {analytics.tradeSizes.map((bucket) => (
+                  <div
+                    key={bucket.label}
+                    className="grid grid-cols-[5rem_1fr_2rem] items-center gap-2 text-xs"
+                  >
+                    <span className="text-muted-foreground">
+                      {bucket.label}
+                    </span>
+                    <div className="flex h-3 overflow-hidden rounded bg-muted">
+                      <div
+                        style={{
+                          width: `${(bucket.buys / maxBucket) * 100}%`,
+                          backgroundColor: BUY_COLOR,
+                        }}
+                      />
+                      <div
+                        style={{
+                          width: `${(bucket.sells / maxBucket) * 100}%`,
+                          backgroundColor: SELL_COLOR,
+                        }}
+                      />
+                    </div>
+                    <span className="text-right font-mono">
+                      {bucket.buys + bucket.sells}
+                    </span>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground pt-1">
+                  Average trade {formatUsd(analytics.averageTradeSize)} •{" "}
+                  <span style={{ color: BUY_COLOR }}>buys</span> /{" "}
+                  <span style={{ color: SELL_COLOR }}>sells</span>
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Top Errors</h4>
+            {analytics.errors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No errors logged</p>
+            ) : (
+              <div className="space-y-1">
+                {analytics.errors.map((error) => (
+                  <div
+                    key={error.message}
+                    className="flex justify-between gap-4 text-xs"
+                  >
+                    <span className="text-red-600 break-words">
+                      {error.message}
+                    </span>
+                    <span className="font-mono">{error.count}×</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Agent Analytics{tokenSymbol ? ` for $${tokenSymbol}` : ""}
+          </DialogTitle>
+          <DialogDescription>
+            Performance across the agent&apos;s full trading history
+          </DialogDescription>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
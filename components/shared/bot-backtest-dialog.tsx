@@ -0,0 +1,481 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { FlaskConical, Loader2, TrendingDown, TrendingUp } from "lucide-react";
+import { useApiClient } from "@/hooks/useApiClient";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { fetchQuery } from "@/lib/queryCache";
+import { runBacktest, type BacktestResult } from "@/lib/backtest";
+import {
+  BOT_STRATEGIES,
+  createStrategyDraft,
+  parseStrategyDraft,
+  type StrategyDraft,
+} from "@/lib/bots";
+import {
+  aggregateCandles,
+  CHART_INTERVALS,
+  CHART_RANGES,
+  getIntervalSeconds,
+  type ChartInterval,
+} from "@/lib/candles";
+import { TokenChart } from "./token-chart";
+import { BotStrategyFields } from "./bot-strategy-fields";
+import type { BotStrategyType, Token } from "@/lib/api/types";
+
+// What a backtest simulates; the same shape as the create agent form
+export interface BacktestSetup {
+  tokenAddress: string;
+  budget: string; // USDT
+  strategy: StrategyDraft;
+}
+
+interface BacktestForm extends BacktestSetup {
+  feePerTrade: string; // USDT
+  from: string; // yyyy-mm-dd
+  to: string; // yyyy-mm-dd
+  interval: ChartInterval;
+}
+
+interface BacktestRun {
+  tokenAddress: string;
+  interval: ChartInterval;
+  days: number;
+  result: BacktestResult;
+}
+
+interface BotBacktestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tokens: Token[];
+  initial?: BacktestSetup;
+  onUseSettings?: (setup: BacktestSetup) => void;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+const DEFAULT_DAYS = 7;
+const DEFAULT_FEE = "0.01";
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const toForm = (initial?: BacktestSetup): BacktestForm => ({
+  tokenAddress: initial?.tokenAddress ?? "",
+  budget: initial?.budget ?? "100",
+  strategy: initial?.strategy ?? createStrategyDraft("target_growth"),
+  feePerTrade: DEFAULT_FEE,
+  from: toDateInput(new Date(Date.now() - DEFAULT_DAYS * DAY_SECONDS * 1000)),
+  to: toDateInput(new Date()),
+  interval: "15m",
+});
+
+const formatUsd = (amount: number) =>
+  `${amount < 0 ? "-" : ""}$${Math.abs(amount).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatTokens = (amount: number) =>
+  amount.toLocaleString("en-US", { maximumFractionDigits: 4 });
+
+const formatTime = (time: number) =>
+  new Date(time * 1000).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+function Stat({
+  label,
+  value,
+  className,
+}: {
+  label: string;
+  value: string;
+  className?: string;
+}) {
+  return (
+    <div className="rounded-lg border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={`text-lg font-semibold ${className ?? ""}`}>{value}</p>
+    </div>
+  );
+}
+
+// Simulate a bot strategy over a token's chart history before funding it
+export function BotBacktestDialog({
+  open,
+  onOpenChange,
+  tokens,
+  initial,
+  onUseSettings,
+}: BotBacktestDialogProps) {
+  const api = useApiClient();
+  const [form, setForm] = useState<BacktestForm>(() => toForm(initial));
+  const [run, setRun] = useState<BacktestRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Start from the create form's settings each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setForm(toForm(initial));
+    setRun(null);
+    setError(null);
+  }, [open, initial]);
+
+  const updateForm = (changes: Partial<BacktestForm>) =>
+    setForm((prev) => ({ ...prev, ...changes }));
+
+  const handleRun = async () => {
+    const budget = parseFloat(form.budget);
+    const feePerTrade = parseFloat(form.feePerTrade || "0");
+    const fromTime = Date.parse(form.from) / 1000;
+    const toTime = Date.parse(form.to) / 1000 + DAY_SECONDS;
+
+    if (!form.tokenAddress) {
+      setError("Please select a token");
+      return;
+    }
+    if (!(budget >= 10 && budget <= 10000)) {
+      setError("Budget must be between 10 and 10,000 USDT");
+      return;
+    }
+    if (!(feePerTrade >= 0)) {
+      setError("Fee per trade can't be negative");
+      return;
+    }
+    if (isNaN(fromTime) || isNaN(toTime) || fromTime >= toTime) {
+      setError("Choose a start date on or before the end date");
+      return;
+    }
+    const parsed = parseStrategyDraft(form.strategy, budget);
+    if ("error" in parsed) {
+      setError(parsed.error);
+      return;
+    }
+
+    // The chart API counts back from now, so ask for enough days to reach
+    // the start date and trim the candles to the range
+    const days = Math.max(
+      1,
+      Math.ceil((Date.now() / 1000 - fromTime) / DAY_SECONDS)
+    );
+    const { tokenAddress, interval } = form;
+
+    try {
+      setIsRunning(true);
+      setError(null);
+      const chart = await fetchQuery(
+        queryKeys.tokenChart(tokenAddress, days, interval),
+        () => api.getTokenChart(tokenAddress, { days, interval })
+      );
+      const candles = aggregateCandles(
+        chart.candlestickData,
+        getIntervalSeconds(interval)
+      ).filter((candle) => candle.time >= fromTime && candle.time < toTime);
+
+      if (!candles.length) {
+        setRun(null);
+        setError("This token has no trading history in the selected range");
+        return;
+      }
+
+      setRun({
+        tokenAddress,
+        interval,
+        days,
+        result: runBacktest(candles, parsed.strategy, { budget, feePerTrade }),
+      });
+    } catch (error) {
+      console.error("Error running backtest:", error);
+      setError(getApiErrorMessage(error, "Failed to load chart history"));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const result = run?.result;
+  const buys = result?.trades.filter((trade) => trade.side === "buy").length;
+  const firstPoint = result?.pricePath[0];
+  const lastPoint = result?.pricePath[result.pricePath.length - 1];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Backtest Strategy</DialogTitle>
+          <DialogDescription>
+            Replay a token&apos;s price history through the bonding curve to
+            see how a strategy would have traded
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {error && (
+            <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2 col-span-2">
+              <label className="text-sm font-medium">Token</label>
+              <Select
+                value={form.tokenAddress}
+                onValueChange={(tokenAddress) => updateForm({ tokenAddress })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Choose a token" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tokens.map((token) => (
+                    <SelectItem
+                      key={token.tokenAddress}
+                      value={token.tokenAddress}
+                    >
+                      <span>{token.name}</span>
+                      <span className="text-muted-foreground">
+                        ({token.symbol})
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Strategy</label>
+              <Select
+                value={form.strategy.type}
+                onValueChange={(value: BotStrategyType) =>
+                  updateForm({ strategy: createStrategyDraft(value) })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOT_STRATEGIES.map((strategy) => (
+                    <SelectItem key={strategy.value} value={strategy.value}>
+                      {strategy.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Budget (USDT)</label>
+              <Input
+                type="number"
+                min="10"
+                max="10000"
+                value={form.budget}
+                onChange={(e) => updateForm({ budget: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">From</label>
+              <Input
+                type="date"
+                value={form.from}
+                max={form.to}
+                onChange={(e) => updateForm({ from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">To</label>
+              <Input
+                type="date"
+                value={form.to}
+                min={form.from}
+                onChange={(e) => updateForm({ to: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Candles</label>
+              <Select
+                value={form.interval}
+                onValueChange={(interval: ChartInterval) =>
+                  updateForm({ interval })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHART_INTERVALS.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Fee per Trade (USDT)</label>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={form.feePerTrade}
+                onChange={(e) => updateForm({ feePerTrade: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {
+              BOT_STRATEGIES.find(
+                (strategy) => strategy.value === form.strategy.type
+              )?.description
+            }
+            . The simulated bot trades once per candle, at its close.
+          </p>
+
+          <BotStrategyFields
+            draft={form.strategy}
+            onChange={(strategy) => updateForm({ strategy })}
+          />
+
+          <Button onClick={handleRun} disabled={isRunning} className="gap-2">
+            {isRunning ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <FlaskConical className="h-4 w-4" />
+            )}
+            {isRunning ? "Running..." : "Run Backtest"}
+          </Button>
+
+          {run && result && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat
+                  label="Profit / Loss"
+                  value={`${formatUsd(result.pnl)} (${result.pnlPercent.toFixed(
+                    2
+                  )}%)`}
+                  className={
+                    result.pnl >= 0 ? "text-green-600" : "text-red-600"
+                  }
+                />
+                <Stat label="Ending Value" value={formatUsd(result.endValue)} />
+                <Stat
+                  label="Max Drawdown"
+                  value={`${result.maxDrawdownPercent.toFixed(2)}%`}
+                />
+                <Stat
+                  label="Trades"
+                  value={`${result.trades.length} (${buys} buys)`}
+                />
+                <Stat label="Ending USDT" value={formatUsd(result.endUsdt)} />
+                <Stat
+                  label="Ending Tokens"
+                  value={formatTokens(result.endTokens)}
+                />
+                <Stat label="Fees" value={formatUsd(result.totalFees)} />
+                {firstPoint && lastPoint && (
+                  <Stat
+                    label="Price: Market → Simulated"
+                    value={`${(
+                      (lastPoint.marketPrice / firstPoint.marketPrice - 1) *
+                      100
+                    ).toFixed(1)}% → ${(
+                      (lastPoint.price / firstPoint.price - 1) *
+                      100
+                    ).toFixed(1)}%`}
+                  />
+                )}
+              </div>
+
+              <TokenChart
+                key={`${run.tokenAddress}-${run.interval}-${run.days}`}
+                tokenAddress={run.tokenAddress}
+                backtest={result}
+                defaultInterval={run.interval}
+                defaultRange={
+                  CHART_RANGES.find((range) => range.days >= run.days)
+                    ?.value ?? "All"
+                }
+              />
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Simulated Trades</h4>
+                {result.trades.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    The strategy made no trades in this range
+                  </p>
+                ) : (
+                  <ScrollArea className="h-48 rounded-lg border">
+                    <div className="divide-y text-sm">
+                      {result.trades.map((trade, index) => (
+                        <div
+                          key={index}
+                          className="flex items-center justify-between gap-4 px-3 py-2"
+                        >
+                          <span className="flex items-center gap-2">
+                            {trade.side === "buy" ? (
+                              <TrendingUp className="h-3 w-3 text-green-500" />
+                            ) : (
+                              <TrendingDown className="h-3 w-3 text-red-500" />
+                            )}
+                            <span className="capitalize">{trade.side}</span>
+                            <span className="text-muted-foreground">
+                              {formatTime(trade.time)}
+                            </span>
+                          </span>
+                          <span className="font-mono">
+                            {formatUsd(trade.usdtAmount)} ·{" "}
+                            {formatTokens(trade.tokenAmount)} tokens @ $
+                            {trade.price.toFixed(6)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {onUseSettings && (
+            <Button
+              onClick={() =>
+                onUseSettings({
+                  tokenAddress: form.tokenAddress,
+                  budget: form.budget,
+                  strategy: form.strategy,
+                })
+              }
+            >
+              Create Agent with These Settings
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
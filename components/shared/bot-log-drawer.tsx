@@ -0,0 +1,382 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { formatUnits } from "viem";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChevronDown,
+  ChevronRight,
+  Download,
+  ExternalLink,
+  Loader2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { useApiClient } from "@/hooks/useApiClient";
+import { useBotLogHistory } from "@/hooks/useBotLogHistory";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { getTransactionUrl } from "@/lib/contracts";
+import { downloadCsv, downloadFile, toCsv, type CsvColumn } from "@/lib/csv";
+import {
+  BOT_LOG_ACTIONS,
+  fetchAllBotLogs,
+  getBotLogRowKeys,
+} from "@/lib/bots";
+import type { BotAction, BotLog, BotLogFilters } from "@/lib/api/types";
+
+type SuccessFilter = "all" | "success" | "failed";
+type ExportFormat = "csv" | "json";
+
+interface BotLogDrawerProps {
+  tokenAddress: string | null;
+  tokenSymbol?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ALL = "all";
+
+const fromWei = (value: string | undefined) =>
+  value && value !== "0" ? formatUnits(BigInt(value), 18) : "";
+
+const formatUsd = (value: string | undefined) => {
+  const amount = parseFloat(fromWei(value));
+  return isFinite(amount)
+    ? `$${amount.toLocaleString("en-US", {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`
+    : undefined;
+};
+
+const formatPrice = (value: string | undefined) => {
+  const price = parseFloat(fromWei(value));
+  return isFinite(price) ? `$${price.toFixed(6)}` : "N/A";
+};
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const shortenHash = (hash: string) =>
+  `${hash.slice(0, 10)}...${hash.slice(-8)}`;
+
+const hasMetadata = (log: BotLog) =>
+  log.metadata !== undefined &&
+  log.metadata !== null &&
+  !(typeof log.metadata === "object" && !Object.keys(log.metadata).length);
+
+const CSV_COLUMNS: CsvColumn<BotLog>[] = [
+  {
+    header: "Date",
+    value: (log) => {
+      const date = new Date(log.timestamp);
+      return isNaN(date.getTime()) ? log.timestamp : date.toISOString();
+    },
+  },
+  { header: "Action", value: (log) => log.action },
+  { header: "Success", value: (log) => log.success },
+  { header: "USDT Amount", value: (log) => fromWei(log.amount) },
+  { header: "Price Before", value: (log) => fromWei(log.priceBefore) },
+  { header: "Price After", value: (log) => fromWei(log.priceAfter) },
+  { header: "Transaction Hash", value: (log) => log.transactionHash },
+  { header: "Error", value: (log) => log.errorMessage },
+  { header: "Next Trade", value: (log) => log.nextTradeScheduledAt },
+  {
+    header: "Metadata",
+    value: (log) => (hasMetadata(log) ? JSON.stringify(log.metadata) : ""),
+  },
+];
+
+// A bot's full log history, loaded as the list scrolls, with filters and
+// CSV / JSON export for audits
+export function BotLogDrawer({
+  tokenAddress,
+  tokenSymbol,
+  open,
+  onOpenChange,
+}: BotLogDrawerProps) {
+  const api = useApiClient();
+  const [actionFilter, setActionFilter] = useState<BotAction | typeof ALL>(
+    ALL
+  );
+  const [successFilter, setSuccessFilter] = useState<SuccessFilter>("all");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const filters: BotLogFilters = {
+    action: actionFilter === ALL ? undefined : actionFilter,
+    success: successFilter === "all" ? undefined : successFilter === "success",
+  };
+
+  const { logs, total, hasMore, isLoading, error, loadMore, retry } =
+    useBotLogHistory(open && tokenAddress ? tokenAddress : undefined, filters);
+  const rowKeys = useMemo(() => getBotLogRowKeys(logs), [logs]);
+
+  // Start with every entry collapsed for each bot and filter set
+  useEffect(() => {
+    setExpanded(new Set());
+  }, [tokenAddress, actionFilter, successFilter]);
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) loadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, logs.length]);
+
+  const toggleExpanded = (key: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  // Export every entry matching the filters, not just the loaded pages
+  const handleExport = async (format: ExportFormat) => {
+    if (!tokenAddress) return;
+    setExporting(format);
+    try {
+      const rows = await fetchAllBotLogs(
+        (params) => api.getBotLogHistory(tokenAddress, params),
+        filters
+      );
+
+      const date = new Date().toISOString().slice(0, 10);
+      const filename = `agent-logs-${tokenSymbol ?? tokenAddress}-${date}`;
+      if (format === "csv") {
+        downloadCsv(`${filename}.csv`, toCsv(rows, CSV_COLUMNS));
+      } else {
+        downloadFile(
+          `${filename}.json`,
+          JSON.stringify(rows, null, 2),
+          "application/json"
+        );
+      }
+      toast.success(
+        `Exported ${rows.length} log entr${rows.length !== 1 ? "ies" : "y"}`
+      );
+    } catch (error) {
+      console.error("Error exporting bot logs:", error);
+      toast.error(getApiErrorMessage(error, "Failed to export agent logs"));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>
+            Agent Logs{tokenSymbol ? ` for $${tokenSymbol}` : ""}
+          </SheetTitle>
+          <SheetDescription>
+            {total} entr{total !== 1 ? "ies" : "y"}
+            {filters.action || filters.success !== undefined
+              ? " matching the filters"
+              : ""}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-wrap items-center gap-2 px-4">
+          <Select
+            value={actionFilter}
+            onValueChange={(value) =>
+              setActionFilter(value as BotAction | typeof ALL)
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              {BOT_LOG_ACTIONS.map((action) => (
+                <SelectItem key={action.value} value={action.value}>
+                  {action.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={successFilter}
+            onValueChange={(value) => setSuccessFilter(value as SuccessFilter)}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any result</SelectItem>
+              <SelectItem value="success">Success</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="ml-auto flex items-center gap-2">
+            {(["csv", "json"] as const).map((format) => (
+              <Button
+                key={format}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => handleExport(format)}
+                disabled={!!exporting || total === 0}
+              >
+                {exporting === format ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4" />
+                )}
+                {format.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="space-y-2 px-4 pb-6">
+            {logs.map((log, index) => {
+              const key = rowKeys[index];
+              const amount = formatUsd(log.amount);
+              const explorerUrl =
+                log.transactionHash && getTransactionUrl(log.transactionHash);
+              const isExpanded = expanded.has(key);
+              return (
+                <div key={key} className="rounded-lg border p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium capitalize">
+                        {log.action}
+                      </span>
+                      {log.success ? (
+                        <Badge variant="outline" className="text-xs">
+                          Success
+                        </Badge>
+                      ) : (
+                        <Badge variant="destructive" className="text-xs">
+                          Failed
+                        </Badge>
+                      )}
+                      {amount && (
+                        <span className="font-mono text-muted-foreground">
+                          {amount}
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDate(log.timestamp)}
+                    </span>
+                  </div>
+
+                  {(log.priceBefore || log.priceAfter) && (
+                    <p className="mt-1 font-mono text-xs text-muted-foreground">
+                      {formatPrice(log.priceBefore)} →{" "}
+                      {formatPrice(log.priceAfter)}
+                    </p>
+                  )}
+                  {log.errorMessage && (
+                    <p className="mt-1 text-xs text-red-500">
+                      {log.errorMessage}
+                    </p>
+                  )}
+
+                  <div className="mt-2 flex items-center justify-between gap-2">
+                    {log.transactionHash ? (
+                      explorerUrl ? (
+                        <a
+                          href={explorerUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 font-mono text-xs text-primary hover:underline"
+                        >
+                          {shortenHash(log.transactionHash)}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      ) : (
+                        <span className="font-mono text-xs">
+                          {shortenHash(log.transactionHash)}
+                        </span>
+                      )
+                    ) : (
+                      <span />
+                    )}
+                    {hasMetadata(log) && (
+                      <button
+                        onClick={() => toggleExpanded(key)}
+                        className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                      >
+                        {isExpanded ? (
+                          <ChevronDown className="h-3 w-3" />
+                        ) : (
+                          <ChevronRight className="h-3 w-3" />
+                        )}
+                        Metadata
+                      </button>
+                    )}
+                  </div>
+                  {isExpanded && (
+                    <pre className="mt-2 max-h-64 overflow-auto rounded bg-muted/50 p-2 text-xs">
+                      {JSON.stringify(log.metadata, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+
+            {error ? (
+              <div className="flex items-center justify-between gap-2 py-4 text-sm">
+                <span className="text-destructive">
+                  {getApiErrorMessage(error, "Failed to load agent logs")}
+                </span>
+                <Button variant="outline" size="sm" onClick={retry}>
+                  Retry
+                </Button>
+              </div>
+            ) : isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : logs.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                No log entries
+              </p>
+            ) : (
+              !hasMore && (
+                <p className="py-4 text-center text-xs text-muted-foreground">
+                  End of log
+                </p>
+              )
+            )}
+            <div ref={sentinelRef} className="h-1" />
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
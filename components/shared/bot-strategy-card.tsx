@@ -0,0 +1,209 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { formatUnits } from "viem";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Circle } from "lucide-react";
+import {
+  formatTradeInterval,
+  getBotStrategy,
+  getStrategyLabel,
+} from "@/lib/bots";
+import type { Bot } from "@/lib/api/types";
+
+interface BotStrategyCardProps {
+  bot: Bot;
+  price?: number; // Current token price (USDT), once loaded
+}
+
+const formatPrice = (price: number) => `$${price.toFixed(6)}`;
+
+const formatUsd = (amount: number) =>
+  `$${amount.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const fromWei = (amountWei: string) => {
+  try {
+    return parseFloat(formatUnits(BigInt(amountWei), 18));
+  } catch {
+    return 0;
+  }
+};
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-2">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium text-right">{children}</span>
+    </div>
+  );
+}
+
+// A bot's strategy parameters and how far along it is
+export function BotStrategyCard({ bot, price }: BotStrategyCardProps) {
+  const strategy = getBotStrategy(bot);
+  const boughtUsd = fromWei(bot.totalBuyVolume);
+
+  const renderDetails = () => {
+    switch (strategy.type) {
+      case "target_growth":
+        return (
+          <>
+            <Row label="Target Growth:">
+              {strategy.targetGrowthPerHour}%/hour
+            </Row>
+            <Row label="Trade Frequency:">
+              {formatTradeInterval(bot.tradeIntervalMinutes)}
+            </Row>
+          </>
+        );
+      case "grid": {
+        const { lowerPrice, upperPrice, levels, orderSize } = strategy;
+        const position =
+          price === undefined
+            ? undefined
+            : ((price - lowerPrice) / (upperPrice - lowerPrice)) * 100;
+        return (
+          <>
+            <Row label="Range:">
+              {formatPrice(lowerPrice)} – {formatPrice(upperPrice)}
+            </Row>
+            <Row label="Levels:">
+              {levels} × {formatUsd(orderSize)}
+            </Row>
+            <Row label="Spacing:">
+              {formatPrice((upperPrice - lowerPrice) / (levels - 1))}
+            </Row>
+            {position !== undefined && (
+              <div className="space-y-1 pt-1">
+                <div className="relative h-2 rounded-full bg-muted">
+                  <div
+                    className="absolute top-1/2 h-3 w-1 -translate-y-1/2 rounded bg-purple-500"
+                    style={{
+                      left: `${Math.min(100, Math.max(0, position))}%`,
+                    }}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {position < 0
+                    ? "Price is below the range"
+                    : position > 100
+                    ? "Price is above the range"
+                    : `Price is ${position.toFixed(0)}% up the range`}
+                </p>
+              </div>
+            )}
+          </>
+        );
+      }
+      case "twap": {
+        const { totalAmount, durationHours, slices } = strategy;
+        const progress = Math.min(100, (boughtUsd / totalAmount) * 100);
+        return (
+          <>
+            <Row label="Total:">
+              {formatUsd(totalAmount)} over {durationHours}h
+            </Row>
+            <Row label="Slices:">
+              {slices} × {formatUsd(totalAmount / slices)}
+            </Row>
+            <Row label="Every:">
+              {((durationHours * 60) / slices).toFixed(1)}m
+            </Row>
+            <div className="space-y-1 pt-1">
+              <Progress value={progress} />
+              <p className="text-xs text-muted-foreground">
+                {formatUsd(boughtUsd)} accumulated ({progress.toFixed(0)}%)
+              </p>
+            </div>
+          </>
+        );
+      }
+      case "dca":
+        return (
+          <>
+            <Row label="Buy:">
+              {formatUsd(strategy.amountPerBuy)}{" "}
+              {formatTradeInterval(strategy.intervalMinutes).toLowerCase()}
+            </Row>
+            <Row label="Max Price:">
+              {strategy.maxPrice !== undefined
+                ? formatPrice(strategy.maxPrice)
+                : "No limit"}
+            </Row>
+            <Row label="Invested:">{formatUsd(boughtUsd)}</Row>
+            {strategy.maxPrice !== undefined &&
+              price !== undefined &&
+              price > strategy.maxPrice && (
+                <p className="text-xs text-yellow-500">
+                  Paused: price is above the max price
+                </p>
+              )}
+          </>
+        );
+      case "take_profit":
+        return (
+          <div className="space-y-1">
+            {strategy.rungs.map((rung, index) => {
+              const reached = price !== undefined && price >= rung.price;
+              return (
+                <div
+                  key={index}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <span className="flex items-center gap-2">
+                    {reached ? (
+                      <CheckCircle2 className="h-3 w-3 text-green-500" />
+                    ) : (
+                      <Circle className="h-3 w-3 text-muted-foreground" />
+                    )}
+                    <span className="font-mono">{formatPrice(rung.price)}</span>
+                  </span>
+                  <span className="font-medium">Sell {rung.sellPercent}%</span>
+                </div>
+              );
+            })}
+          </div>
+        );
+      case "stop_loss": {
+        const distance =
+          price === undefined
+            ? undefined
+            : ((price - strategy.stopPrice) / price) * 100;
+        return (
+          <>
+            <Row label="Stop Price:">{formatPrice(strategy.stopPrice)}</Row>
+            <Row label="Sell:">{strategy.sellPercent}% of tokens</Row>
+            <Row label="Trailing:">
+              {strategy.trailingPercent !== undefined
+                ? `${strategy.trailingPercent}% below high`
+                : "Fixed"}
+            </Row>
+            {distance !== undefined && (
+              <Row label="Distance:">
+                <span
+                  className={distance <= 5 ? "text-red-600" : "text-green-600"}
+                >
+                  {distance.toFixed(2)}%
+                </span>
+              </Row>
+            )}
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">Strategy</span>
+        <Badge variant="outline">{getStrategyLabel(strategy.type)}</Badge>
+      </div>
+      {renderDetails()}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import type { StrategyDraft } from "@/lib/bots";
+
+interface BotStrategyFieldsProps {
+  draft: StrategyDraft;
+  onChange: (draft: StrategyDraft) => void;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  step?: string;
+  min?: string;
+}
+
+const MAX_RUNGS = 10;
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  placeholder,
+  step = "any",
+  min = "0",
+}: NumberFieldProps) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">{label}</label>
+      <Input
+        type="number"
+        step={step}
+        min={min}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+}
+
+// Parameter inputs for the selected bot strategy
+export function BotStrategyFields({ draft, onChange }: BotStrategyFieldsProps) {
+  switch (draft.type) {
+    case "target_growth": {
+      const { values } = draft;
+      return (
+        <NumberField
+          label="Target Growth (%/hour)"
+          step="0.1"
+          min="0.1"
+          value={values.targetGrowthPerHour}
+          onChange={(targetGrowthPerHour) =>
+            onChange({ ...draft, values: { targetGrowthPerHour } })
+          }
+          placeholder="e.g., 1"
+        />
+      );
+    }
+    case "grid": {
+      const { values } = draft;
+      const update = (changes: Partial<typeof values>) =>
+        onChange({ ...draft, values: { ...values, ...changes } });
+      return (
+        <div className="grid grid-cols-2 gap-4">
+          <NumberField
+            label="Lower Price (USDT)"
+            value={values.lowerPrice}
+            onChange={(lowerPrice) => update({ lowerPrice })}
+          />
+          <NumberField
+            label="Upper Price (USDT)"
+            value={values.upperPrice}
+            onChange={(upperPrice) => update({ upperPrice })}
+          />
+          <NumberField
+            label="Grid Levels"
+            step="1"
+            min="2"
+            value={values.levels}
+            onChange={(levels) => update({ levels })}
+          />
+          <NumberField
+            label="Order Size (USDT)"
+            value={values.orderSize}
+            onChange={(orderSize) => update({ orderSize })}
+          />
+        </div>
+      );
+    }
+    case "twap": {
+      const { values } = draft;
+      const update = (changes: Partial<typeof values>) =>
+        onChange({ ...draft, values: { ...values, ...changes } });
+      return (
+        <div className="grid grid-cols-3 gap-4">
+          <NumberField
+            label="Total (USDT)"
+            value={values.totalAmount}
+            onChange={(totalAmount) => update({ totalAmount })}
+          />
+          <NumberField
+            label="Duration (hours)"
+            value={values.durationHours}
+            onChange={(durationHours) => update({ durationHours })}
+          />
+          <NumberField
+            label="Slices"
+            step="1"
+            min="2"
+            value={values.slices}
+            onChange={(slices) => update({ slices })}
+          />
+        </div>
+      );
+    }
+    case "dca": {
+      const { values } = draft;
+      const update = (changes: Partial<typeof values>) =>
+        onChange({ ...draft, values: { ...values, ...changes } });
+      return (
+        <div className="grid grid-cols-3 gap-4">
+          <NumberField
+            label="Per Buy (USDT)"
+            value={values.amountPerBuy}
+            onChange={(amountPerBuy) => update({ amountPerBuy })}
+          />
+          <NumberField
+            label="Every (minutes)"
+            step="1"
+            min="1"
+            value={values.intervalMinutes}
+            onChange={(intervalMinutes) => update({ intervalMinutes })}
+          />
+          <NumberField
+            label="Max Price (USDT)"
+            value={values.maxPrice}
+            onChange={(maxPrice) => update({ maxPrice })}
+            placeholder="No limit"
+          />
+        </div>
+      );
+    }
+    case "take_profit": {
+      const { rungs } = draft.values;
+      const setRungs = (next: typeof rungs) =>
+        onChange({ ...draft, values: { rungs: next } });
+      return (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-sm font-medium">
+            <span>Price (USDT)</span>
+            <span>Sell (%)</span>
+            <span className="w-9" />
+          </div>
+          {rungs.map((rung, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={rung.price}
+                onChange={(e) =>
+                  setRungs(
+                    rungs.map((item, i) =>
+                      i === index ? { ...item, price: e.target.value } : item
+                    )
+                  )
+                }
+              />
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                step="any"
+                value={rung.sellPercent}
+                onChange={(e) =>
+                  setRungs(
+                    rungs.map((item, i) =>
+                      i === index
+                        ? { ...item, sellPercent: e.target.value }
+                        : item
+                    )
+                  )
+                }
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setRungs(rungs.filter((_, i) => i !== index))}
+                disabled={rungs.length <= 1}
+                title="Remove rung"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setRungs([...rungs, { price: "", sellPercent: "" }])}
+            disabled={rungs.length >= MAX_RUNGS}
+          >
+            <Plus className="h-4 w-4" />
+            Add Rung
+          </Button>
+        </div>
+      );
+    }
+    case "stop_loss": {
+      const { values } = draft;
+      const update = (changes: Partial<typeof values>) =>
+        onChange({ ...draft, values: { ...values, ...changes } });
+      return (
+        <div className="grid grid-cols-3 gap-4">
+          <NumberField
+            label="Stop Price (USDT)"
+            value={values.stopPrice}
+            onChange={(stopPrice) => update({ stopPrice })}
+          />
+          <NumberField
+            label="Sell (%)"
+            value={values.sellPercent}
+            onChange={(sellPercent) => update({ sellPercent })}
+          />
+          <NumberField
+            label="Trailing (%)"
+            value={values.trailingPercent}
+            onChange={(trailingPercent) => update({ trailingPercent })}
+            placeholder="Fixed stop"
+          />
+        </div>
+      );
+    }
+  }
+}
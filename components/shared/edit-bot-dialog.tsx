@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatUnits, parseUnits } from "viem";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowRight, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useApiClient } from "@/hooks/useApiClient";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import {
+  formatTradeInterval,
+  getBotStrategy,
+  TRADE_INTERVALS,
+} from "@/lib/bots";
+import type { Bot, UpdateBotInput } from "@/lib/api/types";
+
+type BudgetAction = "topUp" | "withdraw";
+
+interface EditBotForm {
+  targetGrowthPerHour: string;
+  budgetAction: BudgetAction;
+  amount: string; // USDT to top up or withdraw
+  tradeInterval: string; // Minutes, or DEFAULT_INTERVAL
+}
+
+interface EditBotDialogProps {
+  bot: Bot | null;
+  tokenSymbol?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (tokenAddress: string, changes: Partial<Bot>) => void;
+}
+
+interface DiffRow {
+  label: string;
+  before: string;
+  after: string;
+}
+
+const DEFAULT_INTERVAL = "default";
+const MIN_BUDGET = 10;
+const MAX_BUDGET = 10000;
+
+const formatUsd = (amountWei: bigint) =>
+  `$${parseFloat(formatUnits(amountWei, 18)).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const toForm = (bot: Bot): EditBotForm => ({
+  targetGrowthPerHour: String(bot.targetGrowthPerHour),
+  budgetAction: "topUp",
+  amount: "",
+  tradeInterval:
+    bot.tradeIntervalMinutes === undefined
+      ? DEFAULT_INTERVAL
+      : String(bot.tradeIntervalMinutes),
+});
+
+// Parse a USDT amount, treating an empty field as zero
+const parseAmount = (amount: string) => {
+  if (!amount.trim()) return BigInt(0);
+  try {
+    return parseUnits(amount.trim(), 18);
+  } catch {
+    return null;
+  }
+};
+
+// Adjust a bot's growth target, budget and trade frequency in place, with a
+// before / after preview of every change
+export function EditBotDialog({
+  bot,
+  tokenSymbol,
+  open,
+  onOpenChange,
+  onSaved,
+}: EditBotDialogProps) {
+  const api = useApiClient();
+  const [form, setForm] = useState<EditBotForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the bot's current settings each time the dialog opens
+  useEffect(() => {
+    if (open && bot) setForm(toForm(bot));
+  }, [open, bot]);
+
+  if (!bot || !form) return null;
+
+  const budget = BigInt(bot.budget || "0");
+  const usdtBalance = BigInt(bot.currentUsdtBalance || "0");
+  // Growth target and trade frequency only drive target growth bots
+  const isTargetGrowth = getBotStrategy(bot).type === "target_growth";
+  const growth = isTargetGrowth
+    ? parseFloat(form.targetGrowthPerHour)
+    : bot.targetGrowthPerHour;
+  const amount = parseAmount(form.amount);
+  const delta =
+    amount === null ? null : form.budgetAction === "topUp" ? amount : -amount;
+  const newInterval = !isTargetGrowth
+    ? bot.tradeIntervalMinutes
+    : form.tradeInterval === DEFAULT_INTERVAL
+    ? undefined
+    : parseInt(form.tradeInterval);
+
+  const getError = () => {
+    if (isTargetGrowth && !(growth >= 0.1 && growth <= 10)) {
+      return "Target growth must be between 0.1% and 10% per hour";
+    }
+    if (delta === null || amount === null || amount < BigInt(0)) {
+      return "Enter a valid USDT amount";
+    }
+    if (form.budgetAction === "withdraw" && amount > usdtBalance) {
+      return `You can withdraw at most ${formatUsd(usdtBalance)}`;
+    }
+    const newBudget = parseFloat(formatUnits(budget + delta, 18));
+    if (
+      delta !== BigInt(0) &&
+      (newBudget < MIN_BUDGET || newBudget > MAX_BUDGET)
+    ) {
+      return "Budget must stay between 10 and 10,000 USDT";
+    }
+    return null;
+  };
+  const error = getError();
+
+  // Only the fields that differ from the bot's current settings
+  const diff: DiffRow[] = [];
+  if (!error && delta !== null) {
+    if (growth !== bot.targetGrowthPerHour) {
+      diff.push({
+        label: "Target growth",
+        before: `${bot.targetGrowthPerHour}%/hour`,
+        after: `${growth}%/hour`,
+      });
+    }
+    if (delta !== BigInt(0)) {
+      diff.push(
+        {
+          label: "Budget",
+          before: formatUsd(budget),
+          after: formatUsd(budget + delta),
+        },
+        {
+          label: "USDT balance",
+          before: formatUsd(usdtBalance),
+          after: formatUsd(usdtBalance + delta),
+        }
+      );
+    }
+    if (newInterval !== bot.tradeIntervalMinutes) {
+      diff.push({
+        label: "Trade frequency",
+        before: formatTradeInterval(bot.tradeIntervalMinutes),
+        after: formatTradeInterval(newInterval),
+      });
+    }
+  }
+
+  const handleSave = async () => {
+    if (error || delta === null || !diff.length) return;
+
+    const input: UpdateBotInput = { tokenAddress: bot.tokenAddress };
+    const changes: Partial<Bot> = {};
+    if (growth !== bot.targetGrowthPerHour) {
+      input.targetGrowthPerHour = growth;
+      changes.targetGrowthPerHour = growth;
+      if (bot.strategy) {
+        changes.strategy = {
+          type: "target_growth",
+          targetGrowthPerHour: growth,
+        };
+      }
+    }
+    if (delta !== BigInt(0)) {
+      input[form.budgetAction] = form.amount.trim();
+      changes.budget = (budget + delta).toString();
+      changes.currentUsdtBalance = (usdtBalance + delta).toString();
+    }
+    if (newInterval !== bot.tradeIntervalMinutes) {
+      input.tradeIntervalMinutes = newInterval ?? null;
+      changes.tradeIntervalMinutes = newInterval;
+    }
+
+    try {
+      setIsSaving(true);
+      await api.updateBot(input);
+      toast.success("Agent updated successfully!");
+      onSaved(bot.tokenAddress, changes);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error updating bot:", error);
+      toast.error(getApiErrorMessage(error, "Failed to update agent"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isSaving ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>
+            Edit Agent{tokenSymbol ? ` for $${tokenSymbol}` : ""}
+          </DialogTitle>
+          <DialogDescription>
+            Changes apply to the running agent. Its trade history and counters
+            are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {isTargetGrowth && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  Target Growth (%/hour)
+                </label>
+                <Input
+                  type="number"
+                  step="0.1"
+                  min="0.1"
+                  max="10"
+                  value={form.targetGrowthPerHour}
+                  onChange={(e) =>
+                    setForm({ ...form, targetGrowthPerHour: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Trade Frequency</label>
+                <Select
+                  value={form.tradeInterval}
+                  onValueChange={(tradeInterval) =>
+                    setForm({ ...form, tradeInterval })
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_INTERVAL}>
+                      {formatTradeInterval(undefined)}
+                    </SelectItem>
+                    {TRADE_INTERVALS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {formatTradeInterval(minutes)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">Budget (USDT)</label>
+              <Tabs
+                value={form.budgetAction}
+                onValueChange={(value) =>
+                  setForm({ ...form, budgetAction: value as BudgetAction })
+                }
+              >
+                <TabsList>
+                  <TabsTrigger value="topUp">Top up</TabsTrigger>
+                  <TabsTrigger value="withdraw">Withdraw</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              placeholder={
+                form.budgetAction === "topUp"
+                  ? "USDT to add"
+                  : `Up to ${formatUsd(usdtBalance)}`
+              }
+            />
+          </div>
+
+          {/* Diff preview */}
+          <div className="rounded-lg border p-4 space-y-2">
+            <h4 className="text-sm font-semibold">Changes</h4>
+            {error ? (
+              <p className="text-sm text-destructive">{error}</p>
+            ) : diff.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No changes yet</p>
+            ) : (
+              diff.map((row) => (
+                <div
+                  key={row.label}
+                  className="flex items-center justify-between gap-4 text-sm"
+                >
+                  <span className="text-muted-foreground">{row.label}</span>
+                  <span className="flex items-center gap-2 font-mono">
+                    <span className="text-muted-foreground line-through">
+                      {row.before}
+                    </span>
+                    <ArrowRight className="h-3 w-3" />
+                    <span className="font-medium">{row.after}</span>
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !!error || diff.length === 0}
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Changes"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
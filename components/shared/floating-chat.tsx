@@ -8,42 +8,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useUserStore } from "@/stores/userStore";
 import { useChatStore } from "@/stores/chatStore";
-import { useApi } from "@/hooks/useApi";
+import { useApiClient } from "@/hooks/useApiClient";
+import { getApiErrorMessage, isCancelledError } from "@/lib/api/errors";
+import type { ChatMessage } from "@/lib/api/types";
 import { toast } from "sonner";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { chatEventEmitter, CHAT_EVENTS } from "@/lib/eventEmitter";
-
-interface ChatMessage {
-  role: "user" | "assistant" | "tool";
-  content: string;
-  timestamp: string;
-  name?: string;
-  tool_calls?: Array<{
-    id: string;
-    type: "function";
-    function: {
-      name: string;
-      arguments: string;
-    };
-  }>;
-  tool_call_id?: string;
-}
-
-interface ChatResponse {
-  success: boolean;
-  response?: string;
-  timestamp?: string;
-  error?: string;
-  details?: string;
-}
-
-interface ChatHistoryResponse {
-  success: boolean;
-  history: ChatMessage[];
-  count: number;
-  error?: string;
-}
+import {
+  chatEventEmitter,
+  CHAT_EVENTS,
+  sessionEventEmitter,
+  SESSION_EVENTS,
+} from "@/lib/eventEmitter";
 
 export function FloatingChat() {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -55,7 +31,7 @@ export function FloatingChat() {
   const { isAuthenticated, userEmail } = useUserStore();
   const { currentTokenAddress, currentTokenName, currentTokenSymbol } =
     useChatStore();
-  const { post, get, delete: del } = useApi();
+  const api = useApiClient();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -76,6 +52,15 @@ export function FloatingChat() {
     }
   }, [isExpanded]);
 
+  // Drop the conversation when the user signs out
+  useEffect(() => {
+    const handleLoggedOut = () => setMessages([]);
+    sessionEventEmitter.on(SESSION_EVENTS.LOGGED_OUT, handleLoggedOut);
+    return () => {
+      sessionEventEmitter.off(SESSION_EVENTS.LOGGED_OUT, handleLoggedOut);
+    };
+  }, []);
+
   // Load chat history when expanding chat (if authenticated)
   useEffect(() => {
     if (isExpanded && isAuthenticated && messages.length === 0) {
@@ -110,30 +95,20 @@ export function FloatingChat() {
     console.log(`[FRONTEND] Loading chat history...`);
     setIsLoadingHistory(true);
     try {
-      const response = await get<ChatHistoryResponse>("/chat/history");
-      console.log(`[FRONTEND] Chat history response:`, {
-        success: response.data.success,
-        historyCount: response.data.history?.length || 0,
-        error: response.data.error,
-      });
-
-      if (response.data.success) {
-        const allMessages = response.data.history;
-        const visibleMessages = allMessages.filter(
-          (msg: ChatMessage) => msg.role !== "tool"
-        );
-        const toolMessages = allMessages.filter(
-          (msg: ChatMessage) => msg.role === "tool"
-        );
-
-        setMessages(allMessages); // Store all messages for context
-        console.log(
-          `[FRONTEND] Chat history loaded: ${allMessages.length} total messages (${visibleMessages.length} visible, ${toolMessages.length} tool messages hidden)`
-        );
-      } else {
-        console.error("Failed to load chat history:", response.data.error);
-      }
-    } catch (error: any) {
+      const allMessages = await api.getChatHistory();
+      const visibleMessages = allMessages.filter(
+        (msg: ChatMessage) => msg.role !== "tool"
+      );
+      const toolMessages = allMessages.filter(
+        (msg: ChatMessage) => msg.role === "tool"
+      );
+
+      setMessages(allMessages); // Store all messages for context
+      console.log(
+        `[FRONTEND] Chat history loaded: ${allMessages.length} total messages (${visibleMessages.length} visible, ${toolMessages.length} tool messages hidden)`
+      );
+    } catch (error) {
+      if (isCancelledError(error)) return; // Navigated away mid-load
       console.error(`[FRONTEND] Error loading chat history:`, error);
       // Don't show error toast for history loading - it's not critical
     } finally {
@@ -193,53 +168,34 @@ export function FloatingChat() {
 
       console.log(`[FRONTEND] Request body:`, requestBody);
 
-      const response = await post<ChatResponse>("/chat/message", requestBody);
+      const reply = await api.sendChatMessage(requestBody);
 
       console.log(`[FRONTEND] Response received:`, {
-        status: response.status,
-        success: response.data?.success,
-        hasResponse: !!response.data?.response,
-        responseLength: response.data?.response?.length || 0,
-        error: response.data?.error,
-        details: response.data?.details,
+        responseLength: reply.response.length,
       });
 
-      if (response.data.success && response.data.response) {
-        const assistantMessage: ChatMessage = {
-          role: "assistant",
-          content: response.data.response,
-          timestamp: response.data.timestamp || new Date().toISOString(),
-        };
-        console.log(`[FRONTEND] Adding assistant message to chat:`, {
-          contentLength: assistantMessage.content.length,
-          timestamp: assistantMessage.timestamp,
-        });
-        setMessages((prev) => [...prev, assistantMessage]);
-
-        // Emit refresh events after successful response
-        emitRefreshEvents();
-      } else {
-        console.error(`[FRONTEND] Response indicates failure:`, {
-          success: response.data.success,
-          error: response.data.error,
-          details: response.data.details,
-        });
-        throw new Error(response.data.error || "Failed to get response");
-      }
-    } catch (error: any) {
-      console.error(`[FRONTEND] Error caught in sendMessage:`, error);
-      console.error(`[FRONTEND] Error details:`, {
-        message: error.message,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        responseData: error.response?.data,
-        stack: error.stack,
+      const assistantMessage: ChatMessage = {
+        role: "assistant",
+        content: reply.response,
+        timestamp: reply.timestamp || new Date().toISOString(),
+      };
+      console.log(`[FRONTEND] Adding assistant message to chat:`, {
+        contentLength: assistantMessage.content.length,
+        timestamp: assistantMessage.timestamp,
       });
+      setMessages((prev) => [...prev, assistantMessage]);
+
+      // Emit refresh events after successful response
+      emitRefreshEvents();
+    } catch (error) {
+      console.error(`[FRONTEND] Error caught in sendMessage:`, error);
 
-      const errorMessage =
-        error.response?.data?.error ||
-        error.message ||
-        "Failed to send message";
+      const errorMessage = getApiErrorMessage(
+        error,
+        error instanceof Error && error.message
+          ? error.message
+          : "Failed to send message"
+      );
       console.log(`[FRONTEND] Using error message: "${errorMessage}"`);
 
       toast.error(errorMessage);
@@ -262,12 +218,12 @@ export function FloatingChat() {
     if (!isAuthenticated) return;
 
     try {
-      await del("/chat/history");
+      await api.clearChatHistory();
       setMessages([]);
       toast.success("Chat history cleared");
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error clearing history:", error);
-      toast.error("Failed to clear chat history");
+      toast.error(getApiErrorMessage(error, "Failed to clear chat history"));
     }
   };
 
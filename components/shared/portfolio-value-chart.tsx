@@ -0,0 +1,342 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  createChart,
+  AreaSeries,
+  ColorType,
+  IChartApi,
+  ISeriesApi,
+  UTCTimestamp,
+} from "lightweight-charts";
+import { useApiClient } from "@/hooks/useApiClient";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { Skeleton } from "../ui/skeleton";
+import { useQuery } from "@/hooks/useQuery";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { fetchQuery } from "@/lib/queryCache";
+import {
+  aggregateCandles,
+  getIntervalSeconds,
+  type Candle,
+  type ChartRange,
+} from "@/lib/candles";
+import {
+  buildValueHistory,
+  VALUE_CHART_RANGES,
+  type ValuePoint,
+} from "@/lib/portfolio";
+import type { TokenBalance, WalletActivity } from "@/lib/api/types";
+
+interface PortfolioValueChartProps {
+  activities: WalletActivity[];
+  tokenBalances: TokenBalance[];
+  usdtBalance: string;
+  className?: string;
+}
+
+const TOTAL_COLOR = "#a855f7";
+const USDT_COLOR = "#10b981";
+const DAY_SECONDS = 24 * 60 * 60;
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+// Total portfolio value over time, with the USDT share drawn underneath so the
+// band between the two areas is the value held in tokens
+export function PortfolioValueChart({
+  activities,
+  tokenBalances,
+  usdtBalance,
+  className,
+}: PortfolioValueChartProps) {
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const totalSeriesRef = useRef<ISeriesApi<"Area"> | null>(null);
+  const usdtSeriesRef = useRef<ISeriesApi<"Area"> | null>(null);
+  const [range, setRange] = useState<ChartRange>("7D");
+  const [hovered, setHovered] = useState<ValuePoint | null>(null);
+  const api = useApiClient();
+
+  const { days, interval } =
+    VALUE_CHART_RANGES.find((item) => item.value === range) ??
+    VALUE_CHART_RANGES[0];
+
+  // Range bounds; "All" starts at the wallet's first trade
+  const { start, end } = useMemo(() => {
+    const now = Math.floor(Date.now() / 1000);
+    if (days) return { start: now - days * DAY_SECONDS, end: now };
+    const first = Math.min(
+      ...activities.map((activity) => Number(activity.timestamp))
+    );
+    return {
+      start: isFinite(first) ? first : now - DAY_SECONDS,
+      end: now,
+    };
+  }, [days, activities]);
+
+  // Tokens held at any point in the range: current holdings plus anything
+  // traded since the range started
+  const tokenAddresses = useMemo(() => {
+    const addresses = new Set(
+      tokenBalances.map((balance) => balance.tokenAddress.toLowerCase())
+    );
+    activities.forEach((activity) => {
+      if (Number(activity.timestamp) >= start) {
+        addresses.add(activity.tokenAddress.toLowerCase());
+      }
+    });
+    return Array.from(addresses).sort();
+  }, [tokenBalances, activities, start]);
+
+  // Price candles per token, fetched through the shared chart query keys
+  const {
+    data: candlesByToken,
+    error: candlesError,
+    isLoading: loading,
+  } = useQuery(
+    [...queryKeys.portfolio(), "candles", range, ...tokenAddresses],
+    async () => {
+      const entries = await Promise.all(
+        tokenAddresses.map(async (address) => {
+          try {
+            const chart = await fetchQuery(
+              queryKeys.tokenChart(address, days, interval),
+              () => api.getTokenChart(address, { days, interval })
+            );
+            return [
+              address,
+              aggregateCandles(
+                chart.candlestickData,
+                getIntervalSeconds(interval)
+              ),
+            ] as const;
+          } catch (error) {
+            // A token without chart data is valued at zero rather than
+            // failing the whole chart
+            console.error(`[PORTFOLIO CHART] No candles for ${address}:`, error);
+            return [address, [] as Candle[]] as const;
+          }
+        })
+      );
+      return Object.fromEntries(entries) as Record<string, Candle[]>;
+    },
+    { keepPreviousData: true }
+  );
+  const error =
+    candlesError && !candlesByToken
+      ? getApiErrorMessage(candlesError, "Failed to load price history")
+      : null;
+
+  const points = useMemo(
+    () =>
+      candlesByToken
+        ? buildValueHistory(
+            tokenBalances,
+            usdtBalance,
+            activities,
+            candlesByToken,
+            { start, end, interval }
+          )
+        : [],
+    [
+      candlesByToken,
+      tokenBalances,
+      usdtBalance,
+      activities,
+      start,
+      end,
+      interval,
+    ]
+  );
+
+  // Create chart (only once)
+  useEffect(() => {
+    if (!chartContainerRef.current || loading || error) return;
+    if (chartRef.current) return;
+
+    const chart = createChart(chartContainerRef.current, {
+      layout: {
+        textColor: "rgba(255, 255, 255, 0.9)",
+        background: { type: ColorType.Solid, color: "rgba(0, 0, 0, 0)" },
+        fontSize: 12,
+        fontFamily: "Inter, sans-serif",
+      },
+      width: chartContainerRef.current.clientWidth,
+      height: 300,
+      rightPriceScale: {
+        scaleMargins: { top: 0.1, bottom: 0 },
+        borderVisible: true,
+      },
+      localization: {
+        priceFormatter: (price: number) => price.toFixed(2),
+      },
+      timeScale: {
+        timeVisible: true,
+        secondsVisible: false,
+      },
+      crosshair: {
+        horzLine: { visible: false, labelVisible: false },
+        vertLine: {
+          visible: true,
+          style: 0,
+          width: 2,
+          color: "rgba(32, 38, 46, 0.1)",
+          labelVisible: false,
+        },
+      },
+      grid: {
+        horzLines: { color: "rgba(197, 203, 206, 0.1)" },
+        vertLines: { color: "rgba(197, 203, 206, 0.1)" },
+      },
+    });
+
+    totalSeriesRef.current = chart.addSeries(AreaSeries, {
+      lineColor: TOTAL_COLOR,
+      topColor: "rgba(168, 85, 247, 0.4)",
+      bottomColor: "rgba(168, 85, 247, 0.05)",
+      lineWidth: 2,
+    });
+    usdtSeriesRef.current = chart.addSeries(AreaSeries, {
+      lineColor: USDT_COLOR,
+      topColor: "rgba(16, 185, 129, 0.5)",
+      bottomColor: "rgba(16, 185, 129, 0.1)",
+      lineWidth: 1,
+      priceLineVisible: false,
+      lastValueVisible: false,
+    });
+    chartRef.current = chart;
+
+    const handleResize = () => {
+      if (chartContainerRef.current && chartRef.current) {
+        chartRef.current.applyOptions({
+          width: chartContainerRef.current.clientWidth,
+        });
+      }
+    };
+    window.addEventListener("resize", handleResize);
+
+    return () => {
+      window.removeEventListener("resize", handleResize);
+      chart.remove();
+      chartRef.current = null;
+      totalSeriesRef.current = null;
+      usdtSeriesRef.current = null;
+    };
+  }, [loading, error]);
+
+  // Show the hovered point's breakdown in the legend
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    const byTime = new Map(points.map((point) => [point.time, point]));
+    const handleCrosshairMove = (param: { time?: unknown }) => {
+      setHovered(
+        typeof param.time === "number" ? byTime.get(param.time) ?? null : null
+      );
+    };
+    chart.subscribeCrosshairMove(handleCrosshairMove);
+    return () => chart.unsubscribeCrosshairMove(handleCrosshairMove);
+  }, [points, loading]);
+
+  // Update series data without recreating the chart
+  useEffect(() => {
+    if (!chartRef.current || loading) return;
+    totalSeriesRef.current?.setData(
+      points.map((point) => ({
+        time: point.time as UTCTimestamp,
+        value: point.total,
+      }))
+    );
+    usdtSeriesRef.current?.setData(
+      points.map((point) => ({
+        time: point.time as UTCTimestamp,
+        value: point.usdt,
+      }))
+    );
+    if (points.length) chartRef.current.timeScale().fitContent();
+  }, [points, loading]);
+
+  const latest = points[points.length - 1];
+  const first = points[0];
+  const shown = hovered ?? latest;
+  const change = latest && first ? latest.total - first.total : 0;
+  const changePercent = first?.total ? (change / first.total) * 100 : 0;
+
+  return (
+    <Card className={`p-6 ${className ?? ""}`}>
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-bold">Portfolio Value</h2>
+          {shown && (
+            <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 mt-1">
+              <span className="text-2xl font-bold font-mono">
+                {formatUsd(shown.total)}
+              </span>
+              {!hovered && (
+                <span
+                  className={`font-mono text-sm ${
+                    change > 0
+                      ? "text-green-600"
+                      : change < 0
+                      ? "text-red-600"
+                      : "text-muted-foreground"
+                  }`}
+                >
+                  {change > 0 ? "+" : ""}
+                  {formatUsd(change)} ({changePercent.toFixed(2)}%)
+                </span>
+              )}
+            </div>
+          )}
+          {shown && (
+            <div className="flex gap-4 text-xs text-muted-foreground mt-1">
+              <span className="flex items-center gap-1">
+                <span
+                  className="h-2 w-2 rounded-full"
+                  style={{ backgroundColor: USDT_COLOR }}
+                />
+                USDT {formatUsd(shown.usdt)}
+              </span>
+              <span className="flex items-center gap-1">
+                <span
+                  className="h-2 w-2 rounded-full"
+                  style={{ backgroundColor: TOTAL_COLOR }}
+                />
+                Tokens {formatUsd(shown.tokens)}
+              </span>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {VALUE_CHART_RANGES.map((item) => (
+            <Button
+              key={item.value}
+              size="sm"
+              variant={range === item.value ? "default" : "ghost"}
+              onClick={() => setRange(item.value)}
+              className="h-7 px-2 text-xs"
+            >
+              {item.value}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <Skeleton className="w-full h-[300px]" />
+      ) : error ? (
+        <div className="w-full h-[300px] rounded-lg border flex items-center justify-center">
+          <p className="text-sm text-muted-foreground">{error}</p>
+        </div>
+      ) : (
+        <div ref={chartContainerRef} className="w-full h-[300px]" />
+      )}
+    </Card>
+  );
+}
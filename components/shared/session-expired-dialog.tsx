@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Check } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useApiClient } from "@/hooks/useApiClient";
+import { useWalletAuth } from "@/hooks/useWalletAuth";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { sessionEventEmitter, SESSION_EVENTS } from "@/lib/eventEmitter";
+import { getPendingActionCount, initSession, logout } from "@/lib/session";
+import { useUserStore } from "@/stores/userStore";
+
+// Re-authentication prompt shown when the session can't be refreshed.
+// Requests that failed with 401 stay paused until the user signs in again
+// (magic link, which opens in another tab, or their browser wallet) or chooses
+// to sign out.
+export function SessionExpiredDialog() {
+  const { userEmail, authMethod } = useUserStore();
+  const api = useApiClient();
+  const { isSigningIn, signInWithWallet } = useWalletAuth();
+  const isWalletUser = authMethod === "wallet";
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [pendingActions, setPendingActions] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+  const [isLinkSent, setIsLinkSent] = useState(false);
+
+  const isOpenRef = useRef(false);
+  isOpenRef.current = isOpen;
+
+  useEffect(() => {
+    initSession();
+
+    const handleExpired = () => {
+      setPendingActions(getPendingActionCount());
+      setIsLinkSent(false);
+      setIsOpen(true);
+    };
+    const handleResumed = () => {
+      if (!isOpenRef.current) return;
+      toast.success("Signed in again, resuming where you left off");
+      setIsOpen(false);
+    };
+    const handleLoggedOut = () => setIsOpen(false);
+
+    sessionEventEmitter.on(SESSION_EVENTS.EXPIRED, handleExpired);
+    sessionEventEmitter.on(SESSION_EVENTS.SIGNED_IN, handleResumed);
+    sessionEventEmitter.on(SESSION_EVENTS.REFRESHED, handleResumed);
+    sessionEventEmitter.on(SESSION_EVENTS.LOGGED_OUT, handleLoggedOut);
+    return () => {
+      sessionEventEmitter.off(SESSION_EVENTS.EXPIRED, handleExpired);
+      sessionEventEmitter.off(SESSION_EVENTS.SIGNED_IN, handleResumed);
+      sessionEventEmitter.off(SESSION_EVENTS.REFRESHED, handleResumed);
+      sessionEventEmitter.off(SESSION_EVENTS.LOGGED_OUT, handleLoggedOut);
+    };
+  }, []);
+
+  const handleSendMagicLink = async () => {
+    if (!userEmail) return;
+    setIsSending(true);
+    try {
+      await api.sendMagicLink(userEmail);
+      setIsLinkSent(true);
+    } catch (error) {
+      console.error("Error sending magic link:", error);
+      toast.error(getApiErrorMessage(error, "Failed to send magic link"));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Dismissing the prompt abandons the paused actions
+  const handleSignOut = () => {
+    logout();
+    toast.info("You have been logged out");
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) handleSignOut();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Your session has expired</DialogTitle>
+          <DialogDescription>
+            {pendingActions > 0
+              ? `Sign in again to finish ${
+                  pendingActions === 1
+                    ? "your pending action"
+                    : `${pendingActions} pending actions`
+                }. Nothing has been lost.`
+              : "Sign in again to keep using your wallet."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isWalletUser ? (
+          <p className="text-muted-foreground text-sm">
+            Sign the sign-in message with your wallet to continue.
+          </p>
+        ) : isLinkSent ? (
+          <div className="text-center py-4">
+            <div className="w-12 h-12 rounded-full flex items-center justify-center mx-auto mb-3 border-2 border-green-500">
+              <Check className="w-6 h-6 text-green-500" />
+            </div>
+            <p className="text-foreground font-medium mb-1">Magic link sent!</p>
+            <p className="text-muted-foreground text-sm">
+              Open the link from {userEmail}. This tab will continue
+              automatically once you&apos;re signed in.
+            </p>
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm">
+            We&apos;ll send a magic link to{" "}
+            <span className="text-foreground">{userEmail}</span>.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleSignOut}>
+            Sign out
+          </Button>
+          {isWalletUser ? (
+            <Button onClick={signInWithWallet} disabled={isSigningIn}>
+              {isSigningIn ? "Check your wallet..." : "Sign in with Wallet"}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSendMagicLink}
+              disabled={isSending || !userEmail}
+            >
+              {isSending
+                ? "Sending..."
+                : isLinkSent
+                ? "Resend Magic Link"
+                : "Send Magic Link"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
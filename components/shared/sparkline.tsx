@@ -0,0 +1,110 @@
+"use client";
+
+import { useApiClient } from "@/hooks/useApiClient";
+import { useQuery } from "@/hooks/useQuery";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+import { queryKeys } from "@/lib/api/queryKeys";
+import {
+  applyPriceToCandles,
+  ChartInterval,
+  getEventPrice,
+  getIntervalSeconds,
+} from "@/lib/candles";
+import { REALTIME_EVENTS } from "@/lib/realtime";
+import { isSameAddress } from "@/lib/utils";
+import type { TokenChartData } from "@/lib/api/types";
+
+interface SparklineProps {
+  tokenAddress: string;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+// Last 24h in 1h candles, shared with the token chart's cache for that range
+const SPARKLINE_DAYS = 1;
+const SPARKLINE_INTERVAL: ChartInterval = "1h";
+
+// Mini price line for the last day, kept live from the realtime stream
+export function Sparkline({
+  tokenAddress,
+  width = 80,
+  height = 24,
+  className,
+}: SparklineProps) {
+  const api = useApiClient();
+  const { data, mutate } = useQuery(
+    queryKeys.tokenChart(tokenAddress, SPARKLINE_DAYS, SPARKLINE_INTERVAL),
+    () =>
+      api.getTokenChart(tokenAddress, {
+        days: SPARKLINE_DAYS,
+        interval: SPARKLINE_INTERVAL,
+      }),
+    { staleTime: 60000 }
+  );
+
+  const applyLivePrice = (time: number, price: number) => {
+    mutate((prev: TokenChartData | undefined) => {
+      if (!prev) return prev;
+      const update = applyPriceToCandles(
+        prev.candlestickData,
+        time,
+        price,
+        getIntervalSeconds(SPARKLINE_INTERVAL)
+      );
+      return update ? { ...prev, candlestickData: update.candles } : prev;
+    });
+  };
+
+  useRealtimeEvent(REALTIME_EVENTS.TRADE, (trade) => {
+    if (!isSameAddress(trade.tokenAddress, tokenAddress)) return;
+    applyLivePrice(parseInt(trade.timestamp), getEventPrice(trade));
+  });
+
+  useRealtimeEvent(REALTIME_EVENTS.PRICE_TICK, (tick) => {
+    if (!isSameAddress(tick.tokenAddress, tokenAddress)) return;
+    applyLivePrice(parseInt(tick.timestamp), getEventPrice(tick));
+  });
+
+  const closes = (data?.candlestickData ?? []).map((candle) => candle.close);
+  if (closes.length < 2) {
+    return (
+      <div
+        className={className}
+        style={{ width, height }}
+        aria-label="No recent price data"
+      />
+    );
+  }
+
+  const min = Math.min(...closes);
+  const max = Math.max(...closes);
+  const spread = max - min || 1;
+  const points = closes
+    .map((close, index) => {
+      const x = (index / (closes.length - 1)) * width;
+      const y = height - 1 - ((close - min) / spread) * (height - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+  const rising = closes[closes.length - 1] >= closes[0];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+      aria-label={`24h price trend ${rising ? "up" : "down"}`}
+    >
+      <polyline
+        points={points}
+        fill="none"
+        stroke={rising ? "#10b981" : "#ef4444"}
+        strokeWidth="1.5"
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
@@ -1,108 +1,366 @@
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   createChart,
   ColorType,
   IChartApi,
   ISeriesApi,
   CandlestickSeries,
+  LineSeries,
+  AreaSeries,
+  HistogramSeries,
+  SeriesType,
+  UTCTimestamp,
+  createSeriesMarkers,
+  ISeriesMarkersPluginApi,
+  MouseEventParams,
+  LineStyle,
+  Time,
 } from "lightweight-charts";
-import { useApi } from "@/hooks/useApi";
+import { useApiClient } from "@/hooks/useApiClient";
 import { Card } from "../ui/card";
+import { Button } from "../ui/button";
 import { Skeleton } from "../ui/skeleton";
-import { chatEventEmitter, CHAT_EVENTS } from "@/lib/eventEmitter";
+import { REALTIME_EVENTS } from "@/lib/realtime";
+import { useRealtimeEvent, useRealtimeStatus } from "@/hooks/useRealtime";
+import { isSameAddress } from "@/lib/utils";
+import { useUserStore } from "@/stores/userStore";
+import {
+  ChartType,
+  DEFAULT_CHART_PREFERENCES,
+  OverlayIndicator,
+  useChartStore,
+} from "@/stores/chartStore";
+import { ema, IndicatorPoint, sma, vwap } from "@/lib/indicators";
+import {
+  addTradeVolume,
+  aggregateCandles,
+  applyPriceToCandles,
+  bucketTradeVolume,
+  Candle,
+  CandleTrade,
+  CHART_INTERVALS,
+  CHART_RANGES,
+  ChartInterval,
+  ChartRange,
+  getEventPrice,
+  getIntervalSeconds,
+  getRangeDays,
+  VolumeBucket,
+} from "@/lib/candles";
+import {
+  getBacktestTradeMarkers,
+  getBotTradeMarkers,
+  getWalletTradeMarkers,
+  toSeriesMarkers,
+  TradeMarker,
+  TradeMarkerSource,
+  WalletTrade,
+} from "@/lib/tradeMarkers";
+import type { BacktestResult } from "@/lib/backtest";
+import type { BotLog } from "@/lib/api/types";
+import { getApiErrorMessage } from "@/lib/api/errors";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { invalidateQueries } from "@/lib/queryCache";
+import { useQuery } from "@/hooks/useQuery";
 
 interface TokenChartProps {
   tokenAddress: string;
   className?: string;
+  transactions?: WalletTrade[]; // Recent buy/sell trades (volume pane and own-fill markers)
+  // A simulated bot run to draw over the candles. Its price path is plotted
+  // and its trades replace the user's and bot's trade markers.
+  backtest?: BacktestResult;
+  defaultInterval?: ChartInterval;
+  defaultRange?: ChartRange;
 }
 
-interface ChartDataPoint {
-  time: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-}
+const BOT_LOG_LIMIT = 100;
+const BOT_LOG_REFRESH_MS = 15000; // At most one bot log refetch per window
+const NO_BOT_LOGS: BotLog[] = [];
 
-interface ChartApiResponse {
-  success: boolean;
-  data: {
-    tokenAddress: string;
-    candlestickData: ChartDataPoint[];
-    interval: string;
-  };
-  message: string;
+const SMA_PERIOD = 20;
+const EMA_PERIOD = 9;
+
+const CHART_TYPES: { value: ChartType; label: string }[] = [
+  { value: "candles", label: "Candles" },
+  { value: "line", label: "Line" },
+  { value: "area", label: "Area" },
+];
+
+const OVERLAYS: { value: OverlayIndicator; label: string; color: string }[] = [
+  { value: "sma", label: `SMA ${SMA_PERIOD}`, color: "#f59e0b" },
+  { value: "ema", label: `EMA ${EMA_PERIOD}`, color: "#3b82f6" },
+  { value: "vwap", label: "VWAP", color: "#ec4899" },
+];
+
+const MARKER_SOURCE_NAMES: Record<TradeMarkerSource, string> = {
+  me: "You",
+  bot: "Bot",
+  backtest: "Simulated bot",
+};
+
+const BACKTEST_COLOR = "#22d3ee";
+
+const PRICE_FORMAT = {
+  type: "price" as const,
+  precision: 6,
+  minMove: 0.000001,
+};
+
+// Compute an overlay's points from the current candles and volume
+const computeOverlay = (
+  overlay: OverlayIndicator,
+  candles: Candle[],
+  volumes: Map<number, VolumeBucket>
+): IndicatorPoint[] => {
+  switch (overlay) {
+    case "sma":
+      return sma(candles, SMA_PERIOD);
+    case "ema":
+      return ema(candles, EMA_PERIOD);
+    case "vwap":
+      return vwap(candles, volumes);
+  }
+};
+
+// Candles for the candlestick series, closes for line/area
+const toMainSeriesData = (candle: Candle, chartType: ChartType) =>
+  chartType === "candles"
+    ? { ...candle, time: candle.time as UTCTimestamp }
+    : { time: candle.time as UTCTimestamp, value: candle.close };
+
+const toVolumeData = (bucket: VolumeBucket) => ({
+  time: bucket.time as UTCTimestamp,
+  value: bucket.buyVolume + bucket.sellVolume,
+  color:
+    bucket.buyVolume >= bucket.sellVolume
+      ? "rgba(16, 185, 129, 0.5)"
+      : "rgba(239, 68, 68, 0.5)",
+});
+
+interface HoveredMarker {
+  marker: TradeMarker;
+  x: number;
+  y: number;
 }
 
-export function TokenChart({ tokenAddress, className }: TokenChartProps) {
+const formatMarkerNumber = (value: number, maxDecimals: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: maxDecimals });
+
+export function TokenChart({
+  tokenAddress,
+  className,
+  transactions,
+  backtest,
+  defaultInterval = "5m",
+  defaultRange = "All",
+}: TokenChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
-  const candlestickSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
-  const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const { get } = useApi();
+  const mainSeriesRef = useRef<ISeriesApi<SeriesType> | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+  const backtestSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
+  const overlaySeriesRef = useRef<
+    Partial<Record<OverlayIndicator, ISeriesApi<"Line">>>
+  >({});
+  const candlesRef = useRef<Candle[]>([]); // Latest candles, including live updates
+  const volumesRef = useRef<Map<number, VolumeBucket>>(new Map());
+  const markersPluginRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
+  const tradeMarkersRef = useRef<Map<string, TradeMarker>>(new Map());
+  const botLogRefreshRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [hoveredMarker, setHoveredMarker] = useState<HoveredMarker | null>(
+    null
+  );
+  const [chartInterval, setChartInterval] =
+    useState<ChartInterval>(defaultInterval);
+  const [chartRange, setChartRange] = useState<ChartRange>(defaultRange);
+  const api = useApiClient();
+  const realtimeStatus = useRealtimeStatus();
+  const { userEmail, walletAddress, isAuthenticated } = useUserStore();
 
-  // Fetch chart data
-  useEffect(() => {
-    fetchChartData();
-  }, [tokenAddress, get]);
+  // Candles come from the query cache; keep the previous interval's candles
+  // on screen while a new interval/range loads so the chart doesn't blink
+  const chartDays = getRangeDays(chartRange);
+  const {
+    data: chartResponse,
+    error: chartError,
+    isLoading: loading,
+  } = useQuery(
+    queryKeys.tokenChart(tokenAddress, chartDays, chartInterval),
+    () =>
+      api.getTokenChart(tokenAddress, {
+        days: chartDays,
+        interval: chartInterval,
+      }),
+    { keepPreviousData: true }
+  );
+  const error =
+    chartError && !chartResponse
+      ? getApiErrorMessage(chartError, "Failed to fetch chart data")
+      : null;
 
-  // Listen for chat refresh events
-  useEffect(() => {
-    const handleRefreshTokenData = (data: { tokenAddress?: string }) => {
-      console.log(
-        `[TOKEN CHART] Received refresh token data event from chat:`,
-        data
-      );
-      // Refresh if no specific token address provided, or if it matches our current token
-      if (!data.tokenAddress || data.tokenAddress === tokenAddress) {
-        console.log(`[TOKEN CHART] Refreshing chart data for: ${tokenAddress}`);
-        fetchChartData(true); // Silent refresh to avoid blinking
-      }
-    };
+  // Roll up in case the API returns a finer interval than requested
+  const chartData = useMemo(
+    () =>
+      chartResponse
+        ? aggregateCandles(
+            chartResponse.candlestickData,
+            getIntervalSeconds(chartInterval)
+          )
+        : [],
+    [chartResponse, chartInterval]
+  );
 
-    // Register event listener
-    chatEventEmitter.on(CHAT_EVENTS.REFRESH_TOKEN_DATA, handleRefreshTokenData);
+  // Bot logs are per user, so only fetch them when signed in. A token without
+  // a bot (or unavailable logs) just shows no bot markers.
+  const { data: botLogs = NO_BOT_LOGS } = useQuery(
+    queryKeys.botLogs(tokenAddress, BOT_LOG_LIMIT),
+    () => api.getBotLogs(tokenAddress, { limit: BOT_LOG_LIMIT }),
+    { enabled: isAuthenticated }
+  );
 
-    // Cleanup event listener on unmount
-    return () => {
-      chatEventEmitter.off(
-        CHAT_EVENTS.REFRESH_TOKEN_DATA,
-        handleRefreshTokenData
-      );
-    };
-  }, [tokenAddress]);
+  // Chart preferences persist per user
+  const userKey = userEmail || walletAddress || "guest";
+  const { setPreferences, toggleOverlay } = useChartStore();
+  const preferences =
+    useChartStore((state) => state.preferences[userKey]) ??
+    DEFAULT_CHART_PREFERENCES;
+  const { chartType, showVolume, overlays } = preferences;
 
-  const fetchChartData = async (silent: boolean = false) => {
-    try {
-      if (!silent) {
-        setLoading(true);
-      }
-      setError(null);
+  // The user's own fills plus their market maker bot's trades, or only the
+  // simulated trades while showing a backtest
+  const tradeMarkers = useMemo(
+    () =>
+      backtest
+        ? getBacktestTradeMarkers(backtest.trades)
+        : [
+            ...(walletAddress
+              ? getWalletTradeMarkers(transactions ?? [], walletAddress)
+              : []),
+            ...getBotTradeMarkers(botLogs),
+          ],
+    [backtest, transactions, walletAddress, botLogs]
+  );
 
-      const response = await get<ChartApiResponse>(
-        `/tokens/chart/${tokenAddress}?days=0`
+  // Recompute enabled overlays from the current candles
+  const renderOverlays = useCallback(() => {
+    for (const overlay of OVERLAYS) {
+      const series = overlaySeriesRef.current[overlay.value];
+      if (!series) continue;
+      series.setData(
+        computeOverlay(
+          overlay.value,
+          candlesRef.current,
+          volumesRef.current
+        ).map((point) => ({ ...point, time: point.time as UTCTimestamp }))
       );
+    }
+  }, []);
 
-      if (response.data.success) {
-        setChartData(response.data.data.candlestickData);
-      } else {
-        setError("Failed to fetch chart data");
-      }
-    } catch (err: any) {
-      console.error("Error fetching chart data:", err);
-      setError("Failed to fetch chart data");
-    } finally {
-      if (!silent) {
-        setLoading(false);
-      }
+  // Push candles, volume and overlays into the chart series
+  const renderSeries = useCallback(() => {
+    const candles = candlesRef.current;
+    mainSeriesRef.current?.setData(
+      candles.map((candle) => toMainSeriesData(candle, chartType))
+    );
+
+    const firstTime = candles.length ? candles[0].time : 0;
+    volumeSeriesRef.current?.setData(
+      Array.from(volumesRef.current.values())
+        .filter((bucket) => bucket.time >= firstTime)
+        .sort((a, b) => a.time - b.time)
+        .map(toVolumeData)
+    );
+
+    backtestSeriesRef.current?.setData(
+      (backtest?.pricePath ?? []).map((point) => ({
+        time: point.time as UTCTimestamp,
+        value: point.price,
+      }))
+    );
+
+    renderOverlays();
+  }, [chartType, backtest, renderOverlays]);
+
+  // Place trade markers on candles within the loaded range
+  const renderMarkers = useCallback(() => {
+    if (!markersPluginRef.current) return;
+    const firstTime = candlesRef.current.length
+      ? candlesRef.current[0].time
+      : Infinity;
+
+    tradeMarkersRef.current = new Map(
+      tradeMarkers.map((marker) => [marker.id, marker])
+    );
+    markersPluginRef.current.setMarkers(
+      toSeriesMarkers(tradeMarkers, getIntervalSeconds(chartInterval))
+        .filter((marker) => marker.time >= firstTime)
+        .map((marker) => ({ ...marker, time: marker.time as UTCTimestamp }))
+    );
+  }, [tradeMarkers, chartInterval]);
+
+  // Tick the last candle as trades and price updates arrive on the realtime stream
+  const applyLivePrice = (time: number, price: number, trade?: CandleTrade) => {
+    const intervalSeconds = getIntervalSeconds(chartInterval);
+    const update = applyPriceToCandles(
+      candlesRef.current,
+      time,
+      price,
+      intervalSeconds
+    );
+    if (!update) return;
+
+    candlesRef.current = update.candles;
+    mainSeriesRef.current?.update(toMainSeriesData(update.candle, chartType));
+
+    if (trade) {
+      addTradeVolume(volumesRef.current, trade, intervalSeconds);
+      const bucket = volumesRef.current.get(update.candle.time);
+      if (bucket) volumeSeriesRef.current?.update(toVolumeData(bucket));
     }
+
+    renderOverlays();
   };
 
-  // Create chart (only once)
+  // A trade may have been our bot's; pick up its log entry. Busy tokens trade
+  // constantly, so trades within the window share one refetch at its end.
+  const scheduleBotLogRefresh = () => {
+    if (botLogRefreshRef.current) return;
+    botLogRefreshRef.current = setTimeout(() => {
+      botLogRefreshRef.current = null;
+      invalidateQueries(queryKeys.botLogs(tokenAddress, BOT_LOG_LIMIT));
+    }, BOT_LOG_REFRESH_MS);
+  };
+
+  useEffect(
+    () => () => {
+      if (botLogRefreshRef.current) clearTimeout(botLogRefreshRef.current);
+      botLogRefreshRef.current = null;
+    },
+    [tokenAddress]
+  );
+
+  useRealtimeEvent(REALTIME_EVENTS.TRADE, (trade) => {
+    if (!isSameAddress(trade.tokenAddress, tokenAddress)) return;
+    applyLivePrice(parseInt(trade.timestamp), getEventPrice(trade), trade);
+    if (isAuthenticated) scheduleBotLogRefresh();
+  });
+
+  useRealtimeEvent(REALTIME_EVENTS.PRICE_TICK, (tick) => {
+    if (!isSameAddress(tick.tokenAddress, tokenAddress)) return;
+    applyLivePrice(parseInt(tick.timestamp), getEventPrice(tick));
+  });
+
+  // Create chart once its container mounts, i.e. after loading without error.
+  // Hover reads markers through tradeMarkersRef, so new data doesn't recreate it
   useEffect(() => {
     if (!chartContainerRef.current || loading) return;
 
@@ -166,23 +424,22 @@ export function TokenChart({ tokenAddress, className }: TokenChartProps) {
       },
     });
 
-    // Add candlestick series
-    const candlestickSeries = chart.addSeries(CandlestickSeries, {
-      upColor: "#10b981",
-      downColor: "#ef4444",
-      borderVisible: false,
-      wickUpColor: "#10b981",
-      wickDownColor: "#ef4444",
-      priceFormat: {
-        type: "price",
-        precision: 6,
-        minMove: 0.000001,
-      },
-    });
-
-    // Store refs
+    // Store refs (series are added by the effect below)
     chartRef.current = chart;
-    candlestickSeriesRef.current = candlestickSeries;
+
+    // Show trade details while hovering a marker
+    const handleCrosshairMove = (param: MouseEventParams<Time>) => {
+      const marker =
+        typeof param.hoveredObjectId === "string"
+          ? tradeMarkersRef.current.get(param.hoveredObjectId)
+          : undefined;
+      setHoveredMarker(
+        marker && param.point
+          ? { marker, x: param.point.x, y: param.point.y }
+          : null
+      );
+    };
+    chart.subscribeCrosshairMove(handleCrosshairMove);
 
     // Handle resize
     const handleResize = () => {
@@ -198,36 +455,157 @@ export function TokenChart({ tokenAddress, className }: TokenChartProps) {
     // Cleanup
     return () => {
       window.removeEventListener("resize", handleResize);
+      chart.unsubscribeCrosshairMove(handleCrosshairMove);
       if (chartRef.current) {
         chartRef.current.remove();
         chartRef.current = null;
-        candlestickSeriesRef.current = null;
+        mainSeriesRef.current = null;
+        volumeSeriesRef.current = null;
+        backtestSeriesRef.current = null;
+        overlaySeriesRef.current = {};
+        markersPluginRef.current = null;
       }
     };
-  }, [loading]); // Only depend on loading, not chartData
+  }, [loading, error]);
+
+  // (Re)build series when the chart type or indicator selection changes
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || loading || error) return;
+
+    // Tear down existing series and the volume pane
+    markersPluginRef.current?.detach();
+    markersPluginRef.current = null;
+    if (mainSeriesRef.current) chart.removeSeries(mainSeriesRef.current);
+    if (volumeSeriesRef.current) chart.removeSeries(volumeSeriesRef.current);
+    if (backtestSeriesRef.current) {
+      chart.removeSeries(backtestSeriesRef.current);
+    }
+    Object.values(overlaySeriesRef.current).forEach((series) => {
+      if (series) chart.removeSeries(series);
+    });
+    while (chart.panes().length > 1) {
+      chart.removePane(chart.panes().length - 1);
+    }
+    overlaySeriesRef.current = {};
+    volumeSeriesRef.current = null;
+    backtestSeriesRef.current = null;
+
+    // Main price series
+    if (chartType === "line") {
+      mainSeriesRef.current = chart.addSeries(LineSeries, {
+        color: "#a855f7",
+        lineWidth: 2,
+        priceFormat: PRICE_FORMAT,
+      });
+    } else if (chartType === "area") {
+      mainSeriesRef.current = chart.addSeries(AreaSeries, {
+        lineColor: "#a855f7",
+        topColor: "rgba(168, 85, 247, 0.4)",
+        bottomColor: "rgba(168, 85, 247, 0)",
+        lineWidth: 2,
+        priceFormat: PRICE_FORMAT,
+      });
+    } else {
+      mainSeriesRef.current = chart.addSeries(CandlestickSeries, {
+        upColor: "#10b981",
+        downColor: "#ef4444",
+        borderVisible: false,
+        wickUpColor: "#10b981",
+        wickDownColor: "#ef4444",
+        priceFormat: PRICE_FORMAT,
+      });
+    }
+
+    markersPluginRef.current = createSeriesMarkers(mainSeriesRef.current, []);
+
+    // Indicator overlays on the price pane
+    for (const overlay of OVERLAYS) {
+      if (!overlays[overlay.value]) continue;
+      overlaySeriesRef.current[overlay.value] = chart.addSeries(LineSeries, {
+        color: overlay.color,
+        lineWidth: 1,
+        priceLineVisible: false,
+        lastValueVisible: false,
+        crosshairMarkerVisible: false,
+        priceFormat: PRICE_FORMAT,
+      });
+    }
+
+    // Price path the simulated bot would have produced
+    if (backtest) {
+      backtestSeriesRef.current = chart.addSeries(LineSeries, {
+        color: BACKTEST_COLOR,
+        lineWidth: 2,
+        lineStyle: LineStyle.Dashed,
+        priceLineVisible: false,
+        priceFormat: PRICE_FORMAT,
+      });
+    }
+
+    // Volume histogram in its own pane below the price
+    if (showVolume) {
+      volumeSeriesRef.current = chart.addSeries(
+        HistogramSeries,
+        { priceFormat: { type: "volume" }, priceLineVisible: false },
+        1
+      );
+      const [pricePane, volumePane] = chart.panes();
+      pricePane?.setStretchFactor(3);
+      volumePane?.setStretchFactor(1);
+    }
+
+    renderSeries();
+  }, [loading, error, chartType, showVolume, overlays, backtest, renderSeries]);
 
   // Update chart data silently (without recreating chart)
   useEffect(() => {
-    if (!candlestickSeriesRef.current || !chartData.length || loading || error)
-      return;
-
-    // Convert timestamps to the format expected by lightweight-charts
-    const formattedData = chartData.map((point) => ({
-      time: point.time as any, // Cast to any to satisfy the Time type
-      open: point.open,
-      high: point.high,
-      low: point.low,
-      close: point.close,
-    }));
+    if (!chartRef.current || loading || error) return;
+
+    // Keep the live-update baseline in sync with the full dataset
+    candlesRef.current = chartData;
+    volumesRef.current = bucketTradeVolume(
+      transactions ?? [],
+      getIntervalSeconds(chartInterval)
+    );
 
     // Silently update the series data without recreating the chart
-    candlestickSeriesRef.current.setData(formattedData);
+    renderSeries();
 
-    // Fit content to show all data
-    if (chartRef.current) {
+    // Fit content to show all data, or just the backtested period
+    const pricePath = backtest?.pricePath ?? [];
+    if (pricePath.length > 1) {
+      chartRef.current.timeScale().setVisibleRange({
+        from: pricePath[0].time as UTCTimestamp,
+        to: pricePath[pricePath.length - 1].time as UTCTimestamp,
+      });
+    } else if (chartData.length) {
       chartRef.current.timeScale().fitContent();
     }
-  }, [chartData, loading, error]);
+  }, [
+    chartData,
+    chartInterval,
+    transactions,
+    backtest,
+    loading,
+    error,
+    renderSeries,
+  ]);
+
+  // Refresh markers when fills or bot logs change, and after the series are
+  // rebuilt or reloaded above
+  useEffect(() => {
+    renderMarkers();
+  }, [
+    renderMarkers,
+    chartData,
+    chartType,
+    showVolume,
+    overlays,
+    backtest,
+    loading,
+    error,
+  ]);
 
   if (loading) {
     return (
@@ -279,14 +657,127 @@ export function TokenChart({ tokenAddress, className }: TokenChartProps) {
           Token: {tokenAddress.slice(0, 8)}...{tokenAddress.slice(-6)}
         </p>
         <p className="text-xs text-muted-foreground">
-          5-minute intervals • {chartData.length} data points • Full history
+          {chartInterval} intervals • {chartData.length} data points •{" "}
+          {chartRange === "All" ? "Full history" : `Last ${chartRange}`}
+          {realtimeStatus === "open" && (
+            <span className="text-green-500"> • Live</span>
+          )}
+          {backtest && (
+            <span style={{ color: BACKTEST_COLOR }}>
+              {" "}
+              • Dashed line: simulated price
+            </span>
+          )}
         </p>
+        <div className="flex flex-wrap items-center justify-between gap-2 mt-3">
+          <div className="flex items-center gap-1">
+            {CHART_INTERVALS.map((item) => (
+              <Button
+                key={item.value}
+                size="sm"
+                variant={chartInterval === item.value ? "default" : "ghost"}
+                onClick={() => setChartInterval(item.value)}
+                className="h-7 px-2 text-xs"
+              >
+                {item.value}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            {CHART_RANGES.map((item) => (
+              <Button
+                key={item.value}
+                size="sm"
+                variant={chartRange === item.value ? "default" : "ghost"}
+                onClick={() => setChartRange(item.value)}
+                className="h-7 px-2 text-xs"
+              >
+                {item.value}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+          <div className="flex items-center gap-1">
+            {CHART_TYPES.map((item) => (
+              <Button
+                key={item.value}
+                size="sm"
+                variant={chartType === item.value ? "secondary" : "ghost"}
+                onClick={() =>
+                  setPreferences(userKey, { chartType: item.value })
+                }
+                className="h-7 px-2 text-xs"
+              >
+                {item.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              size="sm"
+              variant={showVolume ? "secondary" : "ghost"}
+              onClick={() =>
+                setPreferences(userKey, { showVolume: !showVolume })
+              }
+              className="h-7 px-2 text-xs"
+            >
+              Volume
+            </Button>
+            {OVERLAYS.map((item) => (
+              <Button
+                key={item.value}
+                size="sm"
+                variant={overlays[item.value] ? "secondary" : "ghost"}
+                onClick={() => toggleOverlay(userKey, item.value)}
+                className="h-7 px-2 text-xs"
+                style={
+                  overlays[item.value] ? { color: item.color } : undefined
+                }
+              >
+                {item.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="relative">
+        <div
+          ref={chartContainerRef}
+          className="w-full h-[400px] rounded-lg border"
+          style={{ minHeight: "400px" }}
+        />
+        {hoveredMarker && (
+          <div
+            className="absolute z-10 pointer-events-none rounded-md border bg-popover px-3 py-2 text-xs shadow-md space-y-1"
+            style={{ left: hoveredMarker.x + 12, top: hoveredMarker.y + 12 }}
+          >
+            <p className="font-medium">
+              {MARKER_SOURCE_NAMES[hoveredMarker.marker.source]}{" "}
+              {hoveredMarker.marker.side === "buy" ? "bought" : "sold"}
+            </p>
+            {hoveredMarker.marker.usdtAmount !== undefined && (
+              <p>
+                Amount: ${formatMarkerNumber(hoveredMarker.marker.usdtAmount, 2)}
+                {hoveredMarker.marker.tokenAmount !== undefined &&
+                  ` (${formatMarkerNumber(
+                    hoveredMarker.marker.tokenAmount,
+                    4
+                  )} tokens)`}
+              </p>
+            )}
+            {hoveredMarker.marker.price !== undefined && (
+              <p>Price: ${hoveredMarker.marker.price.toFixed(8)}</p>
+            )}
+            {hoveredMarker.marker.transactionHash && (
+              <p className="font-mono text-muted-foreground">
+                Tx: {hoveredMarker.marker.transactionHash.slice(0, 10)}...
+                {hoveredMarker.marker.transactionHash.slice(-8)}
+              </p>
+            )}
+          </div>
+        )}
       </div>
-      <div
-        ref={chartContainerRef}
-        className="w-full h-[400px] rounded-lg border"
-        style={{ minHeight: "400px" }}
-      />
     </Card>
   );
 }
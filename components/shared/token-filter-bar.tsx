@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, SlidersHorizontal, X } from "lucide-react";
+import {
+  ANY_AGE,
+  countActiveFilters,
+  type TokenFilterForm,
+} from "@/hooks/useTokenList";
+import { cn } from "@/lib/utils";
+
+interface TokenFilterBarProps {
+  form: TokenFilterForm;
+  onChange: (changes: Partial<TokenFilterForm>) => void;
+  onReset: () => void;
+  canFilterByWallet: boolean; // "Created by me" / "I hold" need a wallet
+  className?: string;
+}
+
+const HOUR_SECONDS = 60 * 60;
+
+const TOKEN_AGES = [
+  { value: ANY_AGE, label: "Any age" },
+  { value: String(HOUR_SECONDS), label: "Last hour" },
+  { value: String(24 * HOUR_SECONDS), label: "Last 24 hours" },
+  { value: String(7 * 24 * HOUR_SECONDS), label: "Last 7 days" },
+  { value: String(30 * 24 * HOUR_SECONDS), label: "Last 30 days" },
+];
+
+// Search box, creation age and the expandable range / wallet filters shared by
+// the launchpad and trade token lists
+export function TokenFilterBar({
+  form,
+  onChange,
+  onReset,
+  canFilterByWallet,
+  className,
+}: TokenFilterBarProps) {
+  const [showFilters, setShowFilters] = useState(false);
+  const activeFilters = countActiveFilters(form);
+
+  const rangeInput = (key: keyof TokenFilterForm, placeholder: string) => (
+    <Input
+      type="number"
+      min="0"
+      step="any"
+      placeholder={placeholder}
+      value={form[key] as string}
+      onChange={(e) => onChange({ [key]: e.target.value })}
+      className="w-28"
+    />
+  );
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={form.search}
+            onChange={(e) => onChange({ search: e.target.value })}
+            placeholder="Search by name, symbol or address"
+            className="pl-9"
+          />
+        </div>
+        <Select
+          value={form.maxAge}
+          onValueChange={(maxAge) => onChange({ maxAge })}
+        >
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TOKEN_AGES.map((age) => (
+              <SelectItem key={age.value} value={age.value}>
+                {age.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant={showFilters ? "secondary" : "outline"}
+          onClick={() => setShowFilters((open) => !open)}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          Filters{activeFilters > 0 && ` (${activeFilters})`}
+        </Button>
+        {(activeFilters > 0 || form.search) && (
+          <Button variant="ghost" onClick={onReset}>
+            <X className="h-4 w-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="flex flex-wrap items-end gap-6 rounded-lg border p-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Market cap (USDT)</label>
+            <div className="flex items-center gap-2">
+              {rangeInput("minMarketCap", "Min")}
+              <span className="text-muted-foreground">–</span>
+              {rangeInput("maxMarketCap", "Max")}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">24h volume (USDT)</label>
+            <div className="flex items-center gap-2">
+              {rangeInput("minVolume", "Min")}
+              <span className="text-muted-foreground">–</span>
+              {rangeInput("maxVolume", "Max")}
+            </div>
+          </div>
+          {canFilterByWallet && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant={form.createdByMe ? "default" : "outline"}
+                onClick={() => onChange({ createdByMe: !form.createdByMe })}
+                aria-pressed={form.createdByMe}
+              >
+                Created by me
+              </Button>
+              <Button
+                size="sm"
+                variant={form.iHold ? "default" : "outline"}
+                onClick={() => onChange({ iHold: !form.iHold })}
+                aria-pressed={form.iHold}
+              >
+                I hold
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
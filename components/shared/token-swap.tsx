@@ -1,48 +1,197 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useCallback, useState, useEffect } from "react";
 import { Card } from "../ui/card";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
-import { ArrowUpDown, User } from "lucide-react";
-import { formatUnits } from "viem";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  AlertTriangle,
+  ArrowUpDown,
+  CheckCircle2,
+  Circle,
+  Loader2,
+  Server,
+  User,
+  Wallet,
+  XCircle,
+} from "lucide-react";
+import { formatUnits, parseUnits, type Address } from "viem";
 import { useUserStore } from "@/stores/userStore";
-import { useApi } from "@/hooks/useApi";
+import { useApiClient } from "@/hooks/useApiClient";
 import { useBalances } from "@/hooks/useBalances";
 import { toast } from "sonner";
 import { chatEventEmitter, CHAT_EVENTS } from "@/lib/eventEmitter";
-
-interface Token {
-  name: string;
-  symbol: string;
-  image: string;
-  price?: string; // Token price in USDT (wei)
-  totalUsdtRaised?: string; // Total USDT raised via bonding curve (wei)
-  userTokenBalance?: string; // User's balance of this token (wei)
+import {
+  CURVE_DECIMALS,
+  applySlippage,
+  getSpotPrice,
+  getTradeQuote,
+  quoteBuy,
+  quoteSell,
+  toWei,
+} from "@/lib/bondingCurve";
+import { ApiError, getApiErrorMessage } from "@/lib/api/errors";
+import type { TokenDetails } from "@/lib/api/types";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { fetchQuery } from "@/lib/queryCache";
+import {
+  connectWallet,
+  getWalletErrorMessage,
+  hasWalletProvider,
+} from "@/lib/wallet";
+import {
+  executeWalletTrade,
+  getWalletBalances,
+  TxStep,
+  TxStepStatus,
+  WalletBalances,
+} from "@/lib/txBuilder";
+import { getTransactionUrl } from "@/lib/contracts";
+import { TradeExecution, useWalletStore } from "@/stores/walletStore";
+
+// Token fields the swap panel needs from `/tokens/address/:addr`
+type SwapToken = Pick<
+  TokenDetails,
+  | "name"
+  | "symbol"
+  | "image"
+  | "price"
+  | "totalUsdtRaised"
+  | "userTokenBalance"
+>;
+
+interface PriceImpactThresholds {
+  warning: number; // Percent above which the impact is highlighted
+  confirm: number; // Percent above which the trade must be confirmed
 }
 
 interface TokenSwapProps {
   tokenAddress: string;
-  token: Token | null;
+  token: SwapToken | null;
   className?: string;
   onRefresh?: () => void; // Callback to refresh token data after successful transactions
+  priceImpactThresholds?: PriceImpactThresholds;
 }
 
+const DEFAULT_PRICE_IMPACT_THRESHOLDS: PriceImpactThresholds = {
+  warning: 5,
+  confirm: 15,
+};
+
+// Slippage tolerance presets (percent)
+const SLIPPAGE_PRESETS = ["0.5", "1", "2", "5"];
+const DEFAULT_SLIPPAGE = "1";
+const MAX_SLIPPAGE = 50;
+
+// Format a wei amount for display with 6 decimal places
+const formatAmount = (amountWei: bigint) =>
+  parseFloat(formatUnits(amountWei, CURVE_DECIMALS)).toFixed(6);
+
+// Errors come from the backend (server execution) or the wallet (self-signed)
+const getTradeErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof ApiError
+    ? getApiErrorMessage(error, fallback)
+    : getWalletErrorMessage(error, fallback);
+
+// Parse a user-entered amount into wei, returning zero for invalid input
+const parseAmountWei = (amount: string) => {
+  try {
+    return parseUnits(amount.trim(), CURVE_DECIMALS);
+  } catch {
+    return BigInt(0);
+  }
+};
+
+const shortenHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-6)}`;
+
+const TX_STATUS_LABELS: Record<TxStepStatus, string> = {
+  waiting: "Waiting",
+  signing: "Confirm in wallet",
+  pending: "Pending",
+  confirmed: "Confirmed",
+  failed: "Failed",
+};
+
+// Format a USDT-per-token price (wei) for display
+const formatCurvePrice = (priceWei: bigint) =>
+  `$${parseFloat(formatUnits(priceWei, CURVE_DECIMALS)).toFixed(8)}`;
+
 export function TokenSwap({
   tokenAddress,
   token,
   className,
   onRefresh,
+  priceImpactThresholds = DEFAULT_PRICE_IMPACT_THRESHOLDS,
 }: TokenSwapProps) {
   const [fromAmount, setFromAmount] = useState("");
   const [toAmount, setToAmount] = useState("");
   const [isTokenToUsdt, setIsTokenToUsdt] = useState(false); // true = token to USDT, false = USDT to token
   const [isLoading, setIsLoading] = useState(false); // Loading state for transactions
+  const [slippage, setSlippage] = useState(DEFAULT_SLIPPAGE); // Slippage tolerance in percent
+  const [isCustomSlippage, setIsCustomSlippage] = useState(false);
+  const [isImpactConfirmOpen, setIsImpactConfirmOpen] = useState(false);
 
   // Get USDT balance from user store and balances hook
   const { usdtBalance: usdtBalanceWei, isAuthenticated } = useUserStore();
   const { fetchBalances } = useBalances();
 
+  // Per-trade choice between backend execution and signing with a browser wallet
+  const {
+    connectedAddress,
+    preferredExecution,
+    setConnectedAddress,
+    setPreferredExecution,
+  } = useWalletStore();
+  const [execution, setExecution] =
+    useState<TradeExecution>(preferredExecution);
+  const [hasWallet, setHasWallet] = useState(false);
+  const [txSteps, setTxSteps] = useState<TxStep[]>([]); // Self-signed trade progress
+  useEffect(() => {
+    setHasWallet(hasWalletProvider());
+  }, []);
+  const tradeExecution: TradeExecution =
+    hasWallet && connectedAddress ? execution : "server";
+
+  // Self-signed trades spend from the browser wallet, which need not be the
+  // signed-in account's wallet, so that mode shows its on-chain balances
+  const [walletBalances, setWalletBalances] = useState<WalletBalances | null>(
+    null
+  );
+  const loadWalletBalances = useCallback(async () => {
+    if (!connectedAddress) return;
+    try {
+      setWalletBalances(
+        await getWalletBalances(
+          connectedAddress as Address,
+          tokenAddress as Address
+        )
+      );
+    } catch (error) {
+      console.error("Error fetching wallet balances:", error);
+      setWalletBalances(null);
+    }
+  }, [connectedAddress, tokenAddress]);
+  useEffect(() => {
+    setWalletBalances(null);
+    if (tradeExecution === "wallet") loadWalletBalances();
+  }, [tradeExecution, loadWalletBalances]);
+  const usdtBalanceSourceWei =
+    tradeExecution === "wallet"
+      ? walletBalances?.usdt.toString()
+      : usdtBalanceWei;
+  const tokenBalanceSourceWei =
+    tradeExecution === "wallet"
+      ? walletBalances?.token.toString()
+      : token?.userTokenBalance;
+
   // Debug log when token prop changes
   useEffect(() => {
     console.log("🔄 [TokenSwap] Token prop updated:", {
@@ -86,13 +235,15 @@ export function TokenSwap({
   }, [tokenAddress, onRefresh, fetchBalances]);
 
   // API hook for making requests
-  const { post } = useApi();
+  const api = useApiClient();
 
   // Format USDT balance from wei to readable format
   const formatUsdtBalance = () => {
-    if (!usdtBalanceWei || usdtBalanceWei === "0") return "0.00";
+    if (!usdtBalanceSourceWei || usdtBalanceSourceWei === "0") return "0.00";
     try {
-      const balance = parseFloat(formatUnits(BigInt(usdtBalanceWei), 18));
+      const balance = parseFloat(
+        formatUnits(BigInt(usdtBalanceSourceWei), 18)
+      );
       return balance.toFixed(2);
     } catch {
       return "0.00";
@@ -103,18 +254,18 @@ export function TokenSwap({
   const formatTokenBalance = () => {
     console.log("🔍 [TokenSwap] Formatting token balance:", {
       hasToken: !!token,
-      userTokenBalance: token?.userTokenBalance,
+      userTokenBalance: tokenBalanceSourceWei,
       tokenSymbol: token?.symbol,
       tokenName: token?.name,
     });
 
-    if (!token?.userTokenBalance || token.userTokenBalance === "0") {
+    if (!tokenBalanceSourceWei || tokenBalanceSourceWei === "0") {
       console.log("⚠️ [TokenSwap] No token balance or balance is 0");
       return "0.000";
     }
 
     try {
-      const balanceWei = BigInt(token.userTokenBalance);
+      const balanceWei = BigInt(tokenBalanceSourceWei);
       const balance = parseFloat(formatUnits(balanceWei, 18));
       const formattedBalance = balance.toFixed(3);
 
@@ -127,7 +278,7 @@ export function TokenSwap({
       return formattedBalance;
     } catch (error) {
       console.error("❌ [TokenSwap] Error formatting token balance:", {
-        userTokenBalance: token?.userTokenBalance,
+        userTokenBalance: tokenBalanceSourceWei,
         error,
       });
       return "0.000";
@@ -149,126 +300,101 @@ export function TokenSwap({
     toBalance: isTokenToUsdt ? usdtBalance : tokenBalance,
   });
 
-  // Bonding curve constants (from smart contract)
-  const VIRTUAL_USDT_RESERVE = 6000; // 6000 USDT (natural units)
-  const VIRTUAL_TOKEN_RESERVE = 1073000191; // ~1.073B tokens (natural units)
-  const BONDING_CURVE_K = VIRTUAL_USDT_RESERVE * VIRTUAL_TOKEN_RESERVE; // k = 6,438,000,006,000
+  // Total USDT raised through the bonding curve (wei)
+  const totalUsdtRaisedWei = toWei(token?.totalUsdtRaised);
+
+  // Quote the output amount (wei) for an input, optionally against fresher reserves
+  const getQuote = useCallback(
+    (amount: string, totalUsdtRaised = totalUsdtRaisedWei) => {
+      const amountInWei = parseAmountWei(amount);
+      return isTokenToUsdt
+        ? quoteSell(amountInWei, totalUsdtRaised) // Selling tokens for USDT
+        : quoteBuy(amountInWei, totalUsdtRaised); // Buying tokens with USDT
+    },
+    [isTokenToUsdt, totalUsdtRaisedWei]
+  );
 
-  // Get token price in USDT (wei)
-  const getTokenPriceInUsdt = () => {
-    if (!token?.price || token.price === "0") return BigInt(0);
-    try {
-      return BigInt(token.price);
-    } catch {
-      return BigInt(0);
+  // Calculate exchange rate and amounts using bonding curve
+  useEffect(() => {
+    if (!fromAmount || fromAmount === "" || !token?.totalUsdtRaised) {
+      setToAmount("");
+      return;
     }
-  };
-
-  const tokenPriceWei = getTokenPriceInUsdt();
-
-  // Calculate current virtual reserves from totalUsdtRaised
-  const getCurrentVirtualReserves = () => {
-    try {
-      // Get total USDT raised so far
-      const totalUsdtRaisedWei = token?.totalUsdtRaised || "0";
-      const totalUsdtRaisedNatural = Number(
-        formatUnits(BigInt(totalUsdtRaisedWei), 18)
-      );
-
-      // Virtual reserves calculation (same as smart contract)
-      const virtualUsdtNatural = VIRTUAL_USDT_RESERVE + totalUsdtRaisedNatural;
-      const virtualTokensNatural = BONDING_CURVE_K / virtualUsdtNatural;
 
-      return { virtualUsdtNatural, virtualTokensNatural };
-    } catch {
-      return {
-        virtualUsdtNatural: VIRTUAL_USDT_RESERVE,
-        virtualTokensNatural: VIRTUAL_TOKEN_RESERVE,
-      };
+    const amountOutWei = getQuote(fromAmount);
+    if (amountOutWei <= BigInt(0)) {
+      setToAmount("");
+      return;
     }
-  };
-
-  // Calculate tokens to receive for USDT input (buying tokens)
-  const calculateTokensToReceive = (usdtAmountWei: bigint) => {
-    try {
-      const { virtualUsdtNatural, virtualTokensNatural } =
-        getCurrentVirtualReserves();
-
-      // Convert USDT from wei to natural units
-      const usdtAmountNatural = Number(formatUnits(usdtAmountWei, 18));
-
-      // New virtual state after purchase
-      const newVirtualUsdtNatural = virtualUsdtNatural + usdtAmountNatural;
-      const newVirtualTokensNatural = BONDING_CURVE_K / newVirtualUsdtNatural;
 
-      // Tokens to mint in natural units
-      const tokensToMintNatural =
-        virtualTokensNatural - newVirtualTokensNatural;
+    setToAmount(formatAmount(amountOutWei));
+  }, [fromAmount, getQuote, token?.totalUsdtRaised]);
 
-      return tokensToMintNatural;
-    } catch {
-      return 0;
-    }
+  // Parse slippage tolerance, returning null when out of range
+  const getSlippagePercent = () => {
+    const value = parseFloat(slippage);
+    if (isNaN(value) || value <= 0 || value > MAX_SLIPPAGE) return null;
+    return value;
   };
 
-  // Calculate USDT to receive for token input (selling tokens)
-  const calculateUsdtToReceive = (tokenAmountNatural: number) => {
-    try {
-      const { virtualUsdtNatural, virtualTokensNatural } =
-        getCurrentVirtualReserves();
-
-      // New virtual state after selling tokens
-      const newVirtualTokensNatural = virtualTokensNatural + tokenAmountNatural;
-      const newVirtualUsdtNatural = BONDING_CURVE_K / newVirtualTokensNatural;
-
-      // USDT to return in natural units
-      const usdtToReturnNatural = virtualUsdtNatural - newVirtualUsdtNatural;
-
-      return usdtToReturnNatural;
-    } catch {
-      return 0;
-    }
+  // Minimum acceptable output (wei) after applying slippage tolerance to the quote
+  const getMinAmountOut = (quoteWei: bigint) => {
+    const slippagePercent = getSlippagePercent();
+    if (slippagePercent === null || quoteWei <= BigInt(0)) return BigInt(0);
+    return applySlippage(quoteWei, BigInt(Math.round(slippagePercent * 100)));
   };
 
-  // Calculate exchange rate and amounts using bonding curve
-  useEffect(() => {
-    if (!fromAmount || fromAmount === "" || !token?.totalUsdtRaised) {
-      setToAmount("");
-      return;
-    }
+  // Re-quote against the latest on-chain reserves right before executing
+  const fetchRefreshedQuote = async () => {
+    const refreshed = await fetchQuery(queryKeys.token(tokenAddress), () =>
+      api.getToken(tokenAddress)
+    );
+    return getQuote(fromAmount, toWei(refreshed.totalUsdtRaised));
+  };
 
-    const fromValue = parseFloat(fromAmount);
-    if (isNaN(fromValue) || fromValue <= 0) {
-      setToAmount("");
-      return;
+  // Validate slippage and check the refreshed quote against the minimum output.
+  // Returns the minimum output to send with the trade, or null if the trade should not proceed.
+  const checkSlippage = async (receiveSymbol: string) => {
+    const slippagePercent = getSlippagePercent();
+    if (slippagePercent === null) {
+      toast.error(
+        `Slippage tolerance must be greater than 0% and at most ${MAX_SLIPPAGE}%`
+      );
+      return null;
     }
 
-    let calculatedToAmount;
-    if (isTokenToUsdt) {
-      // Selling tokens for USDT
-      calculatedToAmount = calculateUsdtToReceive(fromValue);
-    } else {
-      // Buying tokens with USDT
-      const usdtAmountWei = BigInt(Math.floor(fromValue * 1e18));
-      calculatedToAmount = calculateTokensToReceive(usdtAmountWei);
+    const minAmountOut = getMinAmountOut(getQuote(fromAmount));
+    if (minAmountOut <= BigInt(0)) {
+      toast.error("Unable to quote this trade, please try again");
+      return null;
     }
 
-    setToAmount(calculatedToAmount.toFixed(6));
-  }, [fromAmount, isTokenToUsdt, token?.totalUsdtRaised]);
+    const refreshedQuote = await fetchRefreshedQuote();
+    console.log("📉 [TokenSwap] Slippage check:", {
+      slippagePercent,
+      minAmountOut: minAmountOut.toString(),
+      refreshedQuote: refreshedQuote.toString(),
+    });
 
-  // Get current price in natural units for display (calculated from virtual reserves)
-  const getCurrentPriceNatural = () => {
-    try {
-      const { virtualUsdtNatural, virtualTokensNatural } =
-        getCurrentVirtualReserves();
-      // Price = virtualUsdtNatural / virtualTokensNatural (in natural units)
-      return virtualUsdtNatural / virtualTokensNatural;
-    } catch {
-      return 0;
+    if (refreshedQuote < minAmountOut) {
+      setToAmount(formatAmount(refreshedQuote));
+      toast.error(
+        `Price moved beyond your ${slippagePercent}% slippage tolerance: you would receive ${formatAmount(
+          refreshedQuote
+        )} ${receiveSymbol}, below the minimum of ${formatAmount(
+          minAmountOut
+        )} ${receiveSymbol}. Review the new quote or increase slippage.`
+      );
+      return null;
     }
+
+    return minAmountOut;
   };
 
-  const currentPriceNatural = getCurrentPriceNatural();
+  // Current spot price in natural units for display
+  const currentPriceNatural = parseFloat(
+    formatUnits(getSpotPrice(totalUsdtRaisedWei), CURVE_DECIMALS)
+  );
 
   const exchangeRate = isTokenToUsdt
     ? `1 ${tokenSymbol} = ${currentPriceNatural.toFixed(6)} USDT`
@@ -288,9 +414,47 @@ export function TokenSwap({
   };
 
   const handleMaxClick = () => {
+    // Exact wallet balances: a rounded-up display value would overspend
+    if (tradeExecution === "wallet" && walletBalances) {
+      setFromAmount(
+        formatUnits(
+          isTokenToUsdt ? walletBalances.token : walletBalances.usdt,
+          CURVE_DECIMALS
+        )
+      );
+      return;
+    }
     setFromAmount(isTokenToUsdt ? tokenBalance : usdtBalance);
   };
 
+  // Build, sign and send the trade from the connected browser wallet
+  const sendSelfSignedTrade = (side: "buy" | "sell", minAmountOut: bigint) =>
+    executeWalletTrade(
+      {
+        account: connectedAddress as Address,
+        side,
+        tokenAddress: tokenAddress as Address,
+        amountIn: parseAmountWei(fromAmount),
+        minAmountOut,
+        tokenSymbol,
+      },
+      setTxSteps
+    );
+
+  const handleExecutionChange = async (next: TradeExecution) => {
+    if (next === "wallet" && !connectedAddress) {
+      try {
+        setConnectedAddress(await connectWallet());
+      } catch (error) {
+        console.error("Error connecting wallet:", error);
+        toast.error(getWalletErrorMessage(error, "Failed to connect wallet"));
+        return;
+      }
+    }
+    setExecution(next);
+    setPreferredExecution(next);
+  };
+
   // Buy tokens function
   const handleBuyTokens = async () => {
     if (!fromAmount || parseFloat(fromAmount) <= 0) {
@@ -299,43 +463,49 @@ export function TokenSwap({
     }
 
     setIsLoading(true);
+    setTxSteps([]);
     try {
+      const minAmountOut = await checkSlippage(tokenSymbol);
+      if (minAmountOut === null) return;
+
       console.log("🛒 Buying tokens:", {
         tokenAddress,
         usdtAmount: fromAmount,
+        minAmountOut,
       });
 
-      const response = await post("/buy-tokens", {
-        tokenAddress,
-        usdtAmount: fromAmount,
-      });
+      if (tradeExecution === "wallet") {
+        const hash = await sendSelfSignedTrade("buy", minAmountOut);
+        toast.success(`Tokens purchased: ${shortenHash(hash)}`);
+        console.log("🛒 Self-signed purchase transaction hash:", hash);
+      } else {
+        const result = await api.buyTokens({
+          tokenAddress,
+          usdtAmount: fromAmount,
+          minAmountOut: formatUnits(minAmountOut, CURVE_DECIMALS),
+        });
 
-      if (response.data.success) {
         toast.success("Tokens purchased successfully!");
-        console.log(
-          "🛒 Purchase transaction hash:",
-          response.data.data.transactionHash
-        );
-
-        // Clear form
-        setFromAmount("");
-        setToAmount("");
-
-        // Wait 1 second then refresh data
-        setTimeout(() => {
-          onRefresh?.();
-          fetchBalances(); // Refresh user balances
-          // Also emit event to refresh chart data
-          chatEventEmitter.emit(CHAT_EVENTS.REFRESH_TOKEN_DATA, {
-            tokenAddress,
-          });
-        }, 1000);
-      } else {
-        toast.error(response.data.error || "Failed to purchase tokens");
+        console.log("🛒 Purchase transaction hash:", result.transactionHash);
       }
-    } catch (error: any) {
+
+      // Clear form
+      setFromAmount("");
+      setToAmount("");
+
+      // Wait 1 second then refresh data
+      setTimeout(() => {
+        onRefresh?.();
+        fetchBalances(); // Refresh user balances
+        if (tradeExecution === "wallet") loadWalletBalances();
+        // Also emit event to refresh chart data
+        chatEventEmitter.emit(CHAT_EVENTS.REFRESH_TOKEN_DATA, {
+          tokenAddress,
+        });
+      }, 1000);
+    } catch (error) {
       console.error("🛒 Error purchasing tokens:", error);
-      toast.error(error.response?.data?.error || "Failed to purchase tokens");
+      toast.error(getTradeErrorMessage(error, "Failed to purchase tokens"));
     } finally {
       setIsLoading(false);
     }
@@ -349,50 +519,68 @@ export function TokenSwap({
     }
 
     setIsLoading(true);
+    setTxSteps([]);
     try {
+      const minAmountOut = await checkSlippage("USDT");
+      if (minAmountOut === null) return;
+
       console.log("💰 Selling tokens:", {
         tokenAddress,
         tokenAmount: fromAmount,
+        minAmountOut,
       });
 
-      const response = await post("/sell-tokens", {
-        tokenAddress,
-        tokenAmount: fromAmount,
-      });
+      if (tradeExecution === "wallet") {
+        const hash = await sendSelfSignedTrade("sell", minAmountOut);
+        toast.success(`Tokens sold: ${shortenHash(hash)}`);
+        console.log("💰 Self-signed sale transaction hash:", hash);
+      } else {
+        const result = await api.sellTokens({
+          tokenAddress,
+          tokenAmount: fromAmount,
+          minAmountOut: formatUnits(minAmountOut, CURVE_DECIMALS),
+        });
 
-      if (response.data.success) {
         toast.success("Tokens sold successfully!");
-        console.log(
-          "💰 Sale transaction hash:",
-          response.data.data.transactionHash
-        );
-
-        // Clear form
-        setFromAmount("");
-        setToAmount("");
-
-        // Wait 1 second then refresh data
-        setTimeout(() => {
-          onRefresh?.();
-          fetchBalances(); // Refresh user balances
-          // Also emit event to refresh chart data
-          chatEventEmitter.emit(CHAT_EVENTS.REFRESH_TOKEN_DATA, {
-            tokenAddress,
-          });
-        }, 1000);
-      } else {
-        toast.error(response.data.error || "Failed to sell tokens");
+        console.log("💰 Sale transaction hash:", result.transactionHash);
       }
-    } catch (error: any) {
+
+      // Clear form
+      setFromAmount("");
+      setToAmount("");
+
+      // Wait 1 second then refresh data
+      setTimeout(() => {
+        onRefresh?.();
+        fetchBalances(); // Refresh user balances
+        if (tradeExecution === "wallet") loadWalletBalances();
+        // Also emit event to refresh chart data
+        chatEventEmitter.emit(CHAT_EVENTS.REFRESH_TOKEN_DATA, {
+          tokenAddress,
+        });
+      }, 1000);
+    } catch (error) {
       console.error("💰 Error selling tokens:", error);
-      toast.error(error.response?.data?.error || "Failed to sell tokens");
+      toast.error(getTradeErrorMessage(error, "Failed to sell tokens"));
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Handle swap execution
-  const handleSwap = async () => {
+  // Price breakdown for the current input: spot before, execution and post-trade prices
+  const tradeQuote = getTradeQuote(
+    isTokenToUsdt ? "sell" : "buy",
+    parseAmountWei(fromAmount),
+    totalUsdtRaisedWei
+  );
+  const hasTradeQuote = tradeQuote.amountOut > BigInt(0);
+  const priceImpactPercent = Number(tradeQuote.priceImpactBps) / 100;
+  const isPriceImpactWarning =
+    hasTradeQuote && priceImpactPercent > priceImpactThresholds.warning;
+  const requiresImpactConfirm =
+    hasTradeQuote && priceImpactPercent > priceImpactThresholds.confirm;
+
+  const executeSwap = async () => {
     if (isTokenToUsdt) {
       await handleSellTokens();
     } else {
@@ -400,6 +588,34 @@ export function TokenSwap({
     }
   };
 
+  // Handle swap execution, asking for confirmation on high price impact
+  const handleSwap = async () => {
+    if (requiresImpactConfirm) {
+      setIsImpactConfirmOpen(true);
+      return;
+    }
+    await executeSwap();
+  };
+
+  const handleConfirmHighImpact = async () => {
+    setIsImpactConfirmOpen(false);
+    await executeSwap();
+  };
+
+  const handleSlippagePreset = (preset: string) => {
+    setSlippage(preset);
+    setIsCustomSlippage(false);
+  };
+
+  const handleCustomSlippageChange = (value: string) => {
+    setSlippage(value);
+    setIsCustomSlippage(true);
+  };
+
+  const isSlippageValid = getSlippagePercent() !== null;
+  const isHighSlippage = isSlippageValid && parseFloat(slippage) > 5;
+  const minimumReceived = getMinAmountOut(getQuote(fromAmount));
+
   const fromTokenSymbol = isTokenToUsdt ? tokenSymbol : "USDT";
   const toTokenSymbol = isTokenToUsdt ? "USDT" : tokenSymbol;
   const fromBalance = isTokenToUsdt ? tokenBalance : usdtBalance;
@@ -543,12 +759,221 @@ export function TokenSwap({
           <span className="text-sm">{exchangeRate}</span>
         </div>
 
+        {/* Price Impact Breakdown */}
+        {hasTradeQuote && (
+          <div className="space-y-1 p-3 bg-muted/50 rounded-lg text-xs">
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Spot price</span>
+              <span className="font-mono">
+                {formatCurvePrice(tradeQuote.spotPriceBefore)}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Execution price</span>
+              <span className="font-mono">
+                {formatCurvePrice(tradeQuote.effectivePrice)}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Price after trade</span>
+              <span className="font-mono">
+                {formatCurvePrice(tradeQuote.spotPriceAfter)}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Price impact</span>
+              <span
+                className={`font-mono font-medium ${
+                  requiresImpactConfirm
+                    ? "text-red-500"
+                    : isPriceImpactWarning
+                    ? "text-amber-500"
+                    : ""
+                }`}
+              >
+                {priceImpactPercent.toFixed(2)}%
+              </span>
+            </div>
+            {isPriceImpactWarning && (
+              <div
+                className={`flex items-center gap-1 pt-1 ${
+                  requiresImpactConfirm ? "text-red-500" : "text-amber-500"
+                }`}
+              >
+                <AlertTriangle className="h-3 w-3" />
+                <span>
+                  {requiresImpactConfirm
+                    ? "Very high price impact: you will be asked to confirm"
+                    : "High price impact: consider a smaller trade"}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Slippage Tolerance */}
+        <div className="space-y-2 p-3 bg-muted/50 rounded-lg">
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-muted-foreground">
+              Slippage tolerance
+            </span>
+            <span className="text-sm font-medium">
+              {isSlippageValid ? `${slippage}%` : "—"}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {SLIPPAGE_PRESETS.map((preset) => (
+              <Button
+                key={preset}
+                variant={
+                  !isCustomSlippage && slippage === preset
+                    ? "default"
+                    : "outline"
+                }
+                size="sm"
+                onClick={() => handleSlippagePreset(preset)}
+                className="h-7 px-2 text-xs"
+              >
+                {preset}%
+              </Button>
+            ))}
+            <div className="relative flex-1">
+              <Input
+                type="text"
+                inputMode="decimal"
+                value={isCustomSlippage ? slippage : ""}
+                onChange={(e) => handleCustomSlippageChange(e.target.value)}
+                className="h-7 pr-6 text-xs text-right"
+                placeholder="Custom"
+                aria-invalid={isCustomSlippage && !isSlippageValid}
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+                %
+              </span>
+            </div>
+          </div>
+          {!isSlippageValid && (
+            <p className="text-xs text-destructive">
+              Enter a slippage between 0% and {MAX_SLIPPAGE}%
+            </p>
+          )}
+          {isHighSlippage && (
+            <p className="text-xs text-amber-500">
+              High slippage tolerance: your trade may be frontrun
+            </p>
+          )}
+          {minimumReceived > BigInt(0) && (
+            <div className="flex justify-between items-center text-xs">
+              <span className="text-muted-foreground">Minimum received</span>
+              <span className="font-mono">
+                {formatAmount(minimumReceived)} {toTokenSymbol}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Execution Mode */}
+        {hasWallet && (
+          <div className="space-y-2 p-3 bg-muted/50 rounded-lg">
+            <span className="text-sm text-muted-foreground">Execute with</span>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={tradeExecution === "server" ? "default" : "outline"}
+                size="sm"
+                onClick={() => handleExecutionChange("server")}
+                className="h-8 text-xs"
+              >
+                <Server className="h-3 w-3" />
+                Server
+              </Button>
+              <Button
+                variant={tradeExecution === "wallet" ? "default" : "outline"}
+                size="sm"
+                onClick={() => handleExecutionChange("wallet")}
+                className="h-8 text-xs"
+              >
+                <Wallet className="h-3 w-3" />
+                My wallet
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {tradeExecution === "wallet" && connectedAddress
+                ? `Signed and sent from ${connectedAddress.slice(
+                    0,
+                    6
+                  )}...${connectedAddress.slice(-4)}`
+                : "Executed by the backend from your custodial wallet"}
+            </p>
+          </div>
+        )}
+
+        {/* Self-signed Transaction Lifecycle */}
+        {txSteps.length > 0 && (
+          <div className="space-y-2 p-3 bg-muted/50 rounded-lg text-xs">
+            {txSteps.map((step) => {
+              const url = step.hash && getTransactionUrl(step.hash);
+              return (
+                <div key={step.id} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      {step.status === "confirmed" ? (
+                        <CheckCircle2 className="h-3 w-3 text-green-500" />
+                      ) : step.status === "failed" ? (
+                        <XCircle className="h-3 w-3 text-red-500" />
+                      ) : step.status === "waiting" ? (
+                        <Circle className="h-3 w-3 text-muted-foreground" />
+                      ) : (
+                        <Loader2 className="h-3 w-3 animate-spin text-amber-500" />
+                      )}
+                      <span>{step.label}</span>
+                    </div>
+                    <span
+                      className={
+                        step.status === "confirmed"
+                          ? "text-green-500"
+                          : step.status === "failed"
+                          ? "text-red-500"
+                          : "text-muted-foreground"
+                      }
+                    >
+                      {TX_STATUS_LABELS[step.status]}
+                    </span>
+                  </div>
+                  {step.hash &&
+                    (url ? (
+                      <a
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block pl-5 font-mono text-muted-foreground hover:text-foreground underline"
+                      >
+                        {shortenHash(step.hash)}
+                      </a>
+                    ) : (
+                      <span className="block pl-5 font-mono text-muted-foreground">
+                        {shortenHash(step.hash)}
+                      </span>
+                    ))}
+                  {step.error && (
+                    <p className="pl-5 text-red-500">{step.error}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Swap Button */}
         <Button
           size="lg"
           className="w-full h-14 text-lg font-semibold bg-purple-600 text-white hover:bg-purple-700"
           onClick={handleSwap}
-          disabled={isLoading || !fromAmount || parseFloat(fromAmount) <= 0}
+          disabled={
+            isLoading ||
+            !fromAmount ||
+            parseFloat(fromAmount) <= 0 ||
+            !isSlippageValid
+          }
         >
           {isLoading
             ? "Processing..."
@@ -557,6 +982,53 @@ export function TokenSwap({
             : "Buy Tokens"}
         </Button>
       </div>
+
+      {/* High Price Impact Confirmation */}
+      <Dialog open={isImpactConfirmOpen} onOpenChange={setIsImpactConfirmOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-red-500">
+              <AlertTriangle className="h-5 w-5" />
+              Confirm high price impact
+            </DialogTitle>
+            <DialogDescription>
+              This trade moves the price by {priceImpactPercent.toFixed(2)}%,
+              above the {priceImpactThresholds.confirm}% safety threshold.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">You pay</span>
+              <span className="font-mono">
+                {fromAmount} {fromTokenSymbol}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">You receive</span>
+              <span className="font-mono">
+                {formatAmount(tradeQuote.amountOut)} {toTokenSymbol}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Execution price</span>
+              <span className="font-mono">
+                {formatCurvePrice(tradeQuote.effectivePrice)}
+              </span>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsImpactConfirmOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmHighImpact}>
+              Swap anyway
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
@@ -0,0 +1,42 @@
+"use client";
+
+import { Star } from "lucide-react";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import { cn } from "@/lib/utils";
+
+interface WatchlistStarProps {
+  tokenAddress: string;
+  className?: string;
+}
+
+// Star toggle that adds a token to (or removes it from) the user's watchlist
+export function WatchlistStar({ tokenAddress, className }: WatchlistStarProps) {
+  const { isWatched, toggleWatch } = useWatchlist();
+  const watched = isWatched(tokenAddress);
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // Rows and cards are clickable themselves
+        e.stopPropagation();
+        toggleWatch(tokenAddress);
+      }}
+      className={cn(
+        "rounded p-1 transition-colors hover:bg-muted/50 cursor-pointer",
+        className
+      )}
+      title={watched ? "Remove from watchlist" : "Add to watchlist"}
+      aria-pressed={watched}
+    >
+      <Star
+        className={cn(
+          "h-4 w-4",
+          watched
+            ? "fill-yellow-400 text-yellow-400"
+            : "text-muted-foreground"
+        )}
+      />
+    </button>
+  );
+}
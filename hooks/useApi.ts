@@ -1,5 +1,75 @@
 import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
-import { useCallback } from "react";
+import { useCallback, useEffect, useRef } from "react";
+import { ApiError, isCancelledError, toApiError } from "@/lib/api/errors";
+import { getAuthToken, getFreshAuthToken, recoverSession } from "@/lib/session";
+
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+export interface ApiRequestConfig extends AxiosRequestConfig {
+  retries?: number; // Retry attempts for idempotent requests (default 2)
+  cancelOnUnmount?: boolean; // Abort when the calling component unmounts (default: reads only)
+}
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+const DEFAULT_RETRIES = 2;
+const RETRY_INITIAL_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+// Sign-in routes: a 401 here is an answer, not an expired session
+const SESSIONLESS_ROUTES = [
+  "/auth/send-magic-link",
+  "/auth/verify-token",
+  "/auth/wallet/",
+];
+
+// Only transient failures are worth retrying
+const isRetryable = (error: ApiError) =>
+  error.code === "network_error" ||
+  error.code === "timeout" ||
+  error.code === "rate_limited" ||
+  error.code === "server_error";
+
+// Exponential backoff with jitter so retrying clients don't stampede
+const getRetryDelay = (attempt: number) => {
+  const base = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_INITIAL_DELAY_MS * Math.pow(2, attempt)
+  );
+  return base / 2 + Math.random() * (base / 2);
+};
+
+// Resolve after `ms`, or reject as soon as `signal` aborts
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new ApiError("cancelled", "Request was cancelled"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError("cancelled", "Request was cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+// One controller that aborts when any of `signals` does. Call `unlink` once
+// the request settles so long-lived signals don't keep its listener.
+const linkSignals = (signals: (AbortSignal | undefined)[]) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signals.forEach((signal) => {
+    if (!signal) return;
+    if (signal.aborted) abort();
+    else signal.addEventListener("abort", abort, { once: true });
+  });
+  const unlink = () =>
+    signals.forEach((signal) => signal?.removeEventListener("abort", abort));
+  return { controller, unlink };
+};
 
 // Create axios instance with base configuration
 const createApiInstance = () => {
@@ -14,7 +84,7 @@ const createApiInstance = () => {
   // Request interceptor to add auth token
   instance.interceptors.request.use(
     (config) => {
-      const token = localStorage.getItem("authToken");
+      const token = getAuthToken();
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
         console.log(
@@ -55,12 +125,7 @@ const createApiInstance = () => {
         method: error.config?.method,
       });
 
-      if (error.response?.status === 401) {
-        // Token expired or invalid, clear storage
-        console.log(`[INTERCEPTOR] 401 error, clearing auth storage`);
-        localStorage.removeItem("authToken");
-        localStorage.removeItem("userEmail");
-      }
+      // 401s are recovered (refresh or re-auth) by the request loop in useApi
       return Promise.reject(error);
     }
   );
@@ -68,53 +133,140 @@ const createApiInstance = () => {
   return instance;
 };
 
+// One shared instance for the app (interceptors read the auth token per request)
+let sharedApiInstance: ReturnType<typeof createApiInstance> | null = null;
+
+const getApiInstance = () => {
+  if (!sharedApiInstance) {
+    sharedApiInstance = createApiInstance();
+  }
+  return sharedApiInstance;
+};
+
 export const useApi = () => {
-  const apiInstance = createApiInstance();
+  const apiInstance = getApiInstance();
+
+  // Aborted on unmount so pages never handle responses after they're gone
+  const lifecycleRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    lifecycleRef.current = new AbortController();
+    return () => {
+      lifecycleRef.current?.abort();
+      lifecycleRef.current = null;
+    };
+  }, []);
 
   const request = useCallback(
-    async <T = any>(
-      method: "GET" | "POST" | "PUT" | "DELETE",
+    async <T = unknown>(
+      method: HttpMethod,
       endpoint: string,
-      data?: any,
-      config?: AxiosRequestConfig
+      data?: unknown,
+      config: ApiRequestConfig = {}
     ): Promise<AxiosResponse<T>> => {
+      const {
+        retries = DEFAULT_RETRIES,
+        cancelOnUnmount = method === "GET",
+        signal,
+        ...axiosConfig
+      } = config;
       const requestId = `api-${Date.now()}-${Math.random()
         .toString(36)
         .substr(2, 9)}`;
 
+      // Non-idempotent requests (e.g. trades) are never replayed
+      const maxAttempts = IDEMPOTENT_METHODS.includes(method) ? retries + 1 : 1;
+      const { controller, unlink } = linkSignals([
+        signal as AbortSignal | undefined,
+        cancelOnUnmount ? lifecycleRef.current?.signal : undefined,
+      ]);
+
       console.log(`[${requestId}] API Request:`, {
         method,
         endpoint,
         dataSize: data ? JSON.stringify(data).length : 0,
-        hasAuthToken: !!localStorage.getItem("authToken"),
+        hasAuthToken: !!getAuthToken(),
         baseURL: process.env.NEXT_PUBLIC_API_URL || "http://localhost:42069",
       });
 
+      let sessionRecovered = false;
+
       try {
-        const response = await apiInstance.request<T>({
-          method,
-          url: endpoint,
-          data,
-          ...config,
-        });
-
-        console.log(`[${requestId}] API Response:`, {
-          status: response.status,
-          statusText: response.statusText,
-          dataSize: response.data ? JSON.stringify(response.data).length : 0,
-          headers: response.headers,
-        });
-
-        return response;
-      } catch (error: any) {
-        console.error(`[${requestId}] API Error:`, {
-          message: error.message,
-          status: error.response?.status,
-          statusText: error.response?.statusText,
-          responseData: error.response?.data,
-          requestData: data,
-        });
-        throw error;
+        for (let attempt = 0; ; attempt++) {
+          const sentToken = await getFreshAuthToken();
+          try {
+            const response = await apiInstance.request<T>({
+              method,
+              url: endpoint,
+              data,
+              ...axiosConfig,
+              signal: controller.signal,
+            });
+
+            console.log(`[${requestId}] API Response:`, {
+              status: response.status,
+              statusText: response.statusText,
+              dataSize: response.data
+                ? JSON.stringify(response.data).length
+                : 0,
+              headers: response.headers,
+            });
+
+            return response;
+          } catch (error) {
+            const apiError = toApiError(error);
+
+            if (apiError.code === "cancelled") {
+              console.log(`[${requestId}] API Request cancelled`);
+              throw apiError;
+            }
+
+            console.error(`[${requestId}] API Error:`, {
+              code: apiError.code,
+              message: apiError.message,
+              status: apiError.status,
+              responseData: apiError.details,
+              requestData: data,
+              attempt: attempt + 1,
+            });
+
+            // Session died mid-action: refresh or wait for sign-in, then replay
+            // once. The rejected request never ran, so this is safe for POSTs.
+            if (
+              apiError.code === "unauthorized" &&
+              !sessionRecovered &&
+              !SESSIONLESS_ROUTES.some((route) => endpoint.startsWith(route))
+            ) {
+              sessionRecovered = true;
+              try {
+                await recoverSession(sentToken, controller.signal);
+              } catch (recoveryError) {
+                throw isCancelledError(recoveryError)
+                  ? recoveryError
+                  : apiError;
+              }
+              console.log(
+                `[${requestId}] Session recovered, replaying request`
+              );
+              attempt -= 1; // Not a retry
+              continue;
+            }
+
+            if (attempt + 1 >= maxAttempts || !isRetryable(apiError)) {
+              throw apiError;
+            }
+
+            const delay = getRetryDelay(attempt);
+            console.log(
+              `[${requestId}] Retrying in ${Math.round(delay)}ms (attempt ${
+                attempt + 2
+              }/${maxAttempts})`
+            );
+            await wait(delay, controller.signal);
+          }
+        }
+      } finally {
+        unlink();
       }
     },
     []
@@ -122,25 +274,25 @@ export const useApi = () => {
 
   // Convenience methods
   const get = useCallback(
-    <T = any>(endpoint: string, config?: AxiosRequestConfig) =>
+    <T = unknown>(endpoint: string, config?: ApiRequestConfig) =>
       request<T>("GET", endpoint, undefined, config),
     [request]
   );
 
   const post = useCallback(
-    <T = any>(endpoint: string, data?: any, config?: AxiosRequestConfig) =>
+    <T = unknown>(endpoint: string, data?: unknown, config?: ApiRequestConfig) =>
       request<T>("POST", endpoint, data, config),
     [request]
   );
 
   const put = useCallback(
-    <T = any>(endpoint: string, data?: any, config?: AxiosRequestConfig) =>
+    <T = unknown>(endpoint: string, data?: unknown, config?: ApiRequestConfig) =>
       request<T>("PUT", endpoint, data, config),
     [request]
   );
 
   const del = useCallback(
-    <T = any>(endpoint: string, config?: AxiosRequestConfig) =>
+    <T = unknown>(endpoint: string, config?: ApiRequestConfig) =>
       request<T>("DELETE", endpoint, undefined, config),
     [request]
   );
@@ -0,0 +1,13 @@
+import { useMemo } from "react";
+import { useApi } from "./useApi";
+import { createApiClient } from "@/lib/api/client";
+
+// Typed API client bound to the shared axios instance (auth headers, logging)
+export const useApiClient = () => {
+  const { get, post, delete: del } = useApi();
+
+  return useMemo(
+    () => createApiClient({ get, post, delete: del }),
+    [get, post, del]
+  );
+};
@@ -1,10 +1,11 @@
 import { useCallback, useEffect, useRef } from "react";
-import { useApi } from "./useApi";
+import { useApiClient } from "./useApiClient";
+import { isCancelledError } from "@/lib/api/errors";
 import { useUserStore } from "@/stores/userStore";
 import { formatUnits } from "viem";
 
 export const useBalances = () => {
-  const api = useApi();
+  const api = useApiClient();
   const {
     isAuthenticated,
     ethBalance,
@@ -24,15 +25,13 @@ export const useBalances = () => {
     fetchingRef.current = true;
     setBalancesLoading(true);
     try {
-      const response = await api.get("/auth/balances");
-
-      if (response.status === 200) {
-        const { balances, tokenBalances: responseTokenBalances } =
-          response.data;
-        setBalances(balances.eth, balances.usdt, responseTokenBalances || []);
-      }
+      const { balances, tokenBalances: responseTokenBalances } =
+        await api.getBalances();
+      setBalances(balances.eth, balances.usdt, responseTokenBalances);
     } catch (error) {
-      console.error("Error fetching balances:", error);
+      if (!isCancelledError(error)) {
+        console.error("Error fetching balances:", error);
+      }
     } finally {
       setBalancesLoading(false);
       fetchingRef.current = false;
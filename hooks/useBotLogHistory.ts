@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useApiClient } from "./useApiClient";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { fetchQuery } from "@/lib/queryCache";
+import { mergeBotLogs } from "@/lib/bots";
+import type { BotLog, BotLogFilters } from "@/lib/api/types";
+
+const PAGE_SIZE = 25;
+
+// A bot's log history loaded a page at a time for infinite scroll. Changing
+// the bot or the filters starts again from the first page. Entries written
+// while scrolling shift the pages, so repeats are dropped as pages merge.
+export const useBotLogHistory = (
+  tokenAddress: string | undefined,
+  filters: BotLogFilters
+) => {
+  const api = useApiClient();
+  const [logs, setLogs] = useState<BotLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0); // Pages loaded so far
+  const [reachedEnd, setReachedEnd] = useState(false); // Got a short page
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  // Responses for an earlier bot or filter set are dropped
+  const requestRef = useRef(0);
+  const { action, success } = filters;
+
+  const loadPage = useCallback(
+    async (nextPage: number) => {
+      if (!tokenAddress) return;
+      const request = requestRef.current;
+      const params = { action, success };
+
+      try {
+        setIsLoading(true);
+        setError(null);
+        const result = await fetchQuery(
+          queryKeys.botLogHistory(tokenAddress, params, nextPage, PAGE_SIZE),
+          () =>
+            api.getBotLogHistory(tokenAddress, {
+              ...params,
+              page: nextPage,
+              limit: PAGE_SIZE,
+            })
+        );
+        if (request !== requestRef.current) return;
+        setLogs((prev) =>
+          mergeBotLogs(nextPage === 1 ? [] : prev, result.items)
+        );
+        setTotal(result.total);
+        setPage(nextPage);
+        setReachedEnd(result.items.length < PAGE_SIZE);
+      } catch (error) {
+        if (request !== requestRef.current) return;
+        console.error("Error fetching bot log history:", error);
+        setError(error);
+      } finally {
+        if (request === requestRef.current) setIsLoading(false);
+      }
+    },
+    [api, tokenAddress, action, success]
+  );
+
+  useEffect(() => {
+    requestRef.current++;
+    setLogs([]);
+    setTotal(0);
+    setPage(0);
+    setReachedEnd(false);
+    loadPage(1);
+  }, [loadPage]);
+
+  // With repeats dropped, `logs` can stay short of `total`; a short page ends it
+  const hasMore = page === 0 || (!reachedEnd && logs.length < total);
+
+  const loadMore = useCallback(() => {
+    if (!isLoading && !error && hasMore) loadPage(page + 1);
+  }, [isLoading, error, hasMore, loadPage, page]);
+
+  return {
+    logs,
+    total,
+    hasMore,
+    isLoading,
+    error,
+    loadMore,
+    retry: () => loadPage(page + 1),
+  };
+};
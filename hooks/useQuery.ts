@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  QueryKey,
+  QueryState,
+  revalidateQuery,
+  setQueryData,
+  subscribeQuery,
+} from "@/lib/queryCache";
+
+interface UseQueryOptions {
+  enabled?: boolean; // Skip fetching until true (e.g. until signed in)
+  staleTime?: number; // Milliseconds before cached data is revalidated
+  keepPreviousData?: boolean; // Keep showing the last key's data while a new key loads
+}
+
+const DISABLED_STATE: QueryState<never> = {
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+// Read a cached API query: serves cached data immediately, dedupes in-flight
+// requests and revalidates stale data in the background.
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: UseQueryOptions = {}
+) => {
+  const { enabled = true, staleTime, keepPreviousData = false } = options;
+  const hash = hashQueryKey(key);
+
+  // Always call the latest fetcher without resubscribing on every render
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      if (!enabled) return () => {};
+      return subscribeQuery<T>(keyRef.current, {
+        fetcher: () => fetcherRef.current(),
+        staleTime,
+        listener,
+      });
+    },
+    [hash, enabled, staleTime]
+  );
+
+  const getSnapshot = useCallback(
+    (): QueryState<T> =>
+      enabled ? getQueryState<T>(keyRef.current) : DISABLED_STATE,
+    [hash, enabled]
+  );
+
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const previousDataRef = useRef<T | undefined>(undefined);
+  if (state.data !== undefined) previousDataRef.current = state.data;
+  const data =
+    state.data ?? (keepPreviousData ? previousDataRef.current : undefined);
+
+  useEffect(() => {
+    if (enabled) revalidateQuery(keyRef.current);
+  }, [hash, enabled]);
+
+  const refetch = useCallback(
+    () => fetchQuery(keyRef.current, () => fetcherRef.current()),
+    [hash]
+  );
+
+  const mutate = useCallback(
+    (updater: T | ((previous: T | undefined) => T | undefined)) =>
+      setQueryData<T>(keyRef.current, updater),
+    [hash]
+  );
+
+  return {
+    data,
+    error: state.error,
+    isLoading: enabled && data === undefined && !state.error,
+    isValidating: state.isFetching,
+    refetch,
+    mutate,
+  };
+};
@@ -0,0 +1,46 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  getRealtimeClient,
+  RealtimeEvents,
+  RealtimeEventType,
+  RealtimeStatus,
+} from "@/lib/realtime";
+
+// Subscribe to a realtime event while the component is mounted
+export const useRealtimeEvent = <K extends RealtimeEventType>(
+  type: K,
+  handler: (data: RealtimeEvents[K]) => void
+) => {
+  // Keep the latest handler without resubscribing on every render
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    const client = getRealtimeClient();
+    const listener = (data: RealtimeEvents[K]) => handlerRef.current(data);
+
+    const release = client.retain();
+    client.on(type, listener);
+
+    return () => {
+      client.off(type, listener);
+      release();
+    };
+  }, [type]);
+};
+
+// Current connection status of the realtime stream
+export const useRealtimeStatus = () => {
+  const [status, setStatus] = useState<RealtimeStatus>("idle");
+
+  useEffect(() => {
+    const client = getRealtimeClient();
+    setStatus(client.getStatus());
+    return client.onStatusChange(setStatus);
+  }, []);
+
+  return status;
+};
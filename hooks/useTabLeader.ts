@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react";
+import { requestTabLeadership } from "@/lib/tabSync";
+
+// Whether this tab currently leads `name`; only one open tab does at a time
+export const useTabLeader = (name: string) => {
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => {
+    const resign = requestTabLeadership(name, () => setIsLeader(true));
+    return () => {
+      resign();
+      setIsLeader(false);
+    };
+  }, [name]);
+
+  return isLeader;
+};
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from "react";
+import { useApiClient } from "./useApiClient";
+import { useQuery } from "./useQuery";
+import { useWatchlist } from "./useWatchlist";
+import { queryKeys } from "@/lib/api/queryKeys";
+import { useUserStore } from "@/stores/userStore";
+import type { Token, TokenSearchFilters, TokenSort } from "@/lib/api/types";
+
+export type ListFilter = "all" | "watchlist";
+
+// Filter bar state; numeric fields stay strings while they are being edited
+export interface TokenFilterForm {
+  search: string;
+  maxAge: string; // Seconds, or ANY_AGE
+  minMarketCap: string;
+  maxMarketCap: string;
+  minVolume: string;
+  maxVolume: string;
+  createdByMe: boolean;
+  iHold: boolean;
+}
+
+export const ANY_AGE = "any";
+
+export const EMPTY_TOKEN_FILTERS: TokenFilterForm = {
+  search: "",
+  maxAge: ANY_AGE,
+  minMarketCap: "",
+  maxMarketCap: "",
+  minVolume: "",
+  maxVolume: "",
+  createdByMe: false,
+  iHold: false,
+};
+
+// Filters other than the search text that differ from their defaults
+export const countActiveFilters = (form: TokenFilterForm) =>
+  (Object.keys(form) as (keyof TokenFilterForm)[]).filter(
+    (key) => key !== "search" && form[key] !== EMPTY_TOKEN_FILTERS[key]
+  ).length;
+
+const SEARCH_DEBOUNCE_MS = 300;
+const NO_TOKENS: Token[] = [];
+
+const toNumber = (value: string) => {
+  const number = parseFloat(value);
+  return isFinite(number) && number >= 0 ? number : undefined;
+};
+
+// One page of the token list, searched, filtered and sorted by the backend.
+// Changing the filters, sort or tab starts again from the first page.
+export const useTokenList = ({
+  pageSize,
+  defaultSort,
+}: {
+  pageSize: number;
+  defaultSort: TokenSort;
+}) => {
+  const api = useApiClient();
+  const { walletAddress } = useUserStore();
+  const { watchlist } = useWatchlist();
+  const [form, setForm] = useState<TokenFilterForm>(EMPTY_TOKEN_FILTERS);
+  const [search, setSearch] = useState("");
+  const [sort, setSortState] = useState<TokenSort>(defaultSort);
+  const [listFilter, setListFilterState] = useState<ListFilter>("all");
+  const [page, setPage] = useState(1);
+
+  // Only search once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(form.search.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [form.search]);
+
+  const filters: TokenSearchFilters = {
+    search: search || undefined,
+    maxAge: toNumber(form.maxAge),
+    minMarketCap: toNumber(form.minMarketCap),
+    maxMarketCap: toNumber(form.maxMarketCap),
+    minVolume: toNumber(form.minVolume),
+    maxVolume: toNumber(form.maxVolume),
+    creator: form.createdByMe && walletAddress ? walletAddress : undefined,
+    holder: form.iHold && walletAddress ? walletAddress : undefined,
+    addresses: listFilter === "watchlist" ? watchlist : undefined,
+    sort,
+  };
+
+  // An empty watchlist matches nothing, so don't ask the backend
+  const isWatchlistEmpty = listFilter === "watchlist" && !watchlist.length;
+
+  const { data, error, isLoading, isValidating, mutate } = useQuery(
+    queryKeys.tokenSearch(filters, page, pageSize),
+    () => api.searchTokens({ ...filters, page, limit: pageSize }),
+    { enabled: !isWatchlistEmpty, keepPreviousData: true }
+  );
+
+  const updateForm = (changes: Partial<TokenFilterForm>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    // Search text resets the page once debounced
+    if (Object.keys(changes).some((key) => key !== "search")) setPage(1);
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_TOKEN_FILTERS);
+    setPage(1);
+  };
+
+  const setSort = (value: TokenSort) => {
+    setSortState(value);
+    setPage(1);
+  };
+
+  const setListFilter = (value: ListFilter) => {
+    setListFilterState(value);
+    setPage(1);
+  };
+
+  // Apply a live update (e.g. a realtime trade) to the tokens on this page
+  const updateTokens = useCallback(
+    (update: (tokens: Token[]) => Token[]) =>
+      mutate((prev) => prev && { ...prev, items: update(prev.items) }),
+    [mutate]
+  );
+
+  const total = isWatchlistEmpty ? 0 : data?.total ?? 0;
+
+  return {
+    tokens: isWatchlistEmpty ? NO_TOKENS : data?.items ?? NO_TOKENS,
+    total,
+    page,
+    totalPages: Math.max(1, Math.ceil(total / pageSize)),
+    setPage,
+    form,
+    updateForm,
+    resetForm,
+    sort,
+    setSort,
+    listFilter,
+    setListFilter,
+    hasFilters: !!search || countActiveFilters(form) > 0,
+    watchlistCount: watchlist.length,
+    isWatchlistEmpty,
+    error,
+    isLoading,
+    isValidating,
+    updateTokens,
+  };
+};
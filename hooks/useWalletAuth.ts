@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useApiClient } from "./useApiClient";
+import { ApiError, getApiErrorMessage } from "@/lib/api/errors";
+import { startSession } from "@/lib/session";
+import {
+  connectWallet,
+  createSignInMessage,
+  getWalletErrorMessage,
+  hasWalletProvider,
+  signMessage,
+} from "@/lib/wallet";
+import { useWalletStore } from "@/stores/walletStore";
+
+// Sign in with a browser wallet: connect, fetch a nonce, sign the SIWE
+// message and exchange the signature for a session
+export const useWalletAuth = () => {
+  const api = useApiClient();
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  // Only known after mount: the provider is injected into `window`
+  const [hasWallet, setHasWallet] = useState(false);
+  useEffect(() => {
+    setHasWallet(hasWalletProvider());
+  }, []);
+
+  const signInWithWallet = useCallback(async () => {
+    setIsSigningIn(true);
+    try {
+      const address = await connectWallet();
+      const nonce = await api.getWalletNonce(address);
+      const message = createSignInMessage(address, nonce);
+      const signature = await signMessage(address, message);
+      const session = await api.verifyWalletSignature({ message, signature });
+
+      useWalletStore.getState().setConnectedAddress(address);
+      startSession(session, "wallet");
+      toast.success("Wallet connected. Welcome to Sei DeFAI.");
+      return true;
+    } catch (error) {
+      console.error("Error signing in with wallet:", error);
+      toast.error(
+        error instanceof ApiError
+          ? getApiErrorMessage(error, "Wallet sign-in failed")
+          : getWalletErrorMessage(error, "Wallet sign-in failed")
+      );
+      return false;
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [api]);
+
+  return { hasWallet, isSigningIn, signInWithWallet };
+};
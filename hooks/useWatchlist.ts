@@ -0,0 +1,26 @@
+import { useCallback } from "react";
+import { useUserStore } from "@/stores/userStore";
+import { useWatchlistStore } from "@/stores/watchlistStore";
+
+const NO_TOKENS: string[] = [];
+
+// The signed-in user's watchlist (or the guest one when signed out)
+export const useWatchlist = () => {
+  const { userEmail, walletAddress } = useUserStore();
+  const userKey = userEmail || walletAddress || "guest";
+  const watchlist =
+    useWatchlistStore((state) => state.watchlists[userKey]) ?? NO_TOKENS;
+  const toggleToken = useWatchlistStore((state) => state.toggleToken);
+
+  const isWatched = useCallback(
+    (tokenAddress: string) => watchlist.includes(tokenAddress.toLowerCase()),
+    [watchlist]
+  );
+
+  const toggleWatch = useCallback(
+    (tokenAddress: string) => toggleToken(userKey, tokenAddress),
+    [toggleToken, userKey]
+  );
+
+  return { watchlist, isWatched, toggleWatch };
+};
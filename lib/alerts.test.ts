@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { evaluateAlerts, type PriceAlert } from "./alerts";
+
+const TOKEN = "0x0000000000000000000000000000000000000001";
+
+let nextId = 0;
+const priceAbove = (price: number): PriceAlert => ({
+  id: `alert-${nextId++}`,
+  tokenAddress: TOKEN,
+  tokenName: "Token",
+  tokenSymbol: "TKN",
+  condition: { type: "price_above", price },
+  enabled: true,
+  createdAt: 0,
+  triggerCount: 0,
+});
+
+const sample = (price: number) => ({ tokenAddress: TOKEN, time: 0, price });
+
+describe("evaluateAlerts", () => {
+  it("fires a threshold alert when the price crosses it", () => {
+    const alert = priceAbove(1);
+    expect(evaluateAlerts([alert], sample(0.5))).toHaveLength(0);
+    expect(evaluateAlerts([alert], sample(1.5))).toHaveLength(1);
+  });
+
+  it("does not fire for an alert set past its threshold", () => {
+    const alert = priceAbove(1);
+    expect(evaluateAlerts([alert], sample(1.5))).toHaveLength(0);
+    expect(evaluateAlerts([alert], sample(2))).toHaveLength(0);
+    expect(evaluateAlerts([alert], sample(0.5))).toHaveLength(0);
+    expect(evaluateAlerts([alert], sample(1.5))).toHaveLength(1);
+  });
+
+  it("starts over when a disabled alert is re-enabled", () => {
+    const alert = priceAbove(1);
+    evaluateAlerts([alert], sample(0.5));
+    evaluateAlerts([{ ...alert, enabled: false }], sample(0.5));
+    expect(evaluateAlerts([alert], sample(1.5))).toHaveLength(0);
+  });
+});
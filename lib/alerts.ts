@@ -0,0 +1,286 @@
+import { formatUnits } from "viem";
+import type { PriceTickEvent, TradeEvent } from "@/lib/realtime";
+import type { Token } from "@/lib/api/types";
+
+// Price alert conditions and their evaluation against market samples taken
+// from the full token list and the realtime stream.
+// Threshold alerts (price / market cap) fire once when a sample crosses the
+// threshold and then disarm until re-enabled. The first sample after an alert
+// is created, re-enabled or picked up by a new leader tab only records which
+// side of the threshold the market is on, so an alert set past its level waits
+// for the next crossing. % move and large trade alerts keep firing, with % moves
+// limited to once per window.
+
+export type AlertCondition =
+  | { type: "price_above"; price: number }
+  | { type: "price_below"; price: number }
+  | { type: "percent_move"; percent: number; windowMinutes: number }
+  | { type: "market_cap_above"; marketCap: number }
+  | { type: "market_cap_below"; marketCap: number }
+  | { type: "large_trade"; usdtAmount: number };
+
+export type AlertType = AlertCondition["type"];
+
+export interface PriceAlert {
+  id: string;
+  tokenAddress: string;
+  tokenName: string;
+  tokenSymbol: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  createdAt: number; // ms
+  lastTriggeredAt?: number; // ms
+  triggerCount: number;
+}
+
+// One observation of a token's market, in natural units
+export interface MarketSample {
+  tokenAddress: string;
+  time: number; // ms
+  price?: number;
+  marketCap?: number;
+  trade?: { side: "buy" | "sell"; usdtAmount: number; id: string };
+}
+
+export interface AlertTrigger {
+  alert: PriceAlert;
+  title: string;
+  message: string;
+  disarm: boolean; // One-shot alerts are disabled once they fire
+}
+
+export const ALERT_TYPES: { value: AlertType; label: string }[] = [
+  { value: "price_above", label: "Price above" },
+  { value: "price_below", label: "Price below" },
+  { value: "percent_move", label: "% move in window" },
+  { value: "market_cap_above", label: "Market cap above" },
+  { value: "market_cap_below", label: "Market cap below" },
+  { value: "large_trade", label: "Trade larger than" },
+];
+
+const MAX_WINDOW_MS = 24 * 60 * 60 * 1000; // Longest % move window we keep
+const MAX_SEEN_TRADES = 1000;
+
+// Recent prices per token for % move alerts (in memory, in the leader tab)
+const priceHistory = new Map<string, { time: number; price: number }[]>();
+const seenTrades = new Set<string>();
+// Whether each threshold alert's last sample was past its threshold
+const thresholdSides = new Map<string, boolean>();
+
+const fromWei = (value: string | undefined) => {
+  if (!value || value === "0") return undefined;
+  try {
+    return parseFloat(formatUnits(BigInt(value), 18));
+  } catch {
+    return undefined;
+  }
+};
+
+const formatUsd = (value: number, decimals = 2) =>
+  `$${value.toLocaleString("en-US", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  })}`;
+
+export const describeCondition = (condition: AlertCondition) => {
+  switch (condition.type) {
+    case "price_above":
+      return `Price above ${formatUsd(condition.price, 6)}`;
+    case "price_below":
+      return `Price below ${formatUsd(condition.price, 6)}`;
+    case "percent_move":
+      return `Moves ${condition.percent}% within ${condition.windowMinutes}m`;
+    case "market_cap_above":
+      return `Market cap above ${formatUsd(condition.marketCap)}`;
+    case "market_cap_below":
+      return `Market cap below ${formatUsd(condition.marketCap)}`;
+    case "large_trade":
+      return `Trade over ${formatUsd(condition.usdtAmount)}`;
+  }
+};
+
+// Samples from the sources the app already has
+export const sampleFromToken = (token: Token): MarketSample => ({
+  tokenAddress: token.tokenAddress,
+  time: Date.now(),
+  price: fromWei(token.price),
+  marketCap: fromWei(token.marketCap),
+});
+
+export const sampleFromTick = (tick: PriceTickEvent): MarketSample => ({
+  tokenAddress: tick.tokenAddress,
+  time: parseInt(tick.timestamp) * 1000 || Date.now(),
+  price: fromWei(tick.price),
+  marketCap: fromWei(tick.marketCap),
+});
+
+export const sampleFromTrade = (trade: TradeEvent): MarketSample => ({
+  tokenAddress: trade.tokenAddress,
+  time: parseInt(trade.timestamp) * 1000 || Date.now(),
+  price: fromWei(trade.price),
+  marketCap: fromWei(trade.marketCap),
+  trade: {
+    side: trade.type,
+    usdtAmount:
+      fromWei(trade.type === "buy" ? trade.amountIn : trade.amountOut) ?? 0,
+    id: trade.eventId,
+  },
+});
+
+// Remember a sample's price, dropping samples older than the longest window
+const recordPrice = (sample: MarketSample) => {
+  if (sample.price === undefined) return;
+  const key = sample.tokenAddress.toLowerCase();
+  const history = (priceHistory.get(key) ?? []).filter(
+    (point) => sample.time - point.time <= MAX_WINDOW_MS
+  );
+  history.push({ time: sample.time, price: sample.price });
+  priceHistory.set(key, history);
+};
+
+const getWindowStartPrice = (tokenAddress: string, since: number) =>
+  priceHistory
+    .get(tokenAddress.toLowerCase())
+    ?.find((point) => point.time >= since)?.price;
+
+// Whether a sample is past a threshold condition's level; undefined for other
+// conditions or when the sample lacks the value
+export const isPastThreshold = (
+  condition: AlertCondition,
+  sample: MarketSample
+) => {
+  const { price, marketCap } = sample;
+  switch (condition.type) {
+    case "price_above":
+      return price === undefined ? undefined : price >= condition.price;
+    case "price_below":
+      return price === undefined ? undefined : price <= condition.price;
+    case "market_cap_above":
+      return marketCap === undefined
+        ? undefined
+        : marketCap >= condition.marketCap;
+    case "market_cap_below":
+      return marketCap === undefined
+        ? undefined
+        : marketCap <= condition.marketCap;
+    default:
+      return undefined;
+  }
+};
+
+// Record which side of its threshold the sample is on and whether it just
+// crossed over
+const hasCrossed = (alert: PriceAlert, sample: MarketSample) => {
+  const past = isPastThreshold(alert.condition, sample);
+  if (past === undefined) return false;
+  const wasPast = thresholdSides.get(alert.id);
+  thresholdSides.set(alert.id, past);
+  return past && wasPast === false;
+};
+
+const checkCondition = (
+  alert: PriceAlert,
+  sample: MarketSample
+): { title: string; message: string; disarm: boolean } | null => {
+  const { condition, tokenSymbol } = alert;
+  const { price, marketCap } = sample;
+
+  switch (condition.type) {
+    case "price_above":
+      if (price === undefined || !hasCrossed(alert, sample)) return null;
+      return {
+        title: `$${tokenSymbol} is above ${formatUsd(condition.price, 6)}`,
+        message: `Price is now ${formatUsd(price, 6)}`,
+        disarm: true,
+      };
+    case "price_below":
+      if (price === undefined || !hasCrossed(alert, sample)) return null;
+      return {
+        title: `$${tokenSymbol} is below ${formatUsd(condition.price, 6)}`,
+        message: `Price is now ${formatUsd(price, 6)}`,
+        disarm: true,
+      };
+    case "market_cap_above":
+      if (marketCap === undefined || !hasCrossed(alert, sample)) return null;
+      return {
+        title: `$${tokenSymbol} market cap passed ${formatUsd(
+          condition.marketCap
+        )}`,
+        message: `Market cap is now ${formatUsd(marketCap)}`,
+        disarm: true,
+      };
+    case "market_cap_below":
+      if (marketCap === undefined || !hasCrossed(alert, sample)) return null;
+      return {
+        title: `$${tokenSymbol} market cap fell below ${formatUsd(
+          condition.marketCap
+        )}`,
+        message: `Market cap is now ${formatUsd(marketCap)}`,
+        disarm: true,
+      };
+    case "percent_move": {
+      if (price === undefined) return null;
+      const windowMs = condition.windowMinutes * 60 * 1000;
+      const sinceLastTrigger = sample.time - (alert.lastTriggeredAt ?? 0);
+      if (sinceLastTrigger < windowMs) return null;
+      const startPrice = getWindowStartPrice(
+        alert.tokenAddress,
+        sample.time - windowMs
+      );
+      if (!startPrice) return null;
+      const change = ((price - startPrice) / startPrice) * 100;
+      if (Math.abs(change) < condition.percent) return null;
+      return {
+        title: `$${tokenSymbol} ${change > 0 ? "up" : "down"} ${Math.abs(
+          change
+        ).toFixed(2)}% in ${condition.windowMinutes}m`,
+        message: `${formatUsd(startPrice, 6)} → ${formatUsd(price, 6)}`,
+        disarm: false,
+      };
+    }
+    case "large_trade": {
+      const trade = sample.trade;
+      if (!trade || trade.usdtAmount < condition.usdtAmount) return null;
+      return {
+        title: `Large ${trade.side} on $${tokenSymbol}`,
+        message: `${formatUsd(trade.usdtAmount)} ${
+          trade.side === "buy" ? "bought" : "sold"
+        }`,
+        disarm: false,
+      };
+    }
+  }
+};
+
+// Record a sample and return the enabled alerts it triggers
+export const evaluateAlerts = (
+  alerts: PriceAlert[],
+  sample: MarketSample
+): AlertTrigger[] => {
+  // The same trade can arrive more than once (e.g. after a reconnect)
+  if (sample.trade) {
+    if (seenTrades.has(sample.trade.id)) return [];
+    if (seenTrades.size >= MAX_SEEN_TRADES) seenTrades.clear();
+    seenTrades.add(sample.trade.id);
+  }
+
+  const triggers: AlertTrigger[] = [];
+  for (const alert of alerts) {
+    if (!alert.enabled) {
+      // Start over from the next sample once it is re-enabled
+      thresholdSides.delete(alert.id);
+      continue;
+    }
+    if (
+      alert.tokenAddress.toLowerCase() !== sample.tokenAddress.toLowerCase()
+    ) {
+      continue;
+    }
+    const result = checkCondition(alert, sample);
+    if (result) triggers.push({ alert, ...result });
+  }
+
+  // Record after evaluating so a sample is never its own window baseline
+  recordPrice(sample);
+  return triggers;
+};
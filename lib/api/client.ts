@@ -0,0 +1,547 @@
+import type { useApi } from "@/hooks/useApi";
+import { ApiRequestError } from "@/lib/api/errors";
+import {
+  array,
+  boolean,
+  literal,
+  number,
+  object,
+  optional,
+  parse,
+  Schema,
+  string,
+  tagged,
+  unknown,
+  withDefault,
+} from "@/lib/api/schema";
+import type {
+  ActivityFilters,
+  AuthSession,
+  Balances,
+  Bot,
+  BotLog,
+  BotLogFilters,
+  BotStrategy,
+  BuyTokensInput,
+  ChatMessage,
+  ChatReply,
+  ChatToolCall,
+  CreateBotInput,
+  CreateTokenInput,
+  CurrentUser,
+  Page,
+  SellTokensInput,
+  SendChatMessageInput,
+  Token,
+  TokenBalance,
+  TokenChartData,
+  TokenDetails,
+  TokenHolder,
+  TokenSearchFilters,
+  TokenTransaction,
+  TransactionResult,
+  UpdateBotInput,
+  VerifyWalletSignatureInput,
+  WalletActivity,
+} from "@/lib/api/types";
+import type { Candle, ChartInterval } from "@/lib/candles";
+
+// Typed client for the backend: one function per route. Every response is
+// validated against its schema before it reaches the UI.
+
+type ApiMethods = Pick<ReturnType<typeof useApi>, "get" | "post" | "delete">;
+
+// Response schemas
+
+const tokenShape = {
+  _id: string(),
+  eventId: string(),
+  tokenAddress: string(),
+  creator: string(),
+  name: string(),
+  symbol: string(),
+  decimals: withDefault(number(), 18),
+  description: withDefault(string(), ""),
+  image: withDefault(string(), ""),
+  website: withDefault(string(), ""),
+  twitter: withDefault(string(), ""),
+  telegram: withDefault(string(), ""),
+  discord: withDefault(string(), ""),
+  timestamp: string(),
+  blockNumber: string(),
+  price: optional(string()),
+  marketCap: optional(string()),
+  totalUsdtRaised: optional(string()),
+  volume24hBuy: optional(string()),
+  volume24hSell: optional(string()),
+  volume24hTotal: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+};
+
+const tokenSchema: Schema<Token> = object<Token>(tokenShape);
+
+const tokenHolderSchema = object<TokenHolder>({
+  address: string(),
+  balance: string(),
+  percentage: number(),
+});
+
+const tokenTransactionSchema = object<TokenTransaction>({
+  type: literal("buy", "sell"),
+  wallet: string(),
+  amountIn: string(),
+  amountOut: string(),
+  timestamp: string(),
+  blockNumber: string(),
+  eventId: string(),
+  transactionHash: optional(string()),
+});
+
+const tokenDetailsSchema = object<TokenDetails>({
+  ...tokenShape,
+  userTokenBalance: optional(string()),
+  holders: optional(array(tokenHolderSchema)),
+  recentTransactions: optional(array(tokenTransactionSchema)),
+});
+
+const tokenChartSchema = object<TokenChartData>({
+  tokenAddress: string(),
+  candlestickData: array(
+    object<Candle>({
+      time: number(),
+      open: number(),
+      high: number(),
+      low: number(),
+      close: number(),
+    })
+  ),
+  interval: withDefault(string(), ""),
+});
+
+const transactionResultSchema = object<TransactionResult>({
+  transactionHash: string(),
+  tokenAddress: optional(string()),
+  message: optional(string()),
+});
+
+const botStrategySchema = tagged<BotStrategy, "type">("type", {
+  target_growth: object({
+    type: literal("target_growth"),
+    targetGrowthPerHour: number(),
+  }),
+  grid: object({
+    type: literal("grid"),
+    lowerPrice: number(),
+    upperPrice: number(),
+    levels: number(),
+    orderSize: number(),
+  }),
+  twap: object({
+    type: literal("twap"),
+    totalAmount: number(),
+    durationHours: number(),
+    slices: number(),
+  }),
+  dca: object({
+    type: literal("dca"),
+    amountPerBuy: number(),
+    intervalMinutes: number(),
+    maxPrice: optional(number()),
+  }),
+  take_profit: object({
+    type: literal("take_profit"),
+    rungs: array(object({ price: number(), sellPercent: number() })),
+  }),
+  stop_loss: object({
+    type: literal("stop_loss"),
+    stopPrice: number(),
+    sellPercent: number(),
+    trailingPercent: optional(number()),
+  }),
+});
+
+const botSchema = object<Bot>({
+  botId: string(),
+  tokenAddress: string(),
+  strategy: optional(botStrategySchema),
+  targetGrowthPerHour: withDefault(number(), 0),
+  budget: string(),
+  tradeIntervalMinutes: optional(number()),
+  isActive: boolean(),
+  totalTrades: withDefault(number(), 0),
+  totalBuyVolume: withDefault(string(), "0"),
+  totalSellVolume: withDefault(string(), "0"),
+  currentUsdtBalance: withDefault(string(), "0"),
+  currentTokenBalance: withDefault(string(), "0"),
+  lastTradeAt: optional(string()),
+  nextTradeAt: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const botLogSchema = object<BotLog>({
+  action: literal("buy", "sell", "pause", "error", "start", "stop"),
+  amount: withDefault(string(), "0"),
+  priceBefore: optional(string()),
+  priceAfter: optional(string()),
+  transactionHash: optional(string()),
+  success: boolean(),
+  errorMessage: optional(string()),
+  timestamp: string(),
+  nextTradeScheduledAt: optional(string()),
+  metadata: unknown(),
+});
+
+const chatMessageSchema = object<ChatMessage>({
+  role: literal("user", "assistant", "tool"),
+  content: withDefault(string(), ""),
+  timestamp: string(),
+  name: optional(string()),
+  tool_calls: optional(
+    array(
+      object<ChatToolCall>({
+        id: string(),
+        type: literal("function"),
+        function: object<ChatToolCall["function"]>({
+          name: string(),
+          arguments: string(),
+        }),
+      })
+    )
+  ),
+  tool_call_id: optional(string()),
+});
+
+const chatReplySchema = object<ChatReply>({
+  response: string(),
+  timestamp: optional(string()),
+});
+
+const authSessionSchema = object<AuthSession>({
+  token: string(),
+  refreshToken: optional(string()),
+  email: withDefault(string(), ""), // Empty for wallet sign-ins
+  walletAddress: string(),
+});
+
+const currentUserSchema = object<CurrentUser>({
+  email: withDefault(string(), ""),
+  walletAddress: string(),
+});
+
+const balancesSchema = object<Balances>({
+  balances: object<Balances["balances"]>({
+    eth: string(),
+    usdt: string(),
+  }),
+  tokenBalances: withDefault(
+    array(
+      object<TokenBalance>({
+        tokenAddress: string(),
+        name: string(),
+        symbol: string(),
+        balance: string(),
+        decimals: withDefault(number(), 18),
+      })
+    ),
+    []
+  ),
+});
+
+const walletActivitySchema = object<WalletActivity>({
+  id: string(),
+  type: literal("buy", "sell", "create", "bot_buy", "bot_sell"),
+  tokenAddress: string(),
+  tokenName: optional(string()),
+  tokenSymbol: optional(string()),
+  usdtAmount: optional(string()),
+  tokenAmount: optional(string()),
+  price: optional(string()),
+  transactionHash: optional(string()),
+  timestamp: string(),
+});
+
+const pageSchema = <T>(itemSchema: Schema<T>) =>
+  object<Page<T>>({
+    items: array(itemSchema),
+    total: number(),
+    page: number(),
+    limit: number(),
+  });
+
+// Query string from defined params only
+const toQueryString = (params: Record<string, string | number | undefined>) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  });
+  const text = query.toString();
+  return text ? `?${text}` : "";
+};
+
+// Response envelopes
+
+interface Envelope {
+  success?: boolean;
+  error?: unknown;
+  message?: unknown;
+  details?: unknown;
+}
+
+const envelopeSchema = object<Envelope>({
+  success: optional(boolean()),
+  error: unknown(),
+  message: unknown(),
+  details: unknown(),
+});
+
+// Throw the backend's own error when it answers `success: false`
+const checkSuccess = (route: string, body: unknown) => {
+  const envelope = parse(envelopeSchema, body, route);
+  if (envelope.success === false) {
+    const message = [envelope.error, envelope.message].find(
+      (value): value is string => typeof value === "string" && value !== ""
+    );
+    throw new ApiRequestError(
+      message || `Request failed: ${route}`,
+      envelope.details
+    );
+  }
+};
+
+// Validate a `{ success, ...fields }` response
+const unwrap = <T>(route: string, body: unknown, schema: Schema<T>) => {
+  checkSuccess(route, body);
+  return parse(schema, body, route);
+};
+
+// Validate a `{ success, data }` response and return `data`
+const unwrapData = <T>(route: string, body: unknown, schema: Schema<T>) =>
+  unwrap(route, body, object<{ data: T }>({ data: schema })).data;
+
+// `{ success, token, refreshToken, ... }` from the auth routes. Exported for the
+// session manager, which refreshes tokens outside of React.
+export const parseAuthSession = (route: string, body: unknown) =>
+  unwrap(route, body, authSessionSchema);
+
+export const createApiClient = ({ get, post, delete: del }: ApiMethods) => ({
+  // Tokens
+
+  getTokens: async () => {
+    const response = await get<unknown>("/tokens");
+    return unwrapData("GET /tokens", response.data, array(tokenSchema));
+  },
+
+  // Paginated, filtered token list for the launchpad and trade views
+  searchTokens: async (
+    params: TokenSearchFilters & { page: number; limit: number }
+  ) => {
+    const response = await get<unknown>(
+      `/tokens/search${toQueryString({
+        ...params,
+        addresses: params.addresses?.join(","),
+      })}`
+    );
+    return unwrapData(
+      "GET /tokens/search",
+      response.data,
+      pageSchema(tokenSchema)
+    );
+  },
+
+  getToken: async (tokenAddress: string) => {
+    const response = await get<unknown>(`/tokens/address/${tokenAddress}`);
+    return unwrapData(
+      "GET /tokens/address/:address",
+      response.data,
+      tokenDetailsSchema
+    );
+  },
+
+  getTokenChart: async (
+    tokenAddress: string,
+    params: { days: number; interval: ChartInterval }
+  ) => {
+    const response = await get<unknown>(
+      `/tokens/chart/${tokenAddress}?days=${params.days}&interval=${params.interval}`
+    );
+    return unwrapData(
+      "GET /tokens/chart/:address",
+      response.data,
+      tokenChartSchema
+    );
+  },
+
+  createToken: async (input: CreateTokenInput) => {
+    const response = await post<unknown>("/create-token", input);
+    return unwrapData(
+      "POST /create-token",
+      response.data,
+      transactionResultSchema
+    );
+  },
+
+  buyTokens: async (input: BuyTokensInput) => {
+    const response = await post<unknown>("/buy-tokens", input);
+    return unwrapData(
+      "POST /buy-tokens",
+      response.data,
+      transactionResultSchema
+    );
+  },
+
+  sellTokens: async (input: SellTokensInput) => {
+    const response = await post<unknown>("/sell-tokens", input);
+    return unwrapData(
+      "POST /sell-tokens",
+      response.data,
+      transactionResultSchema
+    );
+  },
+
+  // Market maker bots
+
+  getBots: async () => {
+    const response = await get<unknown>("/market-maker/bots");
+    return unwrapData("GET /market-maker/bots", response.data, array(botSchema));
+  },
+
+  getBotLogs: async (tokenAddress: string, params: { limit?: number } = {}) => {
+    const query = params.limit ? `?limit=${params.limit}` : "";
+    const response = await get<unknown>(
+      `/market-maker/logs/${tokenAddress}${query}`
+    );
+    return unwrapData(
+      "GET /market-maker/logs/:address",
+      response.data,
+      array(botLogSchema)
+    );
+  },
+
+  // One page of a bot's full log history, newest first
+  getBotLogHistory: async (
+    tokenAddress: string,
+    params: BotLogFilters & { page: number; limit: number }
+  ) => {
+    const { success, ...rest } = params;
+    const response = await get<unknown>(
+      `/market-maker/logs/${tokenAddress}/history${toQueryString({
+        ...rest,
+        success: success === undefined ? undefined : String(success),
+      })}`
+    );
+    return unwrapData(
+      "GET /market-maker/logs/:address/history",
+      response.data,
+      pageSchema(botLogSchema)
+    );
+  },
+
+  createBot: async (input: CreateBotInput) => {
+    const response = await post<unknown>("/market-maker/create", input);
+    checkSuccess("POST /market-maker/create", response.data);
+  },
+
+  updateBot: async (input: UpdateBotInput) => {
+    const response = await post<unknown>("/market-maker/update", input);
+    checkSuccess("POST /market-maker/update", response.data);
+  },
+
+  startBot: async (tokenAddress: string) => {
+    const response = await post<unknown>("/market-maker/start", {
+      tokenAddress,
+    });
+    checkSuccess("POST /market-maker/start", response.data);
+  },
+
+  stopBot: async (tokenAddress: string) => {
+    const response = await post<unknown>("/market-maker/stop", {
+      tokenAddress,
+    });
+    checkSuccess("POST /market-maker/stop", response.data);
+  },
+
+  deleteBot: async (tokenAddress: string) => {
+    const response = await del<unknown>(`/market-maker/${tokenAddress}`);
+    checkSuccess("DELETE /market-maker/:address", response.data);
+  },
+
+  // Portfolio
+
+  getPortfolioHistory: async (
+    params: ActivityFilters & { page: number; limit: number }
+  ) => {
+    const response = await get<unknown>(
+      `/portfolio/history${toQueryString({ ...params })}`
+    );
+    return unwrapData(
+      "GET /portfolio/history",
+      response.data,
+      pageSchema(walletActivitySchema)
+    );
+  },
+
+  // Chat
+
+  getChatHistory: async () => {
+    const response = await get<unknown>("/chat/history");
+    return unwrap(
+      "GET /chat/history",
+      response.data,
+      object<{ history: ChatMessage[] }>({
+        history: withDefault(array(chatMessageSchema), []),
+      })
+    ).history;
+  },
+
+  sendChatMessage: async (input: SendChatMessageInput) => {
+    const response = await post<unknown>("/chat/message", input);
+    return unwrap("POST /chat/message", response.data, chatReplySchema);
+  },
+
+  clearChatHistory: async () => {
+    const response = await del<unknown>("/chat/history");
+    checkSuccess("DELETE /chat/history", response.data);
+  },
+
+  // Auth
+
+  sendMagicLink: async (email: string) => {
+    const response = await post<unknown>("/auth/send-magic-link", { email });
+    checkSuccess("POST /auth/send-magic-link", response.data);
+  },
+
+  verifyMagicLink: async (token: string) => {
+    const response = await post<unknown>("/auth/verify-token", { token });
+    return parseAuthSession("POST /auth/verify-token", response.data);
+  },
+
+  getWalletNonce: async (address: string) => {
+    const response = await get<unknown>(
+      `/auth/wallet/nonce?address=${address}`
+    );
+    return unwrap(
+      "GET /auth/wallet/nonce",
+      response.data,
+      object<{ nonce: string }>({ nonce: string() })
+    ).nonce;
+  },
+
+  verifyWalletSignature: async (input: VerifyWalletSignatureInput) => {
+    const response = await post<unknown>("/auth/wallet/verify", input);
+    return parseAuthSession("POST /auth/wallet/verify", response.data);
+  },
+
+  getCurrentUser: async () => {
+    const response = await get<unknown>("/auth/me");
+    return unwrap("GET /auth/me", response.data, currentUserSchema);
+  },
+
+  getBalances: async () => {
+    const response = await get<unknown>("/auth/balances");
+    return unwrap("GET /auth/balances", response.data, balancesSchema);
+  },
+});
+
+export type ApiClient = ReturnType<typeof createApiClient>;
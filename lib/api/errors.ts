@@ -0,0 +1,136 @@
+import axios from "axios";
+
+// Typed errors raised by the API client. Every failure that leaves `useApi`
+// is an `ApiError`, so callers never have to dig through raw axios errors.
+
+export type ApiErrorCode =
+  | "network_error" // No response (offline, CORS, server down)
+  | "timeout"
+  | "cancelled" // Aborted, e.g. because the component unmounted
+  | "bad_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "rate_limited"
+  | "server_error"
+  | "request_failed" // The backend answered `success: false`
+  | "invalid_response" // The response didn't match its schema
+  | "unknown";
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  details?: unknown;
+  status?: number;
+  userMessage?: string; // Message worth showing as-is (e.g. from the backend)
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    details?: unknown,
+    options: { status?: number; userMessage?: string } = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.details = details;
+    this.status = options.status;
+    this.userMessage = options.userMessage;
+  }
+}
+
+// The backend answered with `success: false`
+export class ApiRequestError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super("request_failed", message, details, { userMessage: message });
+    this.name = "ApiRequestError";
+  }
+}
+
+// The response didn't match the expected schema
+export class ApiValidationError extends ApiError {
+  path: string;
+  expected: string;
+  received: string;
+  route?: string;
+
+  constructor(path: string, expected: string, received: string) {
+    super(
+      "invalid_response",
+      `Unexpected response from server (${path}: expected ${expected}, got ${received})`,
+      { path, expected, received }
+    );
+    this.name = "ApiValidationError";
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+const getStatusCode = (status: number): ApiErrorCode => {
+  if (status === 400 || status === 422) return "bad_request";
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server_error";
+  return "unknown";
+};
+
+// The backend reports failures as `{ error, details }` or `{ message }`
+const getResponseMessage = (data: unknown) => {
+  const body = data as
+    | { error?: unknown; message?: unknown; details?: unknown }
+    | undefined;
+  return [body?.error, body?.message, body?.details].find(
+    (value): value is string => typeof value === "string" && value !== ""
+  );
+};
+
+// Convert anything thrown while making a request into an `ApiError`
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isCancel(error)) {
+    return new ApiError("cancelled", "Request was cancelled");
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const { status, data } = error.response;
+      const message = getResponseMessage(data);
+      return new ApiError(
+        getStatusCode(status),
+        message || `Request failed with status ${status}`,
+        data,
+        { status, userMessage: message }
+      );
+    }
+
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new ApiError("timeout", "Request timed out", undefined, {
+        userMessage: "The server took too long to respond. Please try again.",
+      });
+    }
+
+    return new ApiError("network_error", error.message, undefined, {
+      userMessage: "Unable to reach the server. Check your connection.",
+    });
+  }
+
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return new ApiError("cancelled", "Request was cancelled");
+  }
+
+  return new ApiError(
+    "unknown",
+    error instanceof Error ? error.message : String(error)
+  );
+};
+
+// Cancelled requests aren't failures: the caller is gone and shouldn't react
+export const isCancelledError = (error: unknown) =>
+  error instanceof ApiError && error.code === "cancelled";
+
+// Best user-facing message for an error thrown by the API client
+export const getApiErrorMessage = (error: unknown, fallback: string) =>
+  toApiError(error).userMessage || fallback;
@@ -0,0 +1,80 @@
+import { chatEventEmitter, CHAT_EVENTS } from "@/lib/eventEmitter";
+import { invalidateQueries } from "@/lib/queryCache";
+import type {
+  ActivityFilters,
+  BotLogFilters,
+  TokenSearchFilters,
+} from "@/lib/api/types";
+
+// Query cache keys for API reads. Keys are hierarchical, so invalidating a
+// prefix (e.g. `["token", address]`) covers every query nested under it.
+
+export const queryKeys = {
+  tokens: () => ["tokens"] as const,
+  tokenSearch: (filters: TokenSearchFilters, page: number, limit: number) =>
+    [
+      "tokens",
+      "search",
+      filters.search,
+      filters.maxAge,
+      filters.minMarketCap,
+      filters.maxMarketCap,
+      filters.minVolume,
+      filters.maxVolume,
+      filters.creator?.toLowerCase(),
+      filters.holder?.toLowerCase(),
+      filters.addresses?.join(","),
+      filters.sort,
+      page,
+      limit,
+    ] as const,
+  token: (tokenAddress: string) =>
+    ["token", tokenAddress.toLowerCase()] as const,
+  tokenChart: (tokenAddress: string, days: number, interval: string) =>
+    ["token", tokenAddress.toLowerCase(), "chart", days, interval] as const,
+  bots: () => ["bots"] as const,
+  botLogs: (tokenAddress: string, limit?: number) =>
+    ["bots", "logs", tokenAddress.toLowerCase(), limit] as const,
+  botLogHistory: (
+    tokenAddress: string,
+    filters: BotLogFilters,
+    page: number,
+    limit: number
+  ) =>
+    [
+      "bots",
+      "logs",
+      tokenAddress.toLowerCase(),
+      "history",
+      filters.action,
+      filters.success,
+      page,
+      limit,
+    ] as const,
+  portfolio: () => ["portfolio"] as const,
+  portfolioActivity: () => ["portfolio", "activity"] as const,
+  portfolioHistory: (filters: ActivityFilters, page: number, limit: number) =>
+    [
+      "portfolio",
+      "history",
+      filters.tokenAddress?.toLowerCase(),
+      filters.type,
+      filters.from,
+      filters.to,
+      page,
+      limit,
+    ] as const,
+};
+
+// Chat actions can create tokens, trade or manage bots: invalidate exactly
+// the affected keys so mounted queries refetch themselves
+chatEventEmitter.on(CHAT_EVENTS.REFRESH_TOKENS, () => {
+  invalidateQueries(queryKeys.tokens());
+  invalidateQueries(queryKeys.bots());
+  invalidateQueries(queryKeys.portfolio());
+});
+
+chatEventEmitter.on(CHAT_EVENTS.REFRESH_TOKEN_DATA, ({ tokenAddress }) => {
+  invalidateQueries(tokenAddress ? queryKeys.token(tokenAddress) : ["token"]);
+  invalidateQueries(queryKeys.portfolio());
+});
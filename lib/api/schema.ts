@@ -0,0 +1,106 @@
+import { ApiValidationError } from "@/lib/api/errors";
+
+// Minimal runtime validators for API responses. Each schema checks an unknown
+// value and returns it typed, or throws ApiValidationError naming the field
+// that didn't match, so backend schema drift fails loudly instead of rendering
+// a blank UI.
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new ApiValidationError(path, expected, describe(value));
+};
+
+export const string = (): Schema<string> => (value, path) =>
+  typeof value === "string" ? value : fail(path, "string", value);
+
+export const number = (): Schema<number> => (value, path) =>
+  typeof value === "number" && !isNaN(value)
+    ? value
+    : fail(path, "number", value);
+
+export const boolean = (): Schema<boolean> => (value, path) =>
+  typeof value === "boolean" ? value : fail(path, "boolean", value);
+
+export const unknown = (): Schema<unknown> => (value) => value;
+
+export const literal =
+  <T extends string>(...values: T[]): Schema<T> =>
+  (value, path) =>
+    values.includes(value as T)
+      ? (value as T)
+      : fail(path, values.map((v) => `"${v}"`).join(" | "), value);
+
+// Missing or null values become undefined
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : schema(value, path);
+
+// Missing or null values become `fallback` (e.g. empty social links)
+export const withDefault =
+  <T>(schema: Schema<T>, fallback: T): Schema<T> =>
+  (value, path) =>
+    value === undefined || value === null ? fallback : schema(value, path);
+
+export const array =
+  <T>(schema: Schema<T>): Schema<T[]> =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.map((item, index) => schema(item, `${path}[${index}]`))
+      : fail(path, "array", value);
+
+// Validates the listed fields; unlisted fields are passed through untouched
+export const object =
+  <T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return fail(path, "object", value);
+    }
+
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key](source[key], `${path}.${key}`);
+    }
+    return result as T;
+  };
+
+// Tagged union: picks the member schema by the value's `key` field
+export const tagged =
+  <T extends object, K extends keyof T & string>(
+    key: K,
+    schemas: { [Tag in T[K] & string]: Schema<Extract<T, Record<K, Tag>>> }
+  ): Schema<T> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return fail(path, "object", value);
+    }
+
+    const tag = (value as Record<string, unknown>)[key];
+    const schema =
+      typeof tag === "string" && Object.hasOwnProperty.call(schemas, tag)
+        ? (schemas as Record<string, Schema<T>>)[tag]
+        : undefined;
+    if (!schema) {
+      const tags = Object.keys(schemas).map((t) => `"${t}"`);
+      return fail(`${path}.${key}`, tags.join(" | "), tag);
+    }
+    return schema(value, path);
+  };
+
+// Run a schema against a response body, tagging failures with the route
+export const parse = <T>(schema: Schema<T>, value: unknown, route: string) => {
+  try {
+    return schema(value, "response");
+  } catch (error) {
+    if (error instanceof ApiValidationError) {
+      error.route = route;
+      console.error(`[API] Unexpected response from ${route}:`, error.message);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,290 @@
+import type { Candle } from "@/lib/candles";
+
+// Shared types for backend responses and request payloads.
+// All amounts are wei strings (18 decimals) unless noted otherwise.
+
+export interface Token {
+  _id: string;
+  eventId: string;
+  tokenAddress: string;
+  creator: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  description: string;
+  image: string;
+  website: string;
+  twitter: string;
+  telegram: string;
+  discord: string;
+  timestamp: string;
+  blockNumber: string;
+  price?: string; // Token price in USDT (wei)
+  marketCap?: string; // Market cap in USDT (wei)
+  totalUsdtRaised?: string; // Total USDT raised via bonding curve (wei)
+  volume24hBuy?: string; // 24h buy volume in USDT (wei)
+  volume24hSell?: string; // 24h sell volume in USDT (wei)
+  volume24hTotal?: string; // 24h total volume in USDT (wei)
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TokenHolder {
+  address: string;
+  balance: string; // Token balance in wei
+  percentage: number; // Percentage of total supply (0-100)
+}
+
+export interface TokenTransaction {
+  type: "buy" | "sell";
+  wallet: string;
+  amountIn: string;
+  amountOut: string;
+  timestamp: string;
+  blockNumber: string;
+  eventId: string;
+  transactionHash?: string;
+}
+
+// `/tokens/address/:addr` adds per-user and activity fields to the token
+export interface TokenDetails extends Token {
+  userTokenBalance?: string; // User's balance of this token (wei)
+  holders?: TokenHolder[]; // Top 10 holders
+  recentTransactions?: TokenTransaction[]; // Recent buy/sell transactions
+}
+
+export interface TokenChartData {
+  tokenAddress: string;
+  candlestickData: Candle[];
+  interval: string;
+}
+
+export type TokenSort = "newest" | "price" | "marketCap" | "volume";
+
+// Query for `/tokens/search`. Ranges are in USDT (natural units).
+export interface TokenSearchFilters {
+  search?: string; // Matches name, symbol or address
+  maxAge?: number; // Created within the last N seconds
+  minMarketCap?: number;
+  maxMarketCap?: number;
+  minVolume?: number; // 24h total volume
+  maxVolume?: number;
+  creator?: string; // Creator wallet
+  holder?: string; // Wallet holding a non-zero balance
+  addresses?: string[]; // Restrict to these tokens (e.g. a watchlist)
+  sort?: TokenSort; // Descending; defaults to newest first
+}
+
+export interface CreateTokenInput {
+  name: string;
+  symbol: string;
+  description: string;
+  website: string;
+  twitter: string;
+  telegram: string;
+  discord: string;
+}
+
+export interface TransactionResult {
+  transactionHash: string;
+  tokenAddress?: string;
+  message?: string;
+}
+
+export interface BuyTokensInput {
+  tokenAddress: string;
+  usdtAmount: string; // Natural units
+  minAmountOut: string; // Natural units
+}
+
+export interface SellTokensInput {
+  tokenAddress: string;
+  tokenAmount: string; // Natural units
+  minAmountOut: string; // Natural units
+}
+
+// What a bot trades towards. Prices are USDT per token and amounts USDT, both
+// in natural units; percentages are 0-100.
+export type BotStrategy =
+  | { type: "target_growth"; targetGrowthPerHour: number }
+  | {
+      type: "grid"; // Buys below and sells above evenly spaced price levels
+      lowerPrice: number;
+      upperPrice: number;
+      levels: number;
+      orderSize: number; // USDT per level
+    }
+  | {
+      type: "twap"; // Accumulates a fixed amount in equal slices over time
+      totalAmount: number;
+      durationHours: number;
+      slices: number;
+    }
+  | {
+      type: "dca"; // Buys a fixed amount on a schedule
+      amountPerBuy: number;
+      intervalMinutes: number;
+      maxPrice?: number; // Skip buys above this price
+    }
+  | { type: "take_profit"; rungs: TakeProfitRung[] } // Ascending prices
+  | {
+      type: "stop_loss";
+      stopPrice: number;
+      sellPercent: number; // Share of the bot's tokens to sell
+      trailingPercent?: number; // Trail the stop below the highest price
+    };
+
+export type BotStrategyType = BotStrategy["type"];
+
+export interface TakeProfitRung {
+  price: number;
+  sellPercent: number; // Share of the bot's tokens to sell at this price
+}
+
+export interface Bot {
+  botId: string;
+  tokenAddress: string;
+  strategy?: BotStrategy; // Missing on bots created before strategies
+  targetGrowthPerHour: number; // 0 for other strategies
+  budget: string;
+  tradeIntervalMinutes?: number; // Unset: the backend's default schedule
+  isActive: boolean;
+  totalTrades: number;
+  totalBuyVolume: string;
+  totalSellVolume: string;
+  currentUsdtBalance: string;
+  currentTokenBalance: string;
+  lastTradeAt?: string;
+  nextTradeAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BotAction = "buy" | "sell" | "pause" | "error" | "start" | "stop";
+
+export interface BotLog {
+  action: BotAction;
+  amount: string; // USDT (wei)
+  priceBefore?: string;
+  priceAfter?: string;
+  transactionHash?: string;
+  success: boolean;
+  errorMessage?: string;
+  timestamp: string;
+  nextTradeScheduledAt?: string;
+  metadata?: unknown;
+}
+
+export interface BotLogFilters {
+  action?: BotAction;
+  success?: boolean;
+}
+
+export interface CreateBotInput {
+  tokenAddress: string;
+  strategy: BotStrategy;
+  targetGrowthPerHour?: number; // Percent per hour, for target growth bots
+  budget: string; // USDT (natural units)
+}
+
+// Changes to a running bot; omitted fields are left as they are. The bot is
+// updated in place, so its logs and counters are kept.
+export interface UpdateBotInput {
+  tokenAddress: string;
+  targetGrowthPerHour?: number; // Percent per hour
+  topUp?: string; // USDT (natural units) added to the budget
+  withdraw?: string; // USDT (natural units) returned from the bot's balance
+  tradeIntervalMinutes?: number | null; // null restores the default schedule
+}
+
+export interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant" | "tool";
+  content: string;
+  timestamp: string;
+  name?: string;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+export interface SendChatMessageInput {
+  message: string;
+  currentTokenAddress?: string;
+}
+
+export interface ChatReply {
+  response: string;
+  timestamp?: string;
+}
+
+export interface AuthSession {
+  token: string; // Short-lived access JWT
+  refreshToken?: string; // Rotated on every refresh
+  email: string;
+  walletAddress: string;
+}
+
+// SIWE sign-in: the signed EIP-4361 message and its signature
+export interface VerifyWalletSignatureInput {
+  message: string;
+  signature: string;
+}
+
+export interface CurrentUser {
+  email: string;
+  walletAddress: string;
+}
+
+export interface TokenBalance {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  balance: string;
+  decimals: number;
+}
+
+export interface Balances {
+  balances: {
+    eth: string;
+    usdt: string;
+  };
+  tokenBalances: TokenBalance[];
+}
+
+// Wallet activity from `/portfolio/history`
+export type ActivityType = "buy" | "sell" | "create" | "bot_buy" | "bot_sell";
+
+export interface WalletActivity {
+  id: string;
+  type: ActivityType;
+  tokenAddress: string;
+  tokenName?: string;
+  tokenSymbol?: string;
+  usdtAmount?: string; // USDT paid (buys) or received (sells)
+  tokenAmount?: string; // Tokens received (buys) or sold (sells)
+  price?: string; // USDT per token at execution
+  transactionHash?: string;
+  timestamp: string; // Unix seconds
+}
+
+export interface ActivityFilters {
+  tokenAddress?: string;
+  type?: ActivityType;
+  from?: number; // Unix seconds, inclusive
+  to?: number; // Unix seconds, inclusive
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number; // 1-based
+  limit: number;
+}
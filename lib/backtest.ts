@@ -0,0 +1,272 @@
+import { formatUnits, parseUnits } from "viem";
+import {
+  CURVE_DECIMALS,
+  getSpotPrice,
+  getUsdtRaisedForPrice,
+  quoteBuy,
+  quoteSell,
+  type TradeSide,
+} from "@/lib/bondingCurve";
+import type { Candle } from "@/lib/candles";
+import type { BotStrategy } from "@/lib/api/types";
+
+// Bot strategy backtesting against historical candles. Each candle's close
+// gives the USDT the market had raised through the curve at that time; the
+// simulated bot's net USDT is added on top, so its own trades move the price
+// the way they would have on chain. The bot acts once per candle, at its
+// close. Results are in natural units (USDT, whole tokens).
+
+export interface BacktestOptions {
+  budget: number; // USDT
+  feePerTrade: number; // USDT network fee charged on every trade
+}
+
+export interface BacktestTrade {
+  time: number; // Unix seconds
+  side: TradeSide;
+  usdtAmount: number;
+  tokenAmount: number;
+  price: number; // Effective USDT per token
+  fee: number;
+}
+
+export interface BacktestPoint {
+  time: number; // Unix seconds
+  marketPrice: number; // Historical close
+  price: number; // Close with the bot's trades applied
+  equity: number; // USDT plus tokens valued at `price`
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  pricePath: BacktestPoint[];
+  startBalance: number;
+  endUsdt: number;
+  endTokens: number;
+  endValue: number;
+  totalFees: number;
+  pnl: number;
+  pnlPercent: number;
+  maxDrawdownPercent: number;
+}
+
+const ZERO = BigInt(0);
+const PERCENT_SCALE = 10000; // Percentages to two decimals in bigint math
+
+const toWeiAmount = (amount: number) =>
+  amount > 0
+    ? parseUnits(amount.toFixed(CURVE_DECIMALS), CURVE_DECIMALS)
+    : ZERO;
+
+const fromWei = (amount: bigint) =>
+  parseFloat(formatUnits(amount, CURVE_DECIMALS));
+
+const percentOf = (amount: bigint, percent: number) =>
+  (amount * BigInt(Math.round(percent * (PERCENT_SCALE / 100)))) /
+  BigInt(PERCENT_SCALE);
+
+// Replay `candles` (oldest first) through `strategy`, starting with `budget`
+// USDT and no tokens. Sell-side strategies (take-profit, stop-loss) first
+// spend the whole budget on tokens at the first candle.
+export const runBacktest = (
+  candles: Candle[],
+  strategy: BotStrategy,
+  { budget, feePerTrade }: BacktestOptions
+): BacktestResult => {
+  const fee = toWeiAmount(feePerTrade);
+  const trades: BacktestTrade[] = [];
+  const pricePath: BacktestPoint[] = [];
+
+  let usdt = toWeiAmount(budget);
+  let tokens = ZERO;
+  let botNetUsdt = ZERO; // USDT the bot has put into the curve, net of sells
+  let marketRaised = ZERO;
+  let time = 0;
+  let totalFees = 0;
+  let peakEquity = 0;
+  let maxDrawdown = 0;
+
+  const getRaised = () => {
+    const raised = marketRaised + botNetUsdt;
+    return raised > ZERO ? raised : ZERO;
+  };
+  const getPrice = () => fromWei(getSpotPrice(getRaised()));
+
+  const record = (side: TradeSide, usdtAmount: bigint, tokenAmount: bigint) => {
+    const usdtNatural = fromWei(usdtAmount);
+    const tokenNatural = fromWei(tokenAmount);
+    totalFees += feePerTrade;
+    trades.push({
+      time,
+      side,
+      usdtAmount: usdtNatural,
+      tokenAmount: tokenNatural,
+      price: tokenNatural > 0 ? usdtNatural / tokenNatural : 0,
+      fee: feePerTrade,
+    });
+  };
+
+  // Spend up to `amount` USDT, less whatever the balance can't cover
+  const buy = (amount: bigint) => {
+    const available = usdt - fee;
+    const usdtIn = amount < available ? amount : available;
+    if (usdtIn <= ZERO) return;
+    const tokensOut = quoteBuy(usdtIn, getRaised());
+    if (tokensOut <= ZERO) return;
+    usdt -= usdtIn + fee;
+    tokens += tokensOut;
+    botNetUsdt += usdtIn;
+    record("buy", usdtIn, tokensOut);
+  };
+
+  // Sell up to `amount` tokens, skipping sales that wouldn't cover the fee
+  const sell = (amount: bigint) => {
+    const tokensIn = amount < tokens ? amount : tokens;
+    if (tokensIn <= ZERO) return;
+    const usdtOut = quoteSell(tokensIn, getRaised());
+    if (usdtOut + usdt < fee || usdtOut <= ZERO) return;
+    usdt += usdtOut - fee;
+    tokens -= tokensIn;
+    botNetUsdt -= usdtOut;
+    record("sell", usdtOut, tokensIn);
+  };
+
+  const sellUsdtWorth = (amount: number, price: number) =>
+    sell(toWeiAmount(amount / price));
+
+  const startTime = candles[0]?.time ?? 0;
+  const startPrice = candles[0]?.close ?? 0;
+
+  // Strategy state carried between candles
+  let gridLevel: number | undefined;
+  let twapSlicesDone = 0;
+  let nextDcaTime = startTime;
+  let initialTokens = ZERO;
+  const reachedRungs = new Set<number>();
+  let highPrice = 0;
+  let isStopped = false;
+
+  const step = (index: number) => {
+    const price = getPrice();
+
+    switch (strategy.type) {
+      case "target_growth": {
+        // Buy enough to lift the price to the compounded target
+        const hours = (time - startTime) / 3600;
+        const target =
+          startPrice * Math.pow(1 + strategy.targetGrowthPerHour / 100, hours);
+        if (price < target) {
+          buy(getUsdtRaisedForPrice(toWeiAmount(target)) - getRaised());
+        }
+        break;
+      }
+      case "grid": {
+        // Buy a level's order for each level crossed downwards, sell one for
+        // each crossed upwards
+        const { lowerPrice, upperPrice, levels, orderSize } = strategy;
+        const spacing = (upperPrice - lowerPrice) / (levels - 1);
+        const level = Math.min(
+          levels - 1,
+          Math.max(0, Math.floor((price - lowerPrice) / spacing))
+        );
+        if (gridLevel !== undefined && level < gridLevel) {
+          buy(toWeiAmount(orderSize * (gridLevel - level)));
+        } else if (gridLevel !== undefined && level > gridLevel) {
+          sellUsdtWorth(orderSize * (level - gridLevel), price);
+        }
+        gridLevel = level;
+        break;
+      }
+      case "twap": {
+        // Catch up on every slice that has come due since the last candle
+        const { totalAmount, durationHours, slices } = strategy;
+        const sliceSeconds = (durationHours * 3600) / slices;
+        const due = Math.min(
+          slices,
+          Math.floor((time - startTime) / sliceSeconds) + 1
+        );
+        if (due > twapSlicesDone) {
+          buy(toWeiAmount((totalAmount / slices) * (due - twapSlicesDone)));
+          twapSlicesDone = due;
+        }
+        break;
+      }
+      case "dca": {
+        // Buys skipped above the max price are not made up later
+        if (time >= nextDcaTime) {
+          if (strategy.maxPrice === undefined || price <= strategy.maxPrice) {
+            buy(toWeiAmount(strategy.amountPerBuy));
+          }
+          const intervalSeconds = strategy.intervalMinutes * 60;
+          while (nextDcaTime <= time) nextDcaTime += intervalSeconds;
+        }
+        break;
+      }
+      case "take_profit": {
+        if (index === 0) {
+          buy(usdt);
+          initialTokens = tokens;
+          break;
+        }
+        strategy.rungs.forEach((rung, rungIndex) => {
+          if (reachedRungs.has(rungIndex) || getPrice() < rung.price) return;
+          reachedRungs.add(rungIndex);
+          sell(percentOf(initialTokens, rung.sellPercent));
+        });
+        break;
+      }
+      case "stop_loss": {
+        if (index === 0) {
+          buy(usdt);
+          highPrice = getPrice();
+          break;
+        }
+        highPrice = Math.max(highPrice, price);
+        const { stopPrice, sellPercent, trailingPercent } = strategy;
+        const stop =
+          trailingPercent === undefined
+            ? stopPrice
+            : Math.max(stopPrice, highPrice * (1 - trailingPercent / 100));
+        if (!isStopped && price <= stop) {
+          isStopped = true;
+          sell(percentOf(tokens, sellPercent));
+        }
+        break;
+      }
+    }
+  };
+
+  candles.forEach((candle, index) => {
+    time = candle.time;
+    marketRaised = getUsdtRaisedForPrice(toWeiAmount(candle.close));
+    step(index);
+
+    const price = getPrice();
+    const equity = fromWei(usdt) + fromWei(tokens) * price;
+    peakEquity = Math.max(peakEquity, equity);
+    if (peakEquity > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peakEquity - equity) / peakEquity);
+    }
+    pricePath.push({ time, marketPrice: candle.close, price, equity });
+  });
+
+  const endUsdt = fromWei(usdt);
+  const endTokens = fromWei(tokens);
+  const endValue = pricePath.length
+    ? pricePath[pricePath.length - 1].equity
+    : endUsdt;
+  const pnl = endValue - budget;
+
+  return {
+    trades,
+    pricePath,
+    startBalance: budget,
+    endUsdt,
+    endTokens,
+    endValue,
+    totalFees,
+    pnl,
+    pnlPercent: budget > 0 ? (pnl / budget) * 100 : 0,
+    maxDrawdownPercent: maxDrawdown * 100,
+  };
+};
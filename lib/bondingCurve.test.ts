@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { parseUnits } from "viem";
+import {
+  applySlippage,
+  getCirculatingSupply,
+  getMarketCap,
+  getPriceImpactBps,
+  getSpotPrice,
+  getTradeQuote,
+  quoteBuy,
+  quoteSell,
+} from "./bondingCurve";
+
+const usdt = (amount: string) => parseUnits(amount, 18);
+const ZERO = BigInt(0);
+
+describe("quoteBuy", () => {
+  it("matches known vectors", () => {
+    expect(quoteBuy(usdt("100"), ZERO)).toBe(
+      BigInt("17590167065573770491803279")
+    );
+    expect(quoteBuy(usdt("1000"), usdt("5000"))).toBe(
+      BigInt("48772735954545454545454545")
+    );
+  });
+
+  it("truncates dust buys like the contract", () => {
+    expect(quoteBuy(BigInt(1), ZERO)).toBe(BigInt(178834));
+  });
+
+  it("returns zero for zero or negative input", () => {
+    expect(quoteBuy(ZERO, usdt("1000"))).toBe(ZERO);
+    expect(quoteBuy(BigInt(-1), usdt("1000"))).toBe(ZERO);
+  });
+
+  it("gives fewer tokens per USDT as the curve fills", () => {
+    expect(quoteBuy(usdt("100"), usdt("10000"))).toBeLessThan(
+      quoteBuy(usdt("100"), ZERO)
+    );
+  });
+});
+
+describe("quoteSell", () => {
+  it("matches known vectors", () => {
+    expect(quoteSell(usdt("1000000"), usdt("1000"))).toBe(
+      BigInt("7602791510814729032")
+    );
+  });
+
+  it("returns zero for zero input", () => {
+    expect(quoteSell(ZERO, usdt("1000"))).toBe(ZERO);
+  });
+
+  it("caps the output at the USDT the curve holds", () => {
+    expect(quoteSell(usdt("1000000000"), usdt("1000"))).toBe(usdt("1000"));
+    expect(quoteSell(usdt("1"), ZERO)).toBe(ZERO);
+  });
+
+  it("never returns more than was paid for a round trip", () => {
+    const raised = usdt("2500");
+    const tokens = quoteBuy(usdt("50"), raised);
+    expect(quoteSell(tokens, raised + usdt("50"))).toBeLessThanOrEqual(
+      usdt("50")
+    );
+  });
+});
+
+describe("getSpotPrice", () => {
+  it("matches known vectors", () => {
+    expect(getSpotPrice(ZERO)).toBe(BigInt("5591797699875"));
+    expect(getSpotPrice(usdt("6000"))).toBe(BigInt("22367190799502"));
+  });
+});
+
+describe("getMarketCap", () => {
+  it("is zero before anything is raised", () => {
+    expect(getCirculatingSupply(ZERO)).toBe(ZERO);
+    expect(getMarketCap(ZERO)).toBe(ZERO);
+  });
+
+  it("matches known vectors", () => {
+    expect(getCirculatingSupply(usdt("6000"))).toBe(usdt("536500095.5"));
+    expect(getMarketCap(usdt("6000"))).toBe(
+      BigInt("11999999999999544352441")
+    );
+  });
+
+  it("values an explicit supply at spot price", () => {
+    expect(getMarketCap(usdt("6000"), usdt("1"))).toBe(
+      getSpotPrice(usdt("6000"))
+    );
+  });
+});
+
+describe("getPriceImpactBps", () => {
+  it("is symmetric and truncated", () => {
+    expect(getPriceImpactBps(BigInt(10000), BigInt(10150))).toBe(BigInt(150));
+    expect(getPriceImpactBps(BigInt(10000), BigInt(9850))).toBe(BigInt(150));
+    expect(getPriceImpactBps(BigInt(3), BigInt(4))).toBe(BigInt(3333));
+  });
+
+  it("returns zero for missing prices", () => {
+    expect(getPriceImpactBps(ZERO, BigInt(100))).toBe(ZERO);
+    expect(getPriceImpactBps(BigInt(100), ZERO)).toBe(ZERO);
+  });
+
+  it("is reported for both sides of a quote", () => {
+    const buy = getTradeQuote("buy", usdt("1000"), usdt("1000"));
+    const sell = getTradeQuote("sell", buy.amountOut, usdt("2000"));
+    expect(buy.priceImpactBps).toBeGreaterThan(ZERO);
+    expect(sell.priceImpactBps).toBeGreaterThan(ZERO);
+    expect(buy.spotPriceAfter).toBeGreaterThan(buy.spotPriceBefore);
+    expect(sell.spotPriceAfter).toBeLessThan(sell.spotPriceBefore);
+  });
+
+  it("is zero for an empty quote", () => {
+    const quote = getTradeQuote("buy", ZERO, usdt("1000"));
+    expect(quote.amountOut).toBe(ZERO);
+    expect(quote.priceImpactBps).toBe(ZERO);
+    expect(quote.effectivePrice).toBe(quote.spotPriceBefore);
+  });
+});
+
+describe("applySlippage", () => {
+  const amount = BigInt(1000000);
+
+  it("leaves the amount alone at zero or negative tolerance", () => {
+    expect(applySlippage(amount, ZERO)).toBe(amount);
+    expect(applySlippage(amount, BigInt(-50))).toBe(amount);
+  });
+
+  it("applies the tolerance in basis points", () => {
+    expect(applySlippage(amount, BigInt(1))).toBe(BigInt(999900));
+    expect(applySlippage(amount, BigInt(50))).toBe(BigInt(995000));
+    expect(applySlippage(amount, BigInt(9999))).toBe(BigInt(100));
+  });
+
+  it("rounds the minimum output down", () => {
+    expect(applySlippage(BigInt(999), BigInt(50))).toBe(BigInt(994));
+  });
+
+  it("returns zero at or above 100%", () => {
+    expect(applySlippage(amount, BigInt(10000))).toBe(ZERO);
+    expect(applySlippage(amount, BigInt(20000))).toBe(ZERO);
+  });
+});
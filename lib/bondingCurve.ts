@@ -0,0 +1,175 @@
+import { parseUnits } from "viem";
+
+// Bonding curve math (constant product over virtual reserves), mirroring the
+// smart contract's integer arithmetic. All amounts are bigint wei (18 decimals)
+// and every division truncates toward zero exactly like Solidity.
+
+export const CURVE_DECIMALS = 18;
+
+const WAD = BigInt(10) ** BigInt(CURVE_DECIMALS);
+const BPS_DENOMINATOR = BigInt(10000);
+const ZERO = BigInt(0);
+
+// Bonding curve constants (from smart contract)
+export const VIRTUAL_USDT_RESERVE = parseUnits("6000", CURVE_DECIMALS); // 6000 USDT
+export const VIRTUAL_TOKEN_RESERVE = parseUnits("1073000191", CURVE_DECIMALS); // ~1.073B tokens
+export const BONDING_CURVE_K = VIRTUAL_USDT_RESERVE * VIRTUAL_TOKEN_RESERVE;
+
+export type TradeSide = "buy" | "sell";
+
+export interface VirtualReserves {
+  virtualUsdt: bigint;
+  virtualTokens: bigint;
+}
+
+export interface TradeQuote {
+  side: TradeSide;
+  amountIn: bigint;
+  amountOut: bigint;
+  spotPriceBefore: bigint; // USDT wei per whole token
+  effectivePrice: bigint; // USDT wei per whole token actually paid/received
+  spotPriceAfter: bigint; // USDT wei per whole token after the trade
+  priceImpactBps: bigint; // Always >= 0, 100 bps = 1%
+}
+
+// Parse a wei string from the API, falling back to zero for missing/invalid values
+export function toWei(value: string | undefined | null): bigint {
+  if (!value) return ZERO;
+  try {
+    return BigInt(value);
+  } catch {
+    return ZERO;
+  }
+}
+
+// Current virtual reserves given the total USDT raised through the curve
+export function getVirtualReserves(totalUsdtRaised: bigint): VirtualReserves {
+  const virtualUsdt = VIRTUAL_USDT_RESERVE + totalUsdtRaised;
+  const virtualTokens = BONDING_CURVE_K / virtualUsdt;
+  return { virtualUsdt, virtualTokens };
+}
+
+// Tokens minted for a USDT input (buying tokens)
+export function quoteBuy(usdtIn: bigint, totalUsdtRaised: bigint): bigint {
+  if (usdtIn <= ZERO) return ZERO;
+  const { virtualUsdt, virtualTokens } = getVirtualReserves(totalUsdtRaised);
+  const newVirtualTokens = BONDING_CURVE_K / (virtualUsdt + usdtIn);
+  return virtualTokens - newVirtualTokens;
+}
+
+// USDT returned for a token input (selling tokens), capped at what the curve holds
+export function quoteSell(tokensIn: bigint, totalUsdtRaised: bigint): bigint {
+  if (tokensIn <= ZERO) return ZERO;
+  const { virtualUsdt, virtualTokens } = getVirtualReserves(totalUsdtRaised);
+  const newVirtualUsdt = BONDING_CURVE_K / (virtualTokens + tokensIn);
+  const usdtOut = virtualUsdt - newVirtualUsdt;
+  return usdtOut > totalUsdtRaised ? totalUsdtRaised : usdtOut;
+}
+
+// Spot price in USDT wei per whole token
+export function getSpotPrice(totalUsdtRaised: bigint): bigint {
+  const { virtualUsdt, virtualTokens } = getVirtualReserves(totalUsdtRaised);
+  return (virtualUsdt * WAD) / virtualTokens;
+}
+
+// Integer square root (floor), by Newton's method
+function sqrt(value: bigint): bigint {
+  if (value < BigInt(2)) return value;
+  let x = value;
+  let y = (x + BigInt(1)) / BigInt(2);
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / BigInt(2);
+  }
+  return x;
+}
+
+// Total USDT raised at which the curve's spot price is `price` (USDT wei per
+// whole token), the inverse of getSpotPrice. Prices below the starting price
+// map to zero.
+export function getUsdtRaisedForPrice(price: bigint): bigint {
+  const virtualUsdt = sqrt((price * BONDING_CURVE_K) / WAD);
+  return virtualUsdt > VIRTUAL_USDT_RESERVE
+    ? virtualUsdt - VIRTUAL_USDT_RESERVE
+    : ZERO;
+}
+
+// Tokens that have left the curve so far (circulating supply)
+export function getCirculatingSupply(totalUsdtRaised: bigint): bigint {
+  const { virtualTokens } = getVirtualReserves(totalUsdtRaised);
+  return VIRTUAL_TOKEN_RESERVE - virtualTokens;
+}
+
+// Market cap in USDT wei, valuing the given supply (default: circulating) at spot price
+export function getMarketCap(
+  totalUsdtRaised: bigint,
+  supply: bigint = getCirculatingSupply(totalUsdtRaised)
+): bigint {
+  return (getSpotPrice(totalUsdtRaised) * supply) / WAD;
+}
+
+// Price impact of trading at effectivePrice relative to spotPrice, in basis points
+export function getPriceImpactBps(
+  spotPrice: bigint,
+  effectivePrice: bigint
+): bigint {
+  if (spotPrice <= ZERO || effectivePrice <= ZERO) return ZERO;
+  const diff =
+    effectivePrice > spotPrice
+      ? effectivePrice - spotPrice
+      : spotPrice - effectivePrice;
+  return (diff * BPS_DENOMINATOR) / spotPrice;
+}
+
+// Full quote for a trade: output amount plus price before, during and after
+export function getTradeQuote(
+  side: TradeSide,
+  amountIn: bigint,
+  totalUsdtRaised: bigint
+): TradeQuote {
+  const spotPriceBefore = getSpotPrice(totalUsdtRaised);
+
+  if (amountIn <= ZERO) {
+    return {
+      side,
+      amountIn,
+      amountOut: ZERO,
+      spotPriceBefore,
+      effectivePrice: spotPriceBefore,
+      spotPriceAfter: spotPriceBefore,
+      priceImpactBps: ZERO,
+    };
+  }
+
+  const amountOut =
+    side === "buy"
+      ? quoteBuy(amountIn, totalUsdtRaised)
+      : quoteSell(amountIn, totalUsdtRaised);
+
+  // USDT per token, whichever side of the trade it is on
+  const usdtAmount = side === "buy" ? amountIn : amountOut;
+  const tokenAmount = side === "buy" ? amountOut : amountIn;
+  const effectivePrice =
+    tokenAmount > ZERO ? (usdtAmount * WAD) / tokenAmount : ZERO;
+
+  const totalUsdtRaisedAfter =
+    side === "buy" ? totalUsdtRaised + amountIn : totalUsdtRaised - amountOut;
+  const spotPriceAfter = getSpotPrice(totalUsdtRaisedAfter);
+
+  return {
+    side,
+    amountIn,
+    amountOut,
+    spotPriceBefore,
+    effectivePrice,
+    spotPriceAfter,
+    priceImpactBps: getPriceImpactBps(spotPriceBefore, effectivePrice),
+  };
+}
+
+// Apply a slippage tolerance (in basis points) to a quoted output amount
+export function applySlippage(amountOut: bigint, slippageBps: bigint): bigint {
+  if (slippageBps <= ZERO) return amountOut;
+  if (slippageBps >= BPS_DENOMINATOR) return ZERO;
+  return (amountOut * (BPS_DENOMINATOR - slippageBps)) / BPS_DENOMINATOR;
+}
@@ -0,0 +1,231 @@
+import { formatUnits } from "viem";
+import { getBotStrategy } from "@/lib/bots";
+import type { Bot, BotLog } from "@/lib/api/types";
+
+// Bot performance analytics from a bot's full `/market-maker/logs` history.
+// Logs carry each trade's USDT amount and the price before and after it, so
+// token amounts and PnL are estimated at those prices. Values are in natural
+// units (USDT, whole tokens) and times are Unix seconds.
+
+export interface PnlPoint {
+  time: number;
+  pnl: number; // USDT received - spent + tokens held at `price`
+  price: number;
+}
+
+export interface TradeSizeBucket {
+  label: string;
+  buys: number;
+  sells: number;
+}
+
+export interface ErrorCount {
+  message: string;
+  count: number;
+}
+
+export interface GrowthStats {
+  startPrice: number;
+  currentPrice: number;
+  hours: number;
+  achievedPerHour: number; // Compounded percent per hour
+  targetPerHour: number;
+}
+
+export interface BotAnalytics {
+  pnlHistory: PnlPoint[];
+  pnl: number;
+  buys: number;
+  sells: number;
+  failures: number; // Failed trades and error entries
+  successRate?: number; // Percent of trade attempts, once there are any
+  errors: ErrorCount[]; // Most frequent first
+  tradeSizes: TradeSizeBucket[];
+  averageTradeSize: number;
+  growth?: GrowthStats; // Target growth bots with a priced history
+  burnRatePerHour: number; // Net USDT spent per hour over the burn window
+  burnWindowHours: number;
+  hoursUntilExhausted?: number; // Only while the bot is burning USDT
+}
+
+const HOUR_SECONDS = 60 * 60;
+const BURN_WINDOW_HOURS = 24;
+const MAX_ERRORS = 5;
+
+// Upper bounds (USDT) of the trade size histogram's buckets
+const TRADE_SIZE_EDGES = [1, 5, 10, 25, 50, 100, 250, 500, 1000, Infinity];
+
+const fromWei = (value: string | undefined) => {
+  if (!value || value === "0") return undefined;
+  try {
+    return parseFloat(formatUnits(BigInt(value), 18));
+  } catch {
+    return undefined;
+  }
+};
+
+const getLogTime = (log: BotLog) =>
+  Math.floor(new Date(log.timestamp).getTime() / 1000);
+
+const isTrade = (log: BotLog) => log.action === "buy" || log.action === "sell";
+
+const getBucketLabel = (index: number) => {
+  const min = index ? TRADE_SIZE_EDGES[index - 1] : 0;
+  const max = TRADE_SIZE_EDGES[index];
+  return max === Infinity ? `$${min}+` : `$${min}–${max}`;
+};
+
+// Trade counts per size bucket, trimmed to the buckets in use
+const bucketTradeSizes = (trades: { side: string; usdt: number }[]) => {
+  const buckets: TradeSizeBucket[] = TRADE_SIZE_EDGES.map((_, index) => ({
+    label: getBucketLabel(index),
+    buys: 0,
+    sells: 0,
+  }));
+  for (const trade of trades) {
+    const index = TRADE_SIZE_EDGES.findIndex((edge) => trade.usdt < edge);
+    if (trade.side === "buy") buckets[index].buys++;
+    else buckets[index].sells++;
+  }
+  const used = buckets.map((bucket) => bucket.buys + bucket.sells > 0);
+  const first = used.indexOf(true);
+  return first === -1 ? [] : buckets.slice(first, used.lastIndexOf(true) + 1);
+};
+
+// Analytics for `bot` from its logs, in any order. Held tokens are valued at
+// `currentPrice` when given, otherwise at the last logged price.
+export const buildBotAnalytics = (
+  bot: Bot,
+  logs: BotLog[],
+  {
+    currentPrice,
+    now = Math.floor(Date.now() / 1000),
+  }: { currentPrice?: number; now?: number } = {}
+): BotAnalytics => {
+  const sorted = logs
+    .filter((log) => !isNaN(getLogTime(log)))
+    .sort((a, b) => getLogTime(a) - getLogTime(b));
+
+  const pnlHistory: PnlPoint[] = [];
+  const trades: { side: string; usdt: number; time: number }[] = [];
+  const errorCounts = new Map<string, number>();
+  let spent = 0;
+  let received = 0;
+  let tokens = 0;
+  let failures = 0;
+  let startPrice: number | undefined;
+  let lastPrice: number | undefined;
+
+  for (const log of sorted) {
+    const priceBefore = fromWei(log.priceBefore);
+    const priceAfter = fromWei(log.priceAfter);
+    if (startPrice === undefined) startPrice = priceBefore ?? priceAfter;
+    lastPrice = priceAfter ?? priceBefore ?? lastPrice;
+
+    if (!log.success || log.action === "error") {
+      failures++;
+      const message = log.errorMessage || "Unknown error";
+      errorCounts.set(message, (errorCounts.get(message) ?? 0) + 1);
+      continue;
+    }
+    if (!isTrade(log)) continue;
+
+    const usdt = fromWei(log.amount) ?? 0;
+    const fillPrice =
+      priceBefore !== undefined && priceAfter !== undefined
+        ? (priceBefore + priceAfter) / 2
+        : priceAfter ?? priceBefore;
+    const tokenAmount = fillPrice ? usdt / fillPrice : 0;
+    const time = getLogTime(log);
+
+    if (log.action === "buy") {
+      spent += usdt;
+      tokens += tokenAmount;
+    } else {
+      received += usdt;
+      tokens = Math.max(0, tokens - tokenAmount);
+    }
+    trades.push({ side: log.action, usdt, time });
+
+    if (lastPrice !== undefined) {
+      const point = {
+        time,
+        pnl: received - spent + tokens * lastPrice,
+        price: lastPrice,
+      };
+      // The chart needs one point per second
+      if (pnlHistory[pnlHistory.length - 1]?.time === time) {
+        pnlHistory[pnlHistory.length - 1] = point;
+      } else {
+        pnlHistory.push(point);
+      }
+    }
+  }
+
+  // Mark the held tokens to the current price
+  const markPrice = currentPrice ?? lastPrice;
+  const pnl =
+    markPrice !== undefined ? received - spent + tokens * markPrice : 0;
+  if (
+    currentPrice !== undefined &&
+    pnlHistory.length &&
+    now > pnlHistory[pnlHistory.length - 1].time
+  ) {
+    pnlHistory.push({ time: now, pnl, price: currentPrice });
+  }
+
+  const attempts = trades.length + failures;
+  const totalTraded = trades.reduce((sum, trade) => sum + trade.usdt, 0);
+
+  // Net USDT spent over the last day, or the bot's whole life if shorter
+  const firstTime = sorted.length ? getLogTime(sorted[0]) : now;
+  const windowStart = Math.max(
+    firstTime,
+    now - BURN_WINDOW_HOURS * HOUR_SECONDS
+  );
+  const burnWindowHours = (now - windowStart) / HOUR_SECONDS;
+  const netSpent = trades
+    .filter((trade) => trade.time >= windowStart)
+    .reduce(
+      (sum, trade) => sum + (trade.side === "buy" ? trade.usdt : -trade.usdt),
+      0
+    );
+  const burnRatePerHour = burnWindowHours > 0 ? netSpent / burnWindowHours : 0;
+  const usdtBalance = fromWei(bot.currentUsdtBalance) ?? 0;
+
+  const strategy = getBotStrategy(bot);
+  const growthHours = (now - firstTime) / HOUR_SECONDS;
+  const growth =
+    strategy.type === "target_growth" &&
+    startPrice &&
+    markPrice &&
+    growthHours > 0
+      ? {
+          startPrice,
+          currentPrice: markPrice,
+          hours: growthHours,
+          achievedPerHour:
+            (Math.pow(markPrice / startPrice, 1 / growthHours) - 1) * 100,
+          targetPerHour: strategy.targetGrowthPerHour,
+        }
+      : undefined;
+
+  return {
+    pnlHistory,
+    pnl,
+    buys: trades.filter((trade) => trade.side === "buy").length,
+    sells: trades.filter((trade) => trade.side === "sell").length,
+    failures,
+    successRate: attempts ? (trades.length / attempts) * 100 : undefined,
+    errors: Array.from(errorCounts, ([message, count]) => ({ message, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_ERRORS),
+    tradeSizes: bucketTradeSizes(trades),
+    averageTradeSize: trades.length ? totalTraded / trades.length : 0,
+    growth,
+    burnRatePerHour,
+    burnWindowHours,
+    hoursUntilExhausted:
+      burnRatePerHour > 0 ? usdtBalance / burnRatePerHour : undefined,
+  };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  fetchAllBotLogs,
+  getBotLogRowKeys,
+  mergeBotLogs,
+} from "./bots";
+import type { BotLog } from "@/lib/api/types";
+
+const log = (minute: number, transactionHash?: string): BotLog => ({
+  action: "buy",
+  amount: "1000000000000000000",
+  success: true,
+  timestamp: new Date(Date.UTC(2025, 0, 1, 0, minute)).toISOString(),
+  transactionHash,
+});
+
+describe("mergeBotLogs", () => {
+  it("drops entries repeated by a shifted page", () => {
+    const first = [log(9, "0x9"), log(8, "0x8"), log(7, "0x7")];
+    // A new entry pushed 0x7 onto the second page
+    const second = [log(7, "0x7"), log(6, "0x6"), log(5, "0x5")];
+    expect(mergeBotLogs(first, second).map((l) => l.transactionHash)).toEqual(
+      ["0x9", "0x8", "0x7", "0x6", "0x5"]
+    );
+  });
+
+  it("drops a hashless entry repeated from an earlier page", () => {
+    expect(mergeBotLogs([log(2), log(1)], [log(1), log(0)])).toHaveLength(3);
+  });
+
+  it("keeps matching hashless entries that arrive on the same page", () => {
+    const pause: BotLog = { ...log(2), action: "pause", success: false };
+    expect(mergeBotLogs([log(3)], [pause, pause, log(1)])).toHaveLength(4);
+  });
+
+  it("tells entries apart by amount, outcome and error", () => {
+    const failed: BotLog = { ...log(2), success: false, errorMessage: "gas" };
+    const page = [log(2), { ...log(2), amount: "1" }, failed];
+    expect(mergeBotLogs([log(2)], page)).toHaveLength(3);
+  });
+});
+
+describe("getBotLogRowKeys", () => {
+  it("gives repeated entries unique keys", () => {
+    const keys = getBotLogRowKeys([log(2), log(2), log(1)]);
+    expect(new Set(keys).size).toBe(3);
+  });
+});
+
+describe("fetchAllBotLogs", () => {
+  it("stops at a short page even when repeats leave it under total", async () => {
+    const logs = Array.from({ length: 150 }, (_, i) => log(200 - i, `0x${i}`));
+    let calls = 0;
+    const result = await fetchAllBotLogs(async ({ page, limit }) => {
+      calls++;
+      // Page 2 overlaps page 1 by one entry, as after a new log is written
+      const start = (page - 1) * limit - (page > 1 ? 1 : 0);
+      return {
+        items: logs.slice(start, start + limit),
+        total: logs.length + 1,
+        page,
+        limit,
+      };
+    });
+    expect(result).toHaveLength(150);
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,312 @@
+import type {
+  Bot,
+  BotAction,
+  BotLog,
+  BotLogFilters,
+  BotStrategy,
+  BotStrategyType,
+  Page,
+  TakeProfitRung,
+} from "@/lib/api/types";
+
+// Market maker bot strategies: labels, create-form state and validation,
+// display helpers for bot settings, and log history paging
+
+export const TRADE_INTERVALS = [1, 5, 15, 30, 60, 240]; // Minutes
+
+export const formatTradeInterval = (minutes?: number) => {
+  if (minutes === undefined) return "Default schedule";
+  return minutes < 60 ? `Every ${minutes}m` : `Every ${minutes / 60}h`;
+};
+
+export const BOT_STRATEGIES: {
+  value: BotStrategyType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "target_growth",
+    label: "Target Growth",
+    description: "Trades to grow the price by a target % every hour",
+  },
+  {
+    value: "grid",
+    label: "Range / Grid",
+    description: "Buys dips and sells rallies across a price range",
+  },
+  {
+    value: "twap",
+    label: "TWAP Accumulation",
+    description: "Buys a fixed amount in equal slices over a period",
+  },
+  {
+    value: "dca",
+    label: "DCA",
+    description: "Buys a fixed amount on a schedule, below a max price",
+  },
+  {
+    value: "take_profit",
+    label: "Take-Profit Ladder",
+    description: "Sells part of its tokens as the price reaches each rung",
+  },
+  {
+    value: "stop_loss",
+    label: "Stop-Loss",
+    description: "Sells its tokens if the price falls to the stop",
+  },
+];
+
+export const getStrategyLabel = (type: BotStrategyType) =>
+  BOT_STRATEGIES.find((strategy) => strategy.value === type)?.label ?? type;
+
+// Bots created before strategies existed all grow the price per hour
+export const getBotStrategy = (bot: Bot): BotStrategy =>
+  bot.strategy ?? {
+    type: "target_growth",
+    targetGrowthPerHour: bot.targetGrowthPerHour,
+  };
+
+// Create-form values per strategy; inputs stay strings while being edited
+export interface StrategyFormValues {
+  target_growth: { targetGrowthPerHour: string };
+  grid: {
+    lowerPrice: string;
+    upperPrice: string;
+    levels: string;
+    orderSize: string;
+  };
+  twap: { totalAmount: string; durationHours: string; slices: string };
+  dca: { amountPerBuy: string; intervalMinutes: string; maxPrice: string };
+  take_profit: { rungs: { price: string; sellPercent: string }[] };
+  stop_loss: {
+    stopPrice: string;
+    sellPercent: string;
+    trailingPercent: string;
+  };
+}
+
+// A strategy type together with its form values
+export type StrategyDraft = {
+  [K in BotStrategyType]: { type: K; values: StrategyFormValues[K] };
+}[BotStrategyType];
+
+const DEFAULT_VALUES: StrategyFormValues = {
+  target_growth: { targetGrowthPerHour: "1" },
+  grid: { lowerPrice: "", upperPrice: "", levels: "10", orderSize: "10" },
+  twap: { totalAmount: "100", durationHours: "24", slices: "24" },
+  dca: { amountPerBuy: "10", intervalMinutes: "60", maxPrice: "" },
+  take_profit: {
+    rungs: [
+      { price: "", sellPercent: "25" },
+      { price: "", sellPercent: "25" },
+      { price: "", sellPercent: "50" },
+    ],
+  },
+  stop_loss: { stopPrice: "", sellPercent: "100", trailingPercent: "" },
+};
+
+export const createStrategyDraft = (type: BotStrategyType) =>
+  ({ type, values: DEFAULT_VALUES[type] } as StrategyDraft);
+
+const toNumber = (value: string) => {
+  const number = parseFloat(value);
+  return isFinite(number) ? number : NaN;
+};
+
+const isInteger = (value: number, min: number, max: number) =>
+  Number.isInteger(value) && value >= min && value <= max;
+
+type ParseResult = { strategy: BotStrategy } | { error: string };
+
+// Validate a draft against the bot's budget (USDT) and build its strategy
+export const parseStrategyDraft = (
+  draft: StrategyDraft,
+  budget: number
+): ParseResult => {
+  switch (draft.type) {
+    case "target_growth": {
+      const targetGrowthPerHour = toNumber(draft.values.targetGrowthPerHour);
+      if (!(targetGrowthPerHour >= 0.1 && targetGrowthPerHour <= 10)) {
+        return { error: "Target growth must be between 0.1% and 10% per hour" };
+      }
+      return { strategy: { type: draft.type, targetGrowthPerHour } };
+    }
+    case "grid": {
+      const lowerPrice = toNumber(draft.values.lowerPrice);
+      const upperPrice = toNumber(draft.values.upperPrice);
+      const levels = toNumber(draft.values.levels);
+      const orderSize = toNumber(draft.values.orderSize);
+      if (!(lowerPrice > 0 && upperPrice > lowerPrice)) {
+        return { error: "Upper price must be above a positive lower price" };
+      }
+      if (!isInteger(levels, 2, 50)) {
+        return { error: "Grid levels must be a whole number from 2 to 50" };
+      }
+      if (!(orderSize > 0 && orderSize <= budget)) {
+        return { error: "Order size must be positive and within the budget" };
+      }
+      return {
+        strategy: {
+          type: draft.type,
+          lowerPrice,
+          upperPrice,
+          levels,
+          orderSize,
+        },
+      };
+    }
+    case "twap": {
+      const totalAmount = toNumber(draft.values.totalAmount);
+      const durationHours = toNumber(draft.values.durationHours);
+      const slices = toNumber(draft.values.slices);
+      if (!(totalAmount > 0 && totalAmount <= budget)) {
+        return { error: "Total amount must be positive and within the budget" };
+      }
+      if (!(durationHours > 0 && durationHours <= 168)) {
+        return { error: "Duration must be between 0 and 168 hours" };
+      }
+      if (!isInteger(slices, 2, 500)) {
+        return { error: "Slices must be a whole number from 2 to 500" };
+      }
+      return {
+        strategy: { type: draft.type, totalAmount, durationHours, slices },
+      };
+    }
+    case "dca": {
+      const amountPerBuy = toNumber(draft.values.amountPerBuy);
+      const intervalMinutes = toNumber(draft.values.intervalMinutes);
+      const maxPrice = draft.values.maxPrice.trim()
+        ? toNumber(draft.values.maxPrice)
+        : undefined;
+      if (!(amountPerBuy > 0 && amountPerBuy <= budget)) {
+        return {
+          error: "Amount per buy must be positive and within the budget",
+        };
+      }
+      if (!isInteger(intervalMinutes, 1, 7 * 24 * 60)) {
+        return { error: "Interval must be 1 minute to 7 days, in minutes" };
+      }
+      if (maxPrice !== undefined && !(maxPrice > 0)) {
+        return { error: "Max price must be positive" };
+      }
+      return {
+        strategy: { type: draft.type, amountPerBuy, intervalMinutes, maxPrice },
+      };
+    }
+    case "take_profit": {
+      const rungs: TakeProfitRung[] = draft.values.rungs.map((rung) => ({
+        price: toNumber(rung.price),
+        sellPercent: toNumber(rung.sellPercent),
+      }));
+      if (!rungs.length || rungs.length > 10) {
+        return { error: "Add between 1 and 10 rungs" };
+      }
+      if (rungs.some((rung) => !(rung.price > 0 && rung.sellPercent > 0))) {
+        return { error: "Every rung needs a positive price and sell %" };
+      }
+      if (rungs.some((rung, i) => i > 0 && rung.price <= rungs[i - 1].price)) {
+        return { error: "Rung prices must increase from one rung to the next" };
+      }
+      const totalPercent = rungs.reduce(
+        (sum, rung) => sum + rung.sellPercent,
+        0
+      );
+      if (totalPercent > 100) {
+        return { error: "Rungs can sell at most 100% of the tokens in total" };
+      }
+      return { strategy: { type: draft.type, rungs } };
+    }
+    case "stop_loss": {
+      const stopPrice = toNumber(draft.values.stopPrice);
+      const sellPercent = toNumber(draft.values.sellPercent);
+      const trailingPercent = draft.values.trailingPercent.trim()
+        ? toNumber(draft.values.trailingPercent)
+        : undefined;
+      if (!(stopPrice > 0)) {
+        return { error: "Stop price must be positive" };
+      }
+      if (!(sellPercent > 0 && sellPercent <= 100)) {
+        return { error: "Sell % must be between 0 and 100" };
+      }
+      if (
+        trailingPercent !== undefined &&
+        !(trailingPercent > 0 && trailingPercent < 100)
+      ) {
+        return { error: "Trailing % must be between 0 and 100" };
+      }
+      return {
+        strategy: { type: draft.type, stopPrice, sellPercent, trailingPercent },
+      };
+    }
+  }
+};
+
+export const BOT_LOG_ACTIONS: { value: BotAction; label: string }[] = [
+  { value: "buy", label: "Buy" },
+  { value: "sell", label: "Sell" },
+  { value: "pause", label: "Pause" },
+  { value: "error", label: "Error" },
+  { value: "start", label: "Start" },
+  { value: "stop", label: "Stop" },
+];
+
+const LOG_EXPORT_PAGE_SIZE = 100;
+
+// Logs have no id: one is identified by when it was written, what it did
+// and how it ended
+export const getBotLogKey = (log: BotLog) =>
+  [
+    log.timestamp,
+    log.action,
+    log.transactionHash ?? "",
+    log.amount,
+    log.success,
+    log.errorMessage ?? "",
+  ].join("-");
+
+// Keys for rendering `logs` as rows. Entries that share a key (the bot can log
+// the same pause or error twice in one instant) are told apart by how many
+// came before them.
+export const getBotLogRowKeys = (logs: BotLog[]) => {
+  const counts = new Map<string, number>();
+  return logs.map((log) => {
+    const key = getBotLogKey(log);
+    const count = counts.get(key) ?? 0;
+    counts.set(key, count + 1);
+    return count ? `${key}-${count}` : key;
+  });
+};
+
+// Append a page to `logs`, skipping entries already loaded. Logs are paged
+// newest first, so entries the bot writes in between shift the next page and
+// repeat the end of the previous one. Repeats within the page itself are real
+// entries and are kept.
+export const mergeBotLogs = (logs: BotLog[], page: BotLog[]) => {
+  const seen = new Set(logs.map(getBotLogKey));
+  return [...logs, ...page.filter((log) => !seen.has(getBotLogKey(log)))];
+};
+
+// Every page of a bot's logs matching `filters`
+export const fetchAllBotLogs = async (
+  getPage: (
+    params: BotLogFilters & { page: number; limit: number }
+  ) => Promise<Page<BotLog>>,
+  filters: BotLogFilters = {}
+) => {
+  let logs: BotLog[] = [];
+  for (let page = 1; ; page++) {
+    const result = await getPage({
+      ...filters,
+      page,
+      limit: LOG_EXPORT_PAGE_SIZE,
+    });
+    logs = mergeBotLogs(logs, result.items);
+    if (
+      result.items.length < LOG_EXPORT_PAGE_SIZE ||
+      logs.length >= result.total
+    ) {
+      break;
+    }
+  }
+  return logs;
+};
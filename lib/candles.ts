@@ -0,0 +1,179 @@
+import { formatUnits } from "viem";
+import type { PriceTickEvent, TradeEvent } from "@/lib/realtime";
+
+// OHLC candle helpers shared by the token chart. Times are Unix seconds and
+// prices are natural USDT units, matching `/tokens/chart/:addr` responses.
+
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export type ChartInterval = "1m" | "5m" | "15m" | "1h" | "4h" | "1d";
+export type ChartRange = "1D" | "7D" | "30D" | "All";
+
+export const CHART_INTERVALS: { value: ChartInterval; seconds: number }[] = [
+  { value: "1m", seconds: 60 },
+  { value: "5m", seconds: 5 * 60 },
+  { value: "15m", seconds: 15 * 60 },
+  { value: "1h", seconds: 60 * 60 },
+  { value: "4h", seconds: 4 * 60 * 60 },
+  { value: "1d", seconds: 24 * 60 * 60 },
+];
+
+// Days of history requested from the API for each range (0 = full history)
+export const CHART_RANGES: { value: ChartRange; days: number }[] = [
+  { value: "1D", days: 1 },
+  { value: "7D", days: 7 },
+  { value: "30D", days: 30 },
+  { value: "All", days: 0 },
+];
+
+export const getIntervalSeconds = (interval: ChartInterval) =>
+  CHART_INTERVALS.find((item) => item.value === interval)?.seconds ?? 300;
+
+export const getRangeDays = (range: ChartRange) =>
+  CHART_RANGES.find((item) => item.value === range)?.days ?? 0;
+
+// Start of the interval bucket containing `time`
+export const getBucketTime = (time: number, intervalSeconds: number) =>
+  Math.floor(time / intervalSeconds) * intervalSeconds;
+
+// Roll finer candles up into `intervalSeconds` buckets (no-op if already coarser)
+export const aggregateCandles = (
+  candles: Candle[],
+  intervalSeconds: number
+): Candle[] => {
+  const sorted = [...candles].sort((a, b) => a.time - b.time);
+  const result: Candle[] = [];
+
+  for (const candle of sorted) {
+    const time = getBucketTime(candle.time, intervalSeconds);
+    const last = result[result.length - 1];
+
+    if (last && last.time === time) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+    } else {
+      result.push({ ...candle, time });
+    }
+  }
+
+  return result;
+};
+
+// Fold a new price print into the last candle, opening a new one when the
+// bucket rolls over. Returns the updated list and the candle that changed.
+export const applyPriceToCandles = (
+  candles: Candle[],
+  time: number,
+  price: number,
+  intervalSeconds: number
+): { candles: Candle[]; candle: Candle } | null => {
+  if (!isFinite(price) || price <= 0) return null;
+
+  const bucketTime = getBucketTime(time, intervalSeconds);
+  const last = candles[candles.length - 1];
+
+  // Late prints for older buckets are picked up by the next full reload
+  if (last && bucketTime < last.time) return null;
+
+  if (last && bucketTime === last.time) {
+    const candle: Candle = {
+      ...last,
+      high: Math.max(last.high, price),
+      low: Math.min(last.low, price),
+      close: price,
+    };
+    return { candles: [...candles.slice(0, -1), candle], candle };
+  }
+
+  const open = last ? last.close : price;
+  const candle: Candle = {
+    time: bucketTime,
+    open,
+    high: Math.max(open, price),
+    low: Math.min(open, price),
+    close: price,
+  };
+  return { candles: [...candles, candle], candle };
+};
+
+// Natural USDT price carried by a trade or tick, falling back to the trade's execution price
+export const getEventPrice = (event: TradeEvent | PriceTickEvent): number => {
+  try {
+    if (event.price && event.price !== "0") {
+      return parseFloat(formatUnits(BigInt(event.price), 18));
+    }
+    if ("amountIn" in event) {
+      const usdt = event.type === "buy" ? event.amountIn : event.amountOut;
+      const tokens = event.type === "buy" ? event.amountOut : event.amountIn;
+      const tokenAmount = parseFloat(formatUnits(BigInt(tokens), 18));
+      if (tokenAmount <= 0) return 0;
+      return parseFloat(formatUnits(BigInt(usdt), 18)) / tokenAmount;
+    }
+  } catch {
+    // Fall through to zero for malformed amounts
+  }
+  return 0;
+};
+
+// Minimal trade shape shared by `recentTransactions` and realtime trade events
+export interface CandleTrade {
+  type: "buy" | "sell";
+  amountIn: string;
+  amountOut: string;
+  timestamp: string; // Unix seconds
+}
+
+export interface VolumeBucket {
+  time: number;
+  buyVolume: number; // USDT (natural units)
+  sellVolume: number; // USDT (natural units)
+}
+
+// USDT side of a trade in natural units
+export const getTradeUsdtVolume = (trade: CandleTrade) => {
+  try {
+    const usdt = trade.type === "buy" ? trade.amountIn : trade.amountOut;
+    return parseFloat(formatUnits(BigInt(usdt), 18));
+  } catch {
+    return 0;
+  }
+};
+
+// Add a trade's USDT volume into its interval bucket (mutates `buckets`)
+export const addTradeVolume = (
+  buckets: Map<number, VolumeBucket>,
+  trade: CandleTrade,
+  intervalSeconds: number
+) => {
+  const time = getBucketTime(parseInt(trade.timestamp), intervalSeconds);
+  if (isNaN(time)) return buckets;
+
+  const bucket = buckets.get(time) ?? { time, buyVolume: 0, sellVolume: 0 };
+  const volume = getTradeUsdtVolume(trade);
+  if (trade.type === "buy") {
+    bucket.buyVolume += volume;
+  } else {
+    bucket.sellVolume += volume;
+  }
+  buckets.set(time, bucket);
+  return buckets;
+};
+
+// Bucket buy/sell USDT volume per interval
+export const bucketTradeVolume = (
+  trades: CandleTrade[],
+  intervalSeconds: number
+) => {
+  const buckets = new Map<number, VolumeBucket>();
+  for (const trade of trades) {
+    addTradeVolume(buckets, trade, intervalSeconds);
+  }
+  return buckets;
+};
@@ -0,0 +1,91 @@
+import { erc20Abi, type Abi, type Address } from "viem";
+import { anvil, seiTestnet } from "viem/chains";
+
+// Chain and contract configuration for self-signed transactions. Defaults to
+// Sei testnet; set NEXT_PUBLIC_CHAIN_ID=31337 and NEXT_PUBLIC_RPC_URL to run
+// against a local anvil node.
+
+const CHAIN_ID = Number(process.env.NEXT_PUBLIC_CHAIN_ID || seiTestnet.id);
+
+export const walletChain = CHAIN_ID === anvil.id ? anvil : seiTestnet;
+
+export const RPC_URL =
+  process.env.NEXT_PUBLIC_RPC_URL || walletChain.rpcUrls.default.http[0];
+
+// Explorer link for a transaction, when the chain has an explorer
+export const getTransactionUrl = (hash: string) => {
+  const explorer = walletChain.blockExplorers?.default.url;
+  return explorer ? `${explorer}/tx/${hash}` : undefined;
+};
+
+export const BONDING_CURVE_ADDRESS = (process.env
+  .NEXT_PUBLIC_BONDING_CURVE_ADDRESS ||
+  "0x34F494c5FC1535Bc20DcECa39b6A590C743fc088") as Address;
+
+export const USDT_ADDRESS = process.env.NEXT_PUBLIC_USDT_ADDRESS as
+  | Address
+  | undefined;
+
+// Trading entry points the app calls on the bonding curve contract (amounts in
+// wei). The contract source is not part of this repo, so this is the
+// interface lib/txBuilder.ts is written against: buyTokens / sellTokens taking
+// (token, amount in, minimum out). Check it against the contract deployed at
+// BONDING_CURVE_ADDRESS; if that deployment's ABI differs, set
+// NEXT_PUBLIC_BONDING_CURVE_ABI to its JSON ABI alongside the address.
+const DEFAULT_BONDING_CURVE_ABI = [
+  {
+    type: "function",
+    name: "buyTokens",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "tokenAddress", type: "address" },
+      { name: "usdtAmount", type: "uint256" },
+      { name: "minTokensOut", type: "uint256" },
+    ],
+    outputs: [{ name: "tokensOut", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "sellTokens",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "tokenAddress", type: "address" },
+      { name: "tokenAmount", type: "uint256" },
+      { name: "minUsdtOut", type: "uint256" },
+    ],
+    outputs: [{ name: "usdtOut", type: "uint256" }],
+  },
+] as const;
+
+// An ABI override must still provide both trade functions with the three
+// arguments lib/txBuilder.ts passes
+const hasTradeFunction = (abi: Abi, name: string) =>
+  abi.some(
+    (item) =>
+      item.type === "function" && item.name === name && item.inputs.length === 3
+  );
+
+const loadBondingCurveAbi = () => {
+  const json = process.env.NEXT_PUBLIC_BONDING_CURVE_ABI;
+  if (!json) return DEFAULT_BONDING_CURVE_ABI;
+  try {
+    const abi = JSON.parse(json) as Abi;
+    if (
+      Array.isArray(abi) &&
+      hasTradeFunction(abi, "buyTokens") &&
+      hasTradeFunction(abi, "sellTokens")
+    ) {
+      return abi as unknown as typeof DEFAULT_BONDING_CURVE_ABI;
+    }
+  } catch {
+    // Fall through to the built-in ABI
+  }
+  console.warn(
+    "[CONTRACTS] NEXT_PUBLIC_BONDING_CURVE_ABI has no buyTokens/sellTokens, using the built-in ABI"
+  );
+  return DEFAULT_BONDING_CURVE_ABI;
+};
+
+export const bondingCurveAbi = loadBondingCurveAbi();
+
+export { erc20Abi };
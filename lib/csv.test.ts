@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { toCsv, type CsvColumn } from "./csv";
+
+interface Row {
+  name: string;
+  value?: number;
+}
+
+const columns: CsvColumn<Row>[] = [
+  { header: "Name", value: (row) => row.name },
+  { header: "Value", value: (row) => row.value },
+];
+
+describe("toCsv", () => {
+  it("quotes delimiters, quotes and newlines", () => {
+    expect(toCsv([{ name: 'a,"b"\nc', value: 1 }], columns)).toBe(
+      'Name,Value\r\n"a,""b""\nc",1'
+    );
+  });
+
+  it("neutralizes text a spreadsheet would run as a formula", () => {
+    const rows = ["=HYPERLINK(x)", "+1", "-1", "@SUM(A1)", "\tx", "\rx"].map(
+      (name) => ({ name })
+    );
+    expect(toCsv(rows, columns).split("\r\n").slice(1)).toEqual([
+      "'=HYPERLINK(x),",
+      "'+1,",
+      "'-1,",
+      "'@SUM(A1),",
+      "'\tx,",
+      "\"'\rx\",",
+    ]);
+  });
+
+  it("leaves numbers and ordinary text alone", () => {
+    expect(toCsv([{ name: "Token", value: -2.5 }], columns)).toBe(
+      "Name,Value\r\nToken,-2.5"
+    );
+  });
+});
@@ -0,0 +1,42 @@
+// CSV export helpers. Values are quoted when they contain a delimiter, quote
+// or newline (RFC 4180); rows end with CRLF so spreadsheets open them cleanly.
+// Text that a spreadsheet would read as a formula (token names are chosen by
+// whoever launched the token) is prefixed with ' so it shows as plain text;
+// numbers, negative ones included, are left as numbers.
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+const escapeCell = (value: string | number | boolean | null | undefined) => {
+  if (value === null || value === undefined) return "";
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]) =>
+  [
+    columns.map((column) => escapeCell(column.header)).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCell(column.value(row))).join(",")
+    ),
+  ].join("\r\n");
+
+// Save text as a file through a temporary object URL
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (filename: string, csv: string) =>
+  downloadFile(filename, csv, "text/csv;charset=utf-8");
@@ -1,4 +1,6 @@
 import mitt from "mitt";
+import type { AppNotification } from "@/lib/notifications";
+import type { AuthMethod } from "@/stores/userStore";
 
 // Define event types for type safety
 type Events = {
@@ -14,3 +16,31 @@ export const CHAT_EVENTS = {
   REFRESH_TOKENS: "refresh_tokens" as const,
   REFRESH_TOKEN_DATA: "refresh_token_data" as const,
 } as const;
+
+// Session lifecycle events (see lib/session.ts)
+type SessionEvents = {
+  signed_in: { email: string; walletAddress: string; authMethod: AuthMethod };
+  refreshed: void;
+  expired: void;
+  logged_out: void;
+};
+
+export const sessionEventEmitter = mitt<SessionEvents>();
+
+export const SESSION_EVENTS = {
+  SIGNED_IN: "signed_in" as const,
+  REFRESHED: "refreshed" as const,
+  EXPIRED: "expired" as const,
+  LOGGED_OUT: "logged_out" as const,
+} as const;
+
+// Price alerts delivered in this tab (see components/shared/alert-watcher.tsx)
+type AlertEvents = {
+  triggered: AppNotification;
+};
+
+export const alertEventEmitter = mitt<AlertEvents>();
+
+export const ALERT_EVENTS = {
+  TRIGGERED: "triggered" as const,
+} as const;
@@ -0,0 +1,69 @@
+import type { Candle, VolumeBucket } from "@/lib/candles";
+
+// Client-side chart indicators computed from OHLC candles
+
+export interface IndicatorPoint {
+  time: number;
+  value: number;
+}
+
+// Simple moving average of closes
+export const sma = (candles: Candle[], period: number): IndicatorPoint[] => {
+  const points: IndicatorPoint[] = [];
+  let sum = 0;
+
+  candles.forEach((candle, index) => {
+    sum += candle.close;
+    if (index >= period) sum -= candles[index - period].close;
+    if (index >= period - 1) {
+      points.push({ time: candle.time, value: sum / period });
+    }
+  });
+
+  return points;
+};
+
+// Exponential moving average of closes, seeded with the SMA of the first period
+export const ema = (candles: Candle[], period: number): IndicatorPoint[] => {
+  if (candles.length < period) return [];
+
+  const multiplier = 2 / (period + 1);
+  let value =
+    candles.slice(0, period).reduce((sum, candle) => sum + candle.close, 0) /
+    period;
+  const points: IndicatorPoint[] = [
+    { time: candles[period - 1].time, value },
+  ];
+
+  for (let i = period; i < candles.length; i++) {
+    value = (candles[i].close - value) * multiplier + value;
+    points.push({ time: candles[i].time, value });
+  }
+
+  return points;
+};
+
+// Volume-weighted average price over the visible history, using typical price
+export const vwap = (
+  candles: Candle[],
+  volumes: Map<number, VolumeBucket>
+): IndicatorPoint[] => {
+  const points: IndicatorPoint[] = [];
+  let priceVolume = 0;
+  let totalVolume = 0;
+
+  for (const candle of candles) {
+    const bucket = volumes.get(candle.time);
+    const volume = bucket ? bucket.buyVolume + bucket.sellVolume : 0;
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+
+    priceVolume += typicalPrice * volume;
+    totalVolume += volume;
+
+    if (totalVolume > 0) {
+      points.push({ time: candle.time, value: priceVolume / totalVolume });
+    }
+  }
+
+  return points;
+};
@@ -0,0 +1,82 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  hexToBigInt,
+  http,
+  toHex,
+  type Address,
+  type Hex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { RPC_URL, walletChain } from "@/lib/contracts";
+import type { Eip1193Provider } from "@/lib/wallet";
+
+// In-page EIP-1193 provider for local development and testing, enabled with
+// NEXT_PUBLIC_MOCK_WALLET=true. Accounts and signing use a local private key;
+// everything else is forwarded to NEXT_PUBLIC_RPC_URL (e.g. anvil).
+// lib/wallet.ts imports this module on demand, so it is left out of builds
+// without the flag. NEXT_PUBLIC_MOCK_WALLET_PRIVATE_KEY is inlined into the
+// client bundle like every NEXT_PUBLIC_ variable: only ever set it to an
+// anvil/hardhat dev key, never to a key holding real funds.
+
+// Anvil/Hardhat dev account #0. Publicly known: never fund it on a real network.
+const DEFAULT_MOCK_PRIVATE_KEY: Hex =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+interface RpcTransaction {
+  to?: Address;
+  data?: Hex;
+  value?: Hex;
+  gas?: Hex;
+}
+
+export const createMockProvider = (
+  privateKey: Hex = (process.env.NEXT_PUBLIC_MOCK_WALLET_PRIVATE_KEY as Hex) ||
+    DEFAULT_MOCK_PRIVATE_KEY
+): Eip1193Provider => {
+  const account = privateKeyToAccount(privateKey);
+  const transport = http(RPC_URL);
+  const walletClient = createWalletClient({
+    account,
+    chain: walletChain,
+    transport,
+  });
+  const publicClient = createPublicClient({ chain: walletChain, transport });
+
+  console.log(`[MOCK WALLET] Using ${account.address} on chain ${walletChain.id}`);
+
+  return {
+    request: async ({ method, params }) => {
+      const args = (params ?? []) as unknown[];
+
+      switch (method) {
+        case "eth_requestAccounts":
+        case "eth_accounts":
+          return [account.address];
+
+        case "eth_chainId":
+          return toHex(walletChain.id);
+
+        case "wallet_switchEthereumChain":
+        case "wallet_addEthereumChain":
+          return null;
+
+        case "personal_sign":
+          return account.signMessage({ message: { raw: args[0] as Hex } });
+
+        case "eth_sendTransaction": {
+          const tx = args[0] as RpcTransaction;
+          return walletClient.sendTransaction({
+            to: tx.to,
+            data: tx.data,
+            value: tx.value ? hexToBigInt(tx.value) : undefined,
+            gas: tx.gas ? hexToBigInt(tx.gas) : undefined,
+          });
+        }
+
+        default:
+          return publicClient.request({ method, params } as never);
+      }
+    },
+  };
+};
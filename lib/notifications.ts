@@ -0,0 +1,57 @@
+import { toast } from "sonner";
+
+// In-app toasts plus browser notifications (Notification API) for when the
+// tab is in the background and a toast would go unseen.
+
+export interface AppNotification {
+  title: string;
+  body?: string;
+  tag?: string; // Notifications with the same tag replace each other
+  url?: string; // Opened when the notification is clicked
+}
+
+export const isNotificationSupported = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+export const getNotificationPermission = (): NotificationPermission | null =>
+  isNotificationSupported() ? Notification.permission : null;
+
+export const requestNotificationPermission = async () => {
+  if (!isNotificationSupported()) return null;
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// In-app toast only
+export const showToast = ({ title, body, url }: AppNotification) => {
+  toast(title, {
+    description: body,
+    ...(url && {
+      action: { label: "View", onClick: () => (window.location.href = url) },
+    }),
+  });
+};
+
+export const notify = (notification: AppNotification) => {
+  const { title, body, tag, url } = notification;
+  showToast(notification);
+
+  if (
+    document.visibilityState !== "hidden" ||
+    getNotificationPermission() !== "granted"
+  ) {
+    return;
+  }
+
+  try {
+    const notification = new Notification(title, { body, tag });
+    notification.onclick = () => {
+      window.focus();
+      if (url) window.location.href = url;
+      notification.close();
+    };
+  } catch (error) {
+    // Some browsers only allow notifications from a service worker
+    console.error("Failed to show browser notification:", error);
+  }
+};
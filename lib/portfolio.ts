@@ -0,0 +1,348 @@
+import { formatUnits } from "viem";
+import { getSpotPrice, toWei } from "@/lib/bondingCurve";
+import {
+  getBucketTime,
+  getIntervalSeconds,
+  type Candle,
+  type ChartInterval,
+  type ChartRange,
+} from "@/lib/candles";
+import type {
+  ActivityFilters,
+  Page,
+  Token,
+  TokenBalance,
+  WalletActivity,
+} from "@/lib/api/types";
+
+// Portfolio accounting from the wallet's trade history. Cost basis uses the
+// average cost method: buys add to the cost of the holding, sells realize the
+// difference between proceeds and the average cost of the tokens sold. Values
+// are in natural units (USDT, whole tokens). Bot trades are left out: bots
+// trade from their own budget, not the wallet's balances.
+
+export interface CostBasis {
+  tokenAddress: string;
+  name?: string;
+  symbol?: string;
+  tokensBought: number;
+  tokensHeld: number; // Per the trade history, before reconciling with balances
+  cost: number; // USDT cost of `tokensHeld`
+  realizedPnl: number;
+}
+
+export interface Position {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  balance: number;
+  price: number; // Current curve price (USDT per token)
+  value: number;
+  averageCost?: number; // Unknown when the history has no buys for the token
+  costBasis?: number;
+  realizedPnl: number;
+  unrealizedPnl?: number;
+  unrealizedPnlPercent?: number;
+}
+
+export interface PortfolioSummary {
+  positions: Position[];
+  usdtBalance: number;
+  tokensValue: number;
+  totalValue: number; // Token positions plus USDT
+  costBasis: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+}
+
+export interface ValuePoint {
+  time: number; // Unix seconds
+  usdt: number;
+  tokens: number; // Value of token holdings in USDT
+  total: number;
+}
+
+const HISTORY_PAGE_SIZE = 100;
+
+// Candle interval used to price holdings for each range
+export const VALUE_CHART_RANGES: {
+  value: ChartRange;
+  days: number;
+  interval: ChartInterval;
+}[] = [
+  { value: "1D", days: 1, interval: "15m" },
+  { value: "7D", days: 7, interval: "1h" },
+  { value: "30D", days: 30, interval: "4h" },
+  { value: "All", days: 0, interval: "1d" },
+];
+
+const fromWei = (value: string | undefined) => {
+  if (!value || value === "0") return 0;
+  try {
+    return parseFloat(formatUnits(BigInt(value), 18));
+  } catch {
+    return 0;
+  }
+};
+
+// An activity is one transaction's buy, sell or transfer; entries without a
+// transaction fall back to their id
+const getActivityKey = (activity: WalletActivity) =>
+  activity.transactionHash
+    ? `${activity.transactionHash}-${activity.type}`
+    : activity.id;
+
+// Every page of the wallet's activity matching `filters`. Pages are newest
+// first, so a trade made mid-export shifts the next page and repeats the end
+// of the previous one; those repeats are skipped.
+export const fetchAllActivity = async (
+  getPage: (
+    params: ActivityFilters & { page: number; limit: number }
+  ) => Promise<Page<WalletActivity>>,
+  filters: ActivityFilters = {}
+) => {
+  const activities: WalletActivity[] = [];
+  const seen = new Set<string>();
+  for (let page = 1; ; page++) {
+    const result = await getPage({ ...filters, page, limit: HISTORY_PAGE_SIZE });
+    const fresh = result.items.filter(
+      (activity) => !seen.has(getActivityKey(activity))
+    );
+    fresh.forEach((activity) => seen.add(getActivityKey(activity)));
+    activities.push(...fresh);
+    if (
+      result.items.length < HISTORY_PAGE_SIZE ||
+      activities.length >= result.total
+    ) {
+      break;
+    }
+  }
+  return activities;
+};
+
+// Current curve price of a token, falling back to the bonding curve math
+// when the API has not priced it yet
+export const getCurvePrice = (token: Token | undefined) => {
+  if (!token) return 0;
+  if (token.price && token.price !== "0") return fromWei(token.price);
+  return fromWei(getSpotPrice(toWei(token.totalUsdtRaised)).toString());
+};
+
+// Token amount of a trade, derived from the price when the API omits it
+const getTokenAmount = (activity: WalletActivity) => {
+  const tokenAmount = fromWei(activity.tokenAmount);
+  if (tokenAmount) return tokenAmount;
+  const price = fromWei(activity.price);
+  return price ? fromWei(activity.usdtAmount) / price : 0;
+};
+
+// Trades a market maker bot made with its own USDT and tokens
+export const isBotActivity = (activity: WalletActivity) =>
+  activity.type === "bot_buy" || activity.type === "bot_sell";
+
+// Replay the wallet's trades in time order into a cost basis per token
+export const buildCostBasis = (activities: WalletActivity[]) => {
+  const ledger = new Map<string, CostBasis>();
+  const sorted = activities
+    .filter((activity) => !isBotActivity(activity))
+    .sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
+
+  for (const activity of sorted) {
+    const key = activity.tokenAddress.toLowerCase();
+    const entry = ledger.get(key) ?? {
+      tokenAddress: activity.tokenAddress,
+      tokensBought: 0,
+      tokensHeld: 0,
+      cost: 0,
+      realizedPnl: 0,
+    };
+    entry.name = entry.name ?? activity.tokenName;
+    entry.symbol = entry.symbol ?? activity.tokenSymbol;
+
+    const usdtAmount = fromWei(activity.usdtAmount);
+    const tokenAmount = getTokenAmount(activity);
+
+    switch (activity.type) {
+      case "buy":
+      case "create": // A launch may include the creator's initial buy
+        entry.tokensBought += tokenAmount;
+        entry.tokensHeld += tokenAmount;
+        entry.cost += usdtAmount;
+        break;
+      case "sell": {
+        const sold = Math.min(tokenAmount, entry.tokensHeld);
+        const averageCost = entry.tokensHeld ? entry.cost / entry.tokensHeld : 0;
+        entry.realizedPnl += usdtAmount - averageCost * sold;
+        entry.tokensHeld -= sold;
+        entry.cost -= averageCost * sold;
+        break;
+      }
+    }
+    ledger.set(key, entry);
+  }
+
+  return ledger;
+};
+
+// Value the wallet's balances at the current curve price. Balances are
+// authoritative for the size of each position; the history supplies the
+// average cost and realized PnL, including for positions since closed.
+export const buildPortfolio = (
+  balances: TokenBalance[],
+  usdtBalance: string,
+  tokens: Token[],
+  activities: WalletActivity[]
+): PortfolioSummary => {
+  const ledger = buildCostBasis(activities);
+  const tokensByAddress = new Map(
+    tokens.map((token) => [token.tokenAddress.toLowerCase(), token])
+  );
+
+  const addresses = new Set([
+    ...balances.map((balance) => balance.tokenAddress.toLowerCase()),
+    ...ledger.keys(),
+  ]);
+
+  const positions: Position[] = [];
+  for (const address of addresses) {
+    const holding = balances.find(
+      (balance) => balance.tokenAddress.toLowerCase() === address
+    );
+    const basis = ledger.get(address);
+    const token = tokensByAddress.get(address);
+
+    const balance = holding
+      ? parseFloat(formatUnits(BigInt(holding.balance), holding.decimals))
+      : 0;
+    const realizedPnl = basis?.realizedPnl ?? 0;
+    if (!balance && !realizedPnl) continue;
+
+    const price = getCurvePrice(token);
+    const value = balance * price;
+    const averageCost =
+      basis && basis.tokensHeld > 0 ? basis.cost / basis.tokensHeld : undefined;
+    const costBasis =
+      averageCost !== undefined ? averageCost * balance : undefined;
+    const unrealizedPnl =
+      costBasis !== undefined ? value - costBasis : undefined;
+
+    positions.push({
+      tokenAddress: holding?.tokenAddress ?? basis?.tokenAddress ?? address,
+      name: holding?.name ?? token?.name ?? basis?.name ?? "Unknown token",
+      symbol: holding?.symbol ?? token?.symbol ?? basis?.symbol ?? "",
+      balance,
+      price,
+      value,
+      averageCost,
+      costBasis,
+      realizedPnl,
+      unrealizedPnl,
+      unrealizedPnlPercent:
+        unrealizedPnl !== undefined && costBasis
+          ? (unrealizedPnl / costBasis) * 100
+          : undefined,
+    });
+  }
+
+  positions.sort((a, b) => b.value - a.value);
+
+  const tokensValue = positions.reduce((sum, p) => sum + p.value, 0);
+  const usdt = fromWei(usdtBalance);
+  return {
+    positions,
+    usdtBalance: usdt,
+    tokensValue,
+    totalValue: tokensValue + usdt,
+    costBasis: positions.reduce((sum, p) => sum + (p.costBasis ?? 0), 0),
+    realizedPnl: positions.reduce((sum, p) => sum + p.realizedPnl, 0),
+    unrealizedPnl: positions.reduce((sum, p) => sum + (p.unrealizedPnl ?? 0), 0),
+  };
+};
+
+// Close of the last candle at or before `time`; before the first candle the
+// token had no market yet, so its first open is the best estimate
+const getPriceAt = (candles: Candle[], time: number) => {
+  if (!candles.length) return 0;
+  if (time < candles[0].time) return candles[0].open;
+  let low = 0;
+  let high = candles.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (candles[mid].time <= time) low = mid;
+    else high = mid - 1;
+  }
+  return candles[low].close;
+};
+
+// Portfolio value over time. Holdings are reconstructed by starting from the
+// current balances and undoing trades newest-first, so transfers in or out
+// of the wallet that aren't trades show up as a step at the start of the
+// range. Each point values the holdings at that time with the token's candles.
+export const buildValueHistory = (
+  balances: TokenBalance[],
+  usdtBalance: string,
+  activities: WalletActivity[],
+  candlesByToken: Record<string, Candle[]>,
+  range: { start: number; end: number; interval: ChartInterval }
+): ValuePoint[] => {
+  const intervalSeconds = getIntervalSeconds(range.interval);
+  const holdings = new Map(
+    balances.map((balance) => [
+      balance.tokenAddress.toLowerCase(),
+      parseFloat(formatUnits(BigInt(balance.balance), balance.decimals)),
+    ])
+  );
+  let usdt = fromWei(usdtBalance);
+
+  const newestFirst = activities
+    .filter((activity) => !isBotActivity(activity))
+    .sort((a, b) => Number(b.timestamp) - Number(a.timestamp));
+  const sortedCandles = Object.fromEntries(
+    Object.entries(candlesByToken).map(([address, candles]) => [
+      address.toLowerCase(),
+      [...candles].sort((a, b) => a.time - b.time),
+    ])
+  );
+
+  const times = [range.end];
+  for (
+    let time = getBucketTime(range.end, intervalSeconds);
+    time >= range.start;
+    time -= intervalSeconds
+  ) {
+    if (time < range.end) times.push(time);
+  }
+
+  const points: ValuePoint[] = [];
+  let next = 0;
+  for (const time of times) {
+    // Undo every trade made after this point in time
+    while (
+      next < newestFirst.length &&
+      Number(newestFirst[next].timestamp) > time
+    ) {
+      const activity = newestFirst[next++];
+      const key = activity.tokenAddress.toLowerCase();
+      const held = holdings.get(key) ?? 0;
+      const tokenAmount = getTokenAmount(activity);
+      const usdtAmount = fromWei(activity.usdtAmount);
+      if (activity.type === "sell") {
+        holdings.set(key, held + tokenAmount);
+        usdt = Math.max(0, usdt - usdtAmount);
+      } else {
+        holdings.set(key, Math.max(0, held - tokenAmount));
+        usdt += usdtAmount;
+      }
+    }
+
+    let tokens = 0;
+    holdings.forEach((amount, address) => {
+      if (amount > 0) {
+        tokens += amount * getPriceAt(sortedCandles[address] ?? [], time);
+      }
+    });
+    points.push({ time, usdt, tokens, total: usdt + tokens });
+  }
+
+  return points.reverse();
+};
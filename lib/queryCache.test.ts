@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  clearQueryCache,
+  fetchQuery,
+  revalidateQuery,
+  subscribeQuery,
+} from "./queryCache";
+
+const KEY = ["candles", "0x1"];
+
+afterEach(() => {
+  clearQueryCache();
+  vi.useRealTimers();
+});
+
+describe("subscribeQuery", () => {
+  it("goes stale after the shortest staleTime among its subscribers", async () => {
+    vi.useFakeTimers();
+    const fetcher = vi.fn(async () => "data");
+    const unsubscribeChart = subscribeQuery(KEY, {
+      fetcher,
+      staleTime: 5000,
+      listener: () => {},
+    });
+    subscribeQuery(KEY, { fetcher, staleTime: 60000, listener: () => {} });
+    await fetchQuery(KEY, fetcher);
+
+    vi.advanceTimersByTime(6000);
+    revalidateQuery(KEY);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    // Joins the revalidation in flight
+    await fetchQuery(KEY, fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    // With the chart gone the remaining subscriber's staleTime applies
+    unsubscribeChart();
+    vi.advanceTimersByTime(6000);
+    revalidateQuery(KEY);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,232 @@
+// Shared query cache for API reads. Entries are keyed by a serialisable query
+// key; concurrent fetches of the same key share one request, cached data is
+// served immediately and revalidated in the background once stale, and active
+// queries refetch when the window regains focus or the network reconnects.
+
+import { isCancelledError } from "@/lib/api/errors";
+
+export type QueryKey = readonly (string | number | boolean | null | undefined)[];
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  updatedAt: number; // 0 until the first successful fetch
+  isFetching: boolean;
+  isInvalidated: boolean;
+}
+
+interface QueryEntry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  promise: Promise<T> | null;
+  fetcher: (() => Promise<T>) | null; // Latest fetcher from a mounted query
+  staleTime: number; // Shortest staleTime among mounted queries
+  listeners: Set<() => void>;
+  staleTimes: Map<() => void, number>; // Each mounted query's staleTime
+}
+
+export const DEFAULT_STALE_TIME = 10000;
+
+const EMPTY_STATE: QueryState<never> = {
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+const entries = new Map<string, QueryEntry<unknown>>();
+
+export const hashQueryKey = (key: QueryKey) => JSON.stringify(key);
+
+const getEntry = <T>(key: QueryKey): QueryEntry<T> => {
+  const hash = hashQueryKey(key);
+  let entry = entries.get(hash) as QueryEntry<T> | undefined;
+  if (!entry) {
+    entry = {
+      key,
+      state: EMPTY_STATE,
+      promise: null,
+      fetcher: null,
+      staleTime: DEFAULT_STALE_TIME,
+      listeners: new Set(),
+      staleTimes: new Map(),
+    };
+    entries.set(hash, entry as QueryEntry<unknown>);
+  }
+  return entry;
+};
+
+// Replace the entry state (immutably, so snapshots change) and notify subscribers
+const setState = <T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+};
+
+const isStale = (entry: QueryEntry<unknown>) =>
+  entry.state.isInvalidated ||
+  entry.state.updatedAt === 0 ||
+  Date.now() - entry.state.updatedAt > entry.staleTime;
+
+// Does `key` start with every element of `prefix`?
+const matchesKey = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => key[index] === part);
+
+export const getQueryState = <T>(key: QueryKey): QueryState<T> =>
+  (entries.get(hashQueryKey(key))?.state as QueryState<T>) ?? EMPTY_STATE;
+
+export const getQueryData = <T>(key: QueryKey) => getQueryState<T>(key).data;
+
+// Fetch a key, sharing the request with any fetch already in flight
+export const fetchQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>
+): Promise<T> => {
+  const entry = getEntry<T>(key);
+  if (entry.promise) return entry.promise;
+
+  let cancelled = false;
+  const promise = fetcher()
+    .then((data) => {
+      setState(entry, {
+        data,
+        error: undefined,
+        updatedAt: Date.now(),
+        isFetching: false,
+        isInvalidated: false,
+      });
+      return data;
+    })
+    .catch((error) => {
+      if (isCancelledError(error)) {
+        cancelled = true;
+        // The component that started the fetch unmounted: not an error for
+        // the key, but anyone still subscribed needs a fresh request
+        setState(entry, { isFetching: false, isInvalidated: true });
+      } else {
+        // Keep serving the last good data alongside the error
+        setState(entry, { error, isFetching: false });
+      }
+      throw error;
+    })
+    .finally(() => {
+      entry.promise = null;
+      if (cancelled && entry.listeners.size > 0) {
+        revalidateQuery(entry.key);
+      }
+    });
+
+  entry.promise = promise;
+  setState(entry, { isFetching: true });
+  return promise;
+};
+
+// Fetch only if there is no fresh data for the key
+export const ensureQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>
+): Promise<T> => {
+  const entry = getEntry<T>(key);
+  if (!isStale(entry as QueryEntry<unknown>) && entry.state.data !== undefined) {
+    return Promise.resolve(entry.state.data);
+  }
+  return fetchQuery(key, fetcher);
+};
+
+// Register a mounted query's fetcher and listen for changes to its state. The
+// entry goes stale after the shortest staleTime of the queries mounted on it.
+export const subscribeQuery = <T>(
+  key: QueryKey,
+  options: {
+    fetcher: () => Promise<T>;
+    staleTime?: number;
+    listener: () => void;
+  }
+) => {
+  const entry = getEntry<T>(key);
+  entry.fetcher = options.fetcher;
+  entry.listeners.add(options.listener);
+  entry.staleTimes.set(
+    options.listener,
+    options.staleTime ?? DEFAULT_STALE_TIME
+  );
+  entry.staleTime = Math.min(...entry.staleTimes.values());
+  setupRevalidationListeners();
+
+  return () => {
+    entry.listeners.delete(options.listener);
+    entry.staleTimes.delete(options.listener);
+    if (entry.staleTimes.size) {
+      entry.staleTime = Math.min(...entry.staleTimes.values());
+    }
+  };
+};
+
+// Refetch a mounted query if its data is missing or stale
+export const revalidateQuery = (key: QueryKey) => {
+  const entry = entries.get(hashQueryKey(key));
+  if (!entry?.fetcher || !isStale(entry)) return;
+  fetchQuery(entry.key, entry.fetcher).catch(() => {
+    // Errors are stored on the entry for the query to render
+  });
+};
+
+// Write data straight into the cache (e.g. from a realtime update)
+export const setQueryData = <T>(
+  key: QueryKey,
+  updater: T | ((previous: T | undefined) => T | undefined)
+) => {
+  const entry = getEntry<T>(key);
+  const data =
+    typeof updater === "function"
+      ? (updater as (previous: T | undefined) => T | undefined)(
+          entry.state.data
+        )
+      : updater;
+  if (data === undefined) return;
+  setState(entry, { data, updatedAt: entry.state.updatedAt || Date.now() });
+};
+
+// Mark every key starting with `prefix` stale; mounted ones refetch right away
+export const invalidateQueries = (prefix: QueryKey) => {
+  entries.forEach((entry) => {
+    if (!matchesKey(entry.key, prefix)) return;
+    setState(entry, { isInvalidated: true });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher).catch(() => {
+        // Errors are stored on the entry for the query to render
+      });
+    }
+  });
+};
+
+// Drop cached data, e.g. when the user signs out
+export const clearQueryCache = (prefix: QueryKey = []) => {
+  entries.forEach((entry, hash) => {
+    if (!matchesKey(entry.key, prefix)) return;
+    if (entry.listeners.size > 0) {
+      setState(entry, EMPTY_STATE);
+    } else {
+      entries.delete(hash);
+    }
+  });
+};
+
+// Refetch every mounted, stale query
+const revalidateActiveQueries = () => {
+  entries.forEach((entry) => {
+    if (entry.listeners.size > 0) revalidateQuery(entry.key);
+  });
+};
+
+let revalidationListenersReady = false;
+
+// Revalidate on window focus and network reconnect (browser only, set up once)
+const setupRevalidationListeners = () => {
+  if (revalidationListenersReady || typeof window === "undefined") return;
+  revalidationListenersReady = true;
+
+  window.addEventListener("focus", revalidateActiveQueries);
+  window.addEventListener("online", revalidateActiveQueries);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") revalidateActiveQueries();
+  });
+};
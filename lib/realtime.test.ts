@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createMockTransport,
+  createRealtimeClient,
+  setRealtimeTransport,
+  type PriceTickEvent,
+} from "./realtime";
+
+const BACKOFF = { initialDelayMs: 100, maxDelayMs: 1000, factor: 2 };
+
+const tick: PriceTickEvent = {
+  tokenAddress: "0x0000000000000000000000000000000000000001",
+  price: "1000",
+  timestamp: "1700000000",
+};
+
+const flush = () => Promise.resolve();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("createRealtimeClient", () => {
+  it("connects on first retain and closes on last release", async () => {
+    const transport = createMockTransport();
+    const client = createRealtimeClient(transport, BACKOFF);
+    expect(transport.isConnected()).toBe(false);
+
+    const releaseA = client.retain();
+    const releaseB = client.retain();
+    await flush();
+    expect(client.getStatus()).toBe("open");
+    expect(transport.getConnectCount()).toBe(1);
+
+    releaseA();
+    releaseA();
+    expect(transport.isConnected()).toBe(true);
+    releaseB();
+    expect(transport.isConnected()).toBe(false);
+    expect(client.getStatus()).toBe("closed");
+  });
+
+  it("dispatches known events and ignores malformed frames", async () => {
+    const transport = createMockTransport();
+    const client = createRealtimeClient(transport, BACKOFF);
+    const onTick = vi.fn();
+    client.on("price_tick", onTick);
+    client.retain();
+    await flush();
+
+    transport.push("price_tick", tick);
+    transport.pushRaw("not json");
+    transport.pushRaw(JSON.stringify({ type: "unknown", data: {} }));
+    expect(onTick).toHaveBeenCalledTimes(1);
+    expect(onTick).toHaveBeenCalledWith(tick);
+  });
+
+  it("reconnects with backoff after the server drops", async () => {
+    const transport = createMockTransport();
+    const client = createRealtimeClient(transport, BACKOFF);
+    client.retain();
+    await flush();
+
+    transport.disconnect();
+    expect(client.getStatus()).toBe("reconnecting");
+    vi.advanceTimersByTime(BACKOFF.initialDelayMs);
+    await flush();
+    expect(transport.getConnectCount()).toBe(2);
+    expect(client.getStatus()).toBe("open");
+  });
+
+  it("stays closed and silent once destroyed", async () => {
+    const transport = createMockTransport();
+    const client = createRealtimeClient(transport, BACKOFF);
+    const onTick = vi.fn();
+    client.on("price_tick", onTick);
+    client.retain();
+    await flush();
+
+    client.destroy();
+    expect(transport.isConnected()).toBe(false);
+    client.emit("price_tick", tick);
+    client.retain();
+    await flush();
+    expect(onTick).not.toHaveBeenCalled();
+    expect(transport.getConnectCount()).toBe(1);
+  });
+});
+
+describe("setRealtimeTransport", () => {
+  it("shuts down the previous client", async () => {
+    const first = createMockTransport();
+    const previous = setRealtimeTransport(first, BACKOFF);
+    previous.retain();
+    await flush();
+    expect(first.isConnected()).toBe(true);
+
+    const second = createMockTransport();
+    setRealtimeTransport(second, BACKOFF);
+    expect(first.isConnected()).toBe(false);
+    expect(previous.getStatus()).toBe("closed");
+  });
+});
@@ -0,0 +1,372 @@
+import mitt from "mitt";
+import { isSameAddress } from "@/lib/utils";
+
+// Realtime market data stream (trades, price ticks, token launches).
+// The wire format is JSON: { "type": "<event type>", "data": { ... } }.
+// The transport is pluggable so the client can run over SSE, WebSocket or a
+// local mock server during development.
+
+export interface TradeEvent {
+  tokenAddress: string;
+  type: "buy" | "sell";
+  wallet: string;
+  amountIn: string; // USDT wei for buys, token wei for sells
+  amountOut: string; // Token wei for buys, USDT wei for sells
+  price?: string; // Token price after the trade in USDT (wei)
+  marketCap?: string; // Market cap after the trade in USDT (wei)
+  totalUsdtRaised?: string; // Total USDT raised after the trade (wei)
+  timestamp: string; // Unix seconds
+  blockNumber: string;
+  eventId: string;
+  transactionHash?: string;
+}
+
+export interface PriceTickEvent {
+  tokenAddress: string;
+  price: string; // Token price in USDT (wei)
+  marketCap?: string; // Market cap in USDT (wei)
+  totalUsdtRaised?: string; // Total USDT raised via bonding curve (wei)
+  volume24hTotal?: string; // 24h total volume in USDT (wei)
+  timestamp: string; // Unix seconds
+}
+
+export interface TokenLaunchEvent {
+  tokenAddress: string;
+  creator: string;
+  name: string;
+  symbol: string;
+  image?: string;
+  timestamp: string; // Unix seconds
+}
+
+// Define event types for type safety
+export type RealtimeEvents = {
+  trade: TradeEvent;
+  price_tick: PriceTickEvent;
+  token_created: TokenLaunchEvent;
+};
+
+export type RealtimeEventType = keyof RealtimeEvents;
+
+// Event types for easy reference
+export const REALTIME_EVENTS = {
+  TRADE: "trade" as const,
+  PRICE_TICK: "price_tick" as const,
+  TOKEN_CREATED: "token_created" as const,
+} as const;
+
+export type RealtimeStatus =
+  | "idle"
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "closed";
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+export interface TransportConnection {
+  close: () => void;
+}
+
+export interface RealtimeTransport {
+  name: string;
+  connect: (handlers: TransportHandlers) => TransportConnection;
+}
+
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+}
+
+const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  factor: 2,
+};
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:42069";
+
+// Server-Sent Events transport (one-way, reconnects are handled by the client)
+export const createSseTransport = (url: string): RealtimeTransport => ({
+  name: "sse",
+  connect: (handlers) => {
+    const source = new EventSource(url);
+    source.onopen = () => handlers.onOpen();
+    source.onmessage = (event) => handlers.onMessage(event.data);
+    source.onerror = (error) => {
+      handlers.onError(error);
+      // EventSource retries on its own; close it so our backoff stays in charge
+      source.close();
+      handlers.onClose();
+    };
+    return { close: () => source.close() };
+  },
+});
+
+// WebSocket transport
+export const createWebSocketTransport = (url: string): RealtimeTransport => ({
+  name: "websocket",
+  connect: (handlers) => {
+    const socket = new WebSocket(url);
+    socket.onopen = () => handlers.onOpen();
+    socket.onmessage = (event) => handlers.onMessage(String(event.data));
+    socket.onerror = (error) => handlers.onError(error);
+    socket.onclose = () => handlers.onClose();
+    return {
+      close: () => {
+        socket.onclose = null;
+        socket.close();
+      },
+    };
+  },
+});
+
+// Pick the transport from env, e.g. NEXT_PUBLIC_REALTIME_URL=ws://localhost:42070
+export const createDefaultTransport = (): RealtimeTransport => {
+  const url = process.env.NEXT_PUBLIC_REALTIME_URL || `${API_URL}/stream`;
+  const transport =
+    process.env.NEXT_PUBLIC_REALTIME_TRANSPORT ||
+    (url.startsWith("ws") ? "websocket" : "sse");
+
+  return transport === "websocket"
+    ? createWebSocketTransport(url)
+    : createSseTransport(url);
+};
+
+export interface MockTransport extends RealtimeTransport {
+  // Deliver an event to the open connection, as the server would
+  push: <T extends RealtimeEventType>(type: T, data: RealtimeEvents[T]) => void;
+  // Deliver a raw frame, e.g. malformed JSON
+  pushRaw: (data: string) => void;
+  // Drop the open connection from the server side
+  disconnect: () => void;
+  isConnected: () => boolean;
+  getConnectCount: () => number;
+}
+
+// In-memory transport for tests and local development without a stream server.
+// Connections open on the next microtask, like a real socket's handshake.
+export const createMockTransport = (): MockTransport => {
+  let handlers: TransportHandlers | null = null;
+  let connectCount = 0;
+
+  return {
+    name: "mock",
+    connect: (nextHandlers) => {
+      connectCount += 1;
+      const current = nextHandlers;
+      handlers = current;
+      Promise.resolve().then(() => {
+        if (handlers === current) current.onOpen();
+      });
+      return {
+        close: () => {
+          if (handlers === current) handlers = null;
+        },
+      };
+    },
+    push: (type, data) => handlers?.onMessage(JSON.stringify({ type, data })),
+    pushRaw: (data) => handlers?.onMessage(data),
+    disconnect: () => {
+      const current = handlers;
+      handlers = null;
+      current?.onClose();
+    },
+    isConnected: () => handlers !== null,
+    getConnectCount: () => connectCount,
+  };
+};
+
+const isRealtimeEventType = (type: unknown): type is RealtimeEventType =>
+  typeof type === "string" &&
+  Object.values(REALTIME_EVENTS).includes(type as RealtimeEventType);
+
+export const createRealtimeClient = (
+  transport: RealtimeTransport,
+  backoff: BackoffOptions = DEFAULT_BACKOFF
+) => {
+  const emitter = mitt<RealtimeEvents>();
+  const statusListeners = new Set<(status: RealtimeStatus) => void>();
+
+  let status: RealtimeStatus = "idle";
+  let connection: TransportConnection | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let subscribers = 0;
+  let destroyed = false;
+
+  const setStatus = (next: RealtimeStatus) => {
+    status = next;
+    statusListeners.forEach((listener) => listener(next));
+  };
+
+  // Exponential backoff with jitter so reconnecting clients don't stampede
+  const getReconnectDelay = () => {
+    const base = Math.min(
+      backoff.maxDelayMs,
+      backoff.initialDelayMs * Math.pow(backoff.factor, attempt)
+    );
+    return base / 2 + Math.random() * (base / 2);
+  };
+
+  const handleMessage = (raw: string) => {
+    try {
+      const message = JSON.parse(raw);
+      if (!isRealtimeEventType(message?.type) || !message.data) {
+        console.warn(`[REALTIME] Ignoring unknown message:`, message);
+        return;
+      }
+      emitter.emit(message.type, message.data);
+    } catch (error) {
+      console.error(`[REALTIME] Failed to parse message:`, error);
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (subscribers === 0 || reconnectTimer) return;
+    const delay = getReconnectDelay();
+    attempt += 1;
+    setStatus("reconnecting");
+    console.log(
+      `[REALTIME] Reconnecting via ${transport.name} in ${Math.round(
+        delay
+      )}ms (attempt ${attempt})`
+    );
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      open();
+    }, delay);
+  };
+
+  const open = () => {
+    if (connection) return;
+    if (status !== "reconnecting") setStatus("connecting");
+
+    connection = transport.connect({
+      onOpen: () => {
+        attempt = 0;
+        setStatus("open");
+        console.log(`[REALTIME] Connected via ${transport.name}`);
+      },
+      onMessage: handleMessage,
+      onError: (error) => {
+        console.error(`[REALTIME] Transport error:`, error);
+      },
+      onClose: () => {
+        connection = null;
+        scheduleReconnect();
+      },
+    });
+  };
+
+  const close = () => {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (connection) {
+      connection.close();
+      connection = null;
+    }
+    attempt = 0;
+    setStatus("closed");
+  };
+
+  // Keep the connection open while at least one consumer holds it
+  const retain = () => {
+    if (destroyed) return () => {};
+    subscribers += 1;
+    if (subscribers === 1) open();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      if (destroyed) return;
+      subscribers -= 1;
+      if (subscribers === 0) close();
+    };
+  };
+
+  // Close the connection for good and drop every listener
+  const destroy = () => {
+    destroyed = true;
+    subscribers = 0;
+    close();
+    emitter.all.clear();
+    statusListeners.clear();
+  };
+
+  const onStatusChange = (listener: (status: RealtimeStatus) => void) => {
+    statusListeners.add(listener);
+    return () => {
+      statusListeners.delete(listener);
+    };
+  };
+
+  return {
+    on: emitter.on,
+    off: emitter.off,
+    emit: emitter.emit,
+    retain,
+    destroy,
+    onStatusChange,
+    getStatus: () => status,
+  };
+};
+
+export type RealtimeClient = ReturnType<typeof createRealtimeClient>;
+
+let realtimeClient: RealtimeClient | null = null;
+
+// Shared client instance, created lazily in the browser
+export const getRealtimeClient = () => {
+  if (!realtimeClient) {
+    realtimeClient = createRealtimeClient(createDefaultTransport());
+  }
+  return realtimeClient;
+};
+
+// Swap the transport (before components mount), e.g. to point at a local mock
+// server or createMockTransport(). The previous client is shut down.
+export const setRealtimeTransport = (
+  transport: RealtimeTransport,
+  backoff?: BackoffOptions
+) => {
+  realtimeClient?.destroy();
+  realtimeClient = createRealtimeClient(transport, backoff);
+  return realtimeClient;
+};
+
+interface MarketFields {
+  tokenAddress: string;
+  price?: string;
+  marketCap?: string;
+  totalUsdtRaised?: string;
+  volume24hTotal?: string;
+}
+
+// Merge a trade or price tick into a token list, leaving other tokens untouched
+export const applyMarketUpdate = <T extends MarketFields>(
+  tokens: T[],
+  update: TradeEvent | PriceTickEvent
+): T[] =>
+  tokens.map((token) => {
+    if (!isSameAddress(token.tokenAddress, update.tokenAddress)) return token;
+    return {
+      ...token,
+      ...(update.price && { price: update.price }),
+      ...(update.marketCap && { marketCap: update.marketCap }),
+      ...(update.totalUsdtRaised && {
+        totalUsdtRaised: update.totalUsdtRaised,
+      }),
+      ...("volume24hTotal" in update &&
+        update.volume24hTotal && { volume24hTotal: update.volume24hTotal }),
+    };
+  });
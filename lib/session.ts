@@ -0,0 +1,357 @@
+import axios from "axios";
+import { parseAuthSession } from "@/lib/api/client";
+import { ApiError, toApiError } from "@/lib/api/errors";
+import type { AuthSession } from "@/lib/api/types";
+import { sessionEventEmitter, SESSION_EVENTS } from "@/lib/eventEmitter";
+import { clearQueryCache } from "@/lib/queryCache";
+import { useChatStore } from "@/stores/chatStore";
+import { AuthMethod, useUserStore } from "@/stores/userStore";
+import { useWalletStore } from "@/stores/walletStore";
+
+// Session manager: owns the access/refresh token pair, refreshes the access
+// JWT shortly before it expires (rotating the refresh token each time) and is
+// the only place that signs the user out. When a session can't be refreshed,
+// requests that hit a 401 wait here until the user signs in again, then resume.
+//
+// Refresh contract: POST /auth/refresh { refreshToken }
+//   -> { success, token, refreshToken, email, walletAddress }
+//
+// Tabs share the token pair through localStorage, so refreshes are serialized
+// across tabs with a Web Lock: the first tab rotates the pair and the others
+// adopt it instead of replaying the now-invalid refresh token.
+
+export type SessionStatus = "signed_out" | "active" | "expired";
+
+const AUTH_TOKEN_KEY = "authToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const REFRESH_MARGIN_MS = 60000; // Refresh this long before the JWT expires
+const REFRESH_TIMEOUT_MS = 15000;
+const MAX_TIMER_DELAY_MS = 2147483647; // setTimeout overflows past this
+const REFRESH_LOCK_NAME = "sei-agentfi-auth-refresh";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:42069";
+
+interface ReauthWaiter {
+  resolve: () => void;
+  reject: (error: ApiError) => void;
+}
+
+let status: SessionStatus = "signed_out";
+let initialized = false;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshPromise: Promise<string> | null = null;
+const reauthWaiters = new Set<ReauthWaiter>();
+
+const isBrowser = () => typeof window !== "undefined";
+
+export const getAuthToken = () =>
+  isBrowser() ? localStorage.getItem(AUTH_TOKEN_KEY) : null;
+
+const getRefreshToken = () =>
+  isBrowser() ? localStorage.getItem(REFRESH_TOKEN_KEY) : null;
+
+const storeTokens = (token: string, refreshToken?: string) => {
+  localStorage.setItem(AUTH_TOKEN_KEY, token);
+  if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+const clearTokens = () => {
+  localStorage.removeItem(AUTH_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+// Expiry (ms since epoch) from the JWT's `exp` claim, if it has one
+const getTokenExpiry = (token: string) => {
+  try {
+    const payload = token.split(".")[1];
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const { exp } = JSON.parse(json) as { exp?: unknown };
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const isTokenExpiring = (token: string) => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - Date.now() < REFRESH_MARGIN_MS;
+};
+
+const clearRefreshTimer = () => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+};
+
+// Refresh proactively before the access token expires
+const scheduleRefresh = (token: string) => {
+  clearRefreshTimer();
+  const expiry = getTokenExpiry(token);
+  if (expiry === null) return;
+
+  const delay = Math.min(
+    MAX_TIMER_DELAY_MS,
+    Math.max(0, expiry - REFRESH_MARGIN_MS - Date.now())
+  );
+  refreshTimer = setTimeout(() => {
+    refreshSession().catch(() => expireSession());
+  }, delay);
+};
+
+// Run `task` holding a lock shared by every tab. Browsers without Web Locks
+// run it directly and rely on the re-checks in refreshSession.
+const withRefreshLock = <T>(task: () => Promise<T>): Promise<T> =>
+  typeof navigator !== "undefined" && navigator.locks
+    ? navigator.locks.request(REFRESH_LOCK_NAME, task)
+    : task();
+
+const settleReauthWaiters = (error?: ApiError) => {
+  reauthWaiters.forEach((waiter) =>
+    error ? waiter.reject(error) : waiter.resolve()
+  );
+  reauthWaiters.clear();
+};
+
+// Mark the session usable again and resume any actions waiting on sign-in
+const activate = (token: string) => {
+  status = "active";
+  scheduleRefresh(token);
+  settleReauthWaiters();
+};
+
+// Use a fresh access token another tab stored since `previousToken` was read
+const adoptRotatedToken = (previousToken: string | null) => {
+  const token = getAuthToken();
+  if (!token || token === previousToken || isTokenExpiring(token)) return null;
+  console.log("[SESSION] Using the token refreshed by another tab");
+  activate(token);
+  return token;
+};
+
+export const getSessionStatus = () => status;
+
+export const getPendingActionCount = () => reauthWaiters.size;
+
+// Start a session from a sign-in response
+export const startSession = (
+  session: AuthSession,
+  authMethod: AuthMethod = "email"
+) => {
+  storeTokens(session.token, session.refreshToken);
+  const user = useUserStore.getState();
+  user.setUserData(session.email, session.walletAddress);
+  user.setAuthMethod(authMethod);
+  activate(session.token);
+  sessionEventEmitter.emit(SESSION_EVENTS.SIGNED_IN, {
+    email: session.email,
+    walletAddress: session.walletAddress,
+    authMethod,
+  });
+};
+
+// Exchange the refresh token for a new token pair. Concurrent callers share
+// one request, since the old refresh token is invalid once rotated.
+export const refreshSession = () => {
+  if (refreshPromise) return refreshPromise;
+
+  if (!getRefreshToken()) {
+    return Promise.reject(
+      new ApiError("unauthorized", "No refresh token available")
+    );
+  }
+
+  const previousToken = getAuthToken();
+  refreshPromise = withRefreshLock(async () => {
+    // Another tab may have rotated the pair while this one waited for the lock
+    const adopted = adoptRotatedToken(previousToken);
+    if (adopted) return adopted;
+
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) {
+      throw new ApiError("unauthorized", "No refresh token available");
+    }
+
+    console.log("[SESSION] Refreshing access token");
+    try {
+      const response = await axios.post(
+        `${API_URL}/auth/refresh`,
+        { refreshToken },
+        { timeout: REFRESH_TIMEOUT_MS }
+      );
+      const session = parseAuthSession("POST /auth/refresh", response.data);
+      storeTokens(session.token, session.refreshToken);
+      activate(session.token);
+      sessionEventEmitter.emit(SESSION_EVENTS.REFRESHED);
+      return session.token;
+    } catch (error) {
+      // Lost a race with a tab that refreshed without the lock: its new pair
+      // is already stored, so use that rather than ending the session
+      const rotated = adoptRotatedToken(previousToken);
+      if (rotated) return rotated;
+
+      const apiError = toApiError(error);
+      console.error("[SESSION] Token refresh failed:", apiError.message);
+      // A rejected refresh token is dead for good; network errors aren't.
+      // Only drop it if it is still the stored one.
+      if (
+        (apiError.status === 400 || apiError.status === 401) &&
+        getRefreshToken() === refreshToken
+      ) {
+        localStorage.removeItem(REFRESH_TOKEN_KEY);
+      }
+      throw apiError;
+    }
+  }).finally(() => {
+    refreshPromise = null;
+  });
+
+  return refreshPromise;
+};
+
+// The session can't be refreshed: keep the user's data but require sign-in
+export const expireSession = () => {
+  if (status === "expired") return;
+  console.log("[SESSION] Session expired, waiting for sign-in");
+  status = "expired";
+  clearRefreshTimer();
+  localStorage.removeItem(AUTH_TOKEN_KEY);
+  sessionEventEmitter.emit(SESSION_EVENTS.EXPIRED);
+};
+
+// Resolves once the user signs in again; rejects if they sign out instead
+const waitForReauth = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError("cancelled", "Request was cancelled"));
+      return;
+    }
+    const waiter: ReauthWaiter = {
+      resolve: () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    };
+    const onAbort = () => {
+      reauthWaiters.delete(waiter);
+      reject(new ApiError("cancelled", "Request was cancelled"));
+    };
+    reauthWaiters.add(waiter);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// A request failed with 401 using `failedToken`. Resolves when it is worth
+// retrying (token refreshed or user signed back in), otherwise rejects.
+export const recoverSession = async (
+  failedToken: string | null,
+  signal?: AbortSignal
+) => {
+  if (!useUserStore.getState().isAuthenticated) {
+    throw new ApiError("unauthorized", "Not signed in");
+  }
+
+  // Another request already refreshed the token
+  const currentToken = getAuthToken();
+  if (currentToken && currentToken !== failedToken) return;
+
+  if (status !== "expired") {
+    try {
+      await refreshSession();
+      return;
+    } catch {
+      // Fall through to asking the user to sign in again
+    }
+  }
+
+  const reauthenticated = waitForReauth(signal);
+  expireSession();
+  await reauthenticated;
+};
+
+// Access token for the next request, refreshed first if it's about to expire
+export const getFreshAuthToken = async () => {
+  initSession();
+  const token = getAuthToken();
+  if (token && status === "active" && isTokenExpiring(token)) {
+    try {
+      return await refreshSession();
+    } catch {
+      // Send the old token; a 401 goes through recoverSession
+    }
+  }
+  return token;
+};
+
+// The single sign-out path: tokens, user store, cached queries and chat state
+export const logout = () => {
+  console.log("[SESSION] Signing out");
+  status = "signed_out";
+  clearRefreshTimer();
+  clearTokens();
+  useUserStore.getState().logout();
+  useWalletStore.getState().disconnect();
+  useChatStore.getState().clearCurrentToken();
+  clearQueryCache();
+  settleReauthWaiters(new ApiError("unauthorized", "Signed out"));
+  sessionEventEmitter.emit(SESSION_EVENTS.LOGGED_OUT);
+};
+
+// Reconcile stored tokens with the persisted user store (browser only, once)
+export const initSession = () => {
+  if (initialized || !isBrowser()) return;
+  initialized = true;
+
+  const token = getAuthToken();
+  const { isAuthenticated } = useUserStore.getState();
+
+  if (token && !isTokenExpiring(token)) {
+    status = "active";
+    scheduleRefresh(token);
+  } else if (getRefreshToken()) {
+    status = "active";
+    refreshSession().catch(() =>
+      isAuthenticated ? expireSession() : logout()
+    );
+  } else if (token) {
+    // Expiring with no way to refresh: use it until the backend says no
+    status = "active";
+  } else if (isAuthenticated) {
+    // The store thinks we're signed in but there's nothing to sign in with
+    logout();
+  }
+
+};
+
+// Mirror session changes made in another tab (see lib/tabSync.ts). Tokens
+// live in shared localStorage, so only in-memory state needs updating.
+
+export const applyRemoteSignIn = (
+  email: string,
+  walletAddress: string,
+  authMethod: AuthMethod
+) => {
+  const token = getAuthToken();
+  if (!token) return;
+  const user = useUserStore.getState();
+  user.setUserData(email, walletAddress);
+  user.setAuthMethod(authMethod);
+  activate(token);
+  sessionEventEmitter.emit(SESSION_EVENTS.SIGNED_IN, {
+    email,
+    walletAddress,
+    authMethod,
+  });
+};
+
+export const applyRemoteRefresh = () => {
+  const token = getAuthToken();
+  if (!token) return;
+  if (status === "expired") {
+    activate(token);
+    sessionEventEmitter.emit(SESSION_EVENTS.REFRESHED);
+  } else if (status === "active") {
+    scheduleRefresh(token);
+  }
+};
@@ -0,0 +1,220 @@
+import {
+  alertEventEmitter,
+  ALERT_EVENTS,
+  chatEventEmitter,
+  CHAT_EVENTS,
+  sessionEventEmitter,
+  SESSION_EVENTS,
+} from "@/lib/eventEmitter";
+import type { TokenBalance } from "@/lib/api/types";
+import { AppNotification, showToast } from "@/lib/notifications";
+import { applyRemoteRefresh, applyRemoteSignIn, logout } from "@/lib/session";
+import { AuthMethod, useUserStore } from "@/stores/userStore";
+import { useAlertStore } from "@/stores/alertStore";
+import { useWatchlistStore } from "@/stores/watchlistStore";
+
+// Cross-tab sync: sign-in/out, balance updates, chat refresh events, price
+// alerts and watchlists changed in one tab are replayed in every other open
+// tab. Messages go over a BroadcastChannel, falling back to `storage` events
+// where it's unavailable. Work that must run in one tab only (e.g. evaluating
+// price alerts) goes to a leader tab elected with a Web Lock.
+
+type TabSyncMessage =
+  | {
+      type: "signed_in";
+      email: string;
+      walletAddress: string;
+      authMethod: AuthMethod;
+    }
+  | { type: "refreshed" }
+  | { type: "logged_out" }
+  | {
+      type: "balances";
+      ethBalance: string;
+      usdtBalance: string;
+      tokenBalances: TokenBalance[];
+    }
+  | { type: "refresh_tokens" }
+  | { type: "refresh_token_data"; tokenAddress?: string }
+  | { type: "alert_triggered"; notification: AppNotification };
+
+const CHANNEL_NAME = "sei-agentfi-sync";
+const STORAGE_KEY = "sei-agentfi-sync";
+const LOCK_PREFIX = "sei-agentfi-leader-";
+
+let initialized = false;
+let channel: BroadcastChannel | null = null;
+
+// True while replaying a message from another tab, so it isn't sent back
+let applyingRemote = false;
+
+const send = (message: TabSyncMessage) => {
+  if (applyingRemote) return;
+
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+
+  // `storage` events fire in other tabs only when the value changes, hence the nonce
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ message, nonce: `${Date.now()}-${Math.random()}` })
+    );
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("[TAB SYNC] Failed to broadcast via storage:", error);
+  }
+};
+
+const applyMessage = (message: TabSyncMessage) => {
+  applyingRemote = true;
+  try {
+    switch (message.type) {
+      case "signed_in":
+        applyRemoteSignIn(
+          message.email,
+          message.walletAddress,
+          message.authMethod
+        );
+        break;
+      case "refreshed":
+        applyRemoteRefresh();
+        break;
+      case "logged_out":
+        logout();
+        break;
+      case "balances":
+        useUserStore
+          .getState()
+          .setBalances(
+            message.ethBalance,
+            message.usdtBalance,
+            message.tokenBalances
+          );
+        break;
+      case "refresh_tokens":
+        chatEventEmitter.emit(CHAT_EVENTS.REFRESH_TOKENS);
+        break;
+      case "refresh_token_data":
+        chatEventEmitter.emit(CHAT_EVENTS.REFRESH_TOKEN_DATA, {
+          tokenAddress: message.tokenAddress,
+        });
+        break;
+      case "alert_triggered":
+        // The leader tab already sent the browser notification
+        showToast(message.notification);
+        break;
+    }
+  } finally {
+    applyingRemote = false;
+  }
+};
+
+// Start relaying local events to other tabs and listening for theirs
+// (browser only, once)
+export const initTabSync = () => {
+  if (initialized || typeof window === "undefined") return;
+  initialized = true;
+
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) =>
+      applyMessage(event.data);
+  } else {
+    window.addEventListener("storage", (event) => {
+      if (event.key !== STORAGE_KEY || !event.newValue) return;
+      try {
+        applyMessage(JSON.parse(event.newValue).message);
+      } catch (error) {
+        console.error("[TAB SYNC] Ignoring malformed message:", error);
+      }
+    });
+  }
+
+  // The persisted stores are shared, but each tab keeps its own copy in
+  // memory: reload them whenever another tab writes them
+  window.addEventListener("storage", (event) => {
+    if (event.key === useUserStore.persist.getOptions().name) {
+      applyingRemote = true;
+      Promise.resolve(useUserStore.persist.rehydrate()).finally(() => {
+        applyingRemote = false;
+      });
+    } else if (event.key === useAlertStore.persist.getOptions().name) {
+      useAlertStore.persist.rehydrate();
+    } else if (event.key === useWatchlistStore.persist.getOptions().name) {
+      useWatchlistStore.persist.rehydrate();
+    }
+  });
+
+  // Session
+  sessionEventEmitter.on(SESSION_EVENTS.SIGNED_IN, (user) =>
+    send({ type: "signed_in", ...user })
+  );
+  sessionEventEmitter.on(SESSION_EVENTS.REFRESHED, () =>
+    send({ type: "refreshed" })
+  );
+  sessionEventEmitter.on(SESSION_EVENTS.LOGGED_OUT, () =>
+    send({ type: "logged_out" })
+  );
+
+  // Balances
+  useUserStore.subscribe((state, previous) => {
+    if (
+      state.ethBalance === previous.ethBalance &&
+      state.usdtBalance === previous.usdtBalance &&
+      state.tokenBalances === previous.tokenBalances
+    ) {
+      return;
+    }
+    send({
+      type: "balances",
+      ethBalance: state.ethBalance,
+      usdtBalance: state.usdtBalance,
+      tokenBalances: state.tokenBalances,
+    });
+  });
+
+  // Chat actions
+  chatEventEmitter.on(CHAT_EVENTS.REFRESH_TOKENS, () =>
+    send({ type: "refresh_tokens" })
+  );
+  chatEventEmitter.on(CHAT_EVENTS.REFRESH_TOKEN_DATA, ({ tokenAddress }) =>
+    send({ type: "refresh_token_data", tokenAddress })
+  );
+
+  // Alerts
+  alertEventEmitter.on(ALERT_EVENTS.TRIGGERED, (notification) =>
+    send({ type: "alert_triggered", notification })
+  );
+};
+
+// Run `onLead` in one tab at a time: whichever holds the named Web Lock. When
+// the leader closes, the next waiting tab takes over. Returns a function that
+// gives up the lead or stops waiting for it. Without Web Locks, every tab leads.
+export const requestTabLeadership = (name: string, onLead: () => void) => {
+  if (typeof navigator === "undefined" || !navigator.locks) {
+    onLead();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let resign = () => {};
+  navigator.locks
+    .request(`${LOCK_PREFIX}${name}`, { signal: controller.signal }, () => {
+      onLead();
+      // Hold the lock until resigning
+      return new Promise<void>((resolve) => {
+        resign = resolve;
+      });
+    })
+    .catch(() => {
+      // Stopped waiting before becoming leader
+    });
+
+  return () => {
+    controller.abort();
+    resign();
+  };
+};
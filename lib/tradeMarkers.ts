@@ -0,0 +1,140 @@
+import { formatUnits } from "viem";
+import { isSameAddress } from "@/lib/utils";
+import { getBucketTime, CandleTrade } from "@/lib/candles";
+import type { BacktestTrade } from "@/lib/backtest";
+import type { BotLog } from "@/lib/api/types";
+
+// Trade markers plotted on the token chart: the user's own fills from the
+// token's trade history, their market maker bot's trades from
+// `/market-maker/logs/:addr` and the trades of a simulated bot.
+
+export type TradeMarkerSource = "me" | "bot" | "backtest";
+
+export interface TradeMarker {
+  id: string;
+  source: TradeMarkerSource;
+  side: "buy" | "sell";
+  time: number; // Unix seconds
+  usdtAmount?: number; // USDT (natural units)
+  tokenAmount?: number; // Tokens (natural units)
+  price?: number; // USDT per token (natural units)
+  transactionHash?: string;
+}
+
+// Trade shape from `recentTransactions` and realtime trade events
+export interface WalletTrade extends CandleTrade {
+  wallet: string;
+  eventId: string;
+  transactionHash?: string;
+}
+
+const TX_HASH_PATTERN = /^0x[0-9a-fA-F]{64}/;
+
+const fromWei = (value: string | undefined) => {
+  if (!value || value === "0") return undefined;
+  try {
+    return parseFloat(formatUnits(BigInt(value), 18));
+  } catch {
+    return undefined;
+  }
+};
+
+// Indexer event ids are prefixed with the transaction hash
+export const getTradeTransactionHash = (trade: WalletTrade) => {
+  if (trade.transactionHash) return trade.transactionHash;
+  return trade.eventId.match(TX_HASH_PATTERN)?.[0];
+};
+
+// Markers for trades made by `walletAddress`
+export const getWalletTradeMarkers = (
+  trades: WalletTrade[],
+  walletAddress: string
+): TradeMarker[] =>
+  trades
+    .filter((trade) => isSameAddress(trade.wallet, walletAddress))
+    .map((trade) => {
+      const usdtAmount = fromWei(
+        trade.type === "buy" ? trade.amountIn : trade.amountOut
+      );
+      const tokenAmount = fromWei(
+        trade.type === "buy" ? trade.amountOut : trade.amountIn
+      );
+      return {
+        id: `me-${trade.eventId}`,
+        source: "me" as const,
+        side: trade.type,
+        time: parseInt(trade.timestamp),
+        usdtAmount,
+        tokenAmount,
+        price:
+          usdtAmount !== undefined && tokenAmount
+            ? usdtAmount / tokenAmount
+            : undefined,
+        transactionHash: getTradeTransactionHash(trade),
+      };
+    });
+
+// Markers for successful bot buys and sells
+export const getBotTradeMarkers = (logs: BotLog[]): TradeMarker[] =>
+  logs
+    .filter(
+      (log) => log.success && (log.action === "buy" || log.action === "sell")
+    )
+    .map((log, index) => ({
+      id: `bot-${log.transactionHash ?? `${log.timestamp}-${index}`}`,
+      source: "bot" as const,
+      side: log.action as "buy" | "sell",
+      time: Math.floor(new Date(log.timestamp).getTime() / 1000),
+      usdtAmount: fromWei(log.amount),
+      price: fromWei(log.priceAfter) ?? fromWei(log.priceBefore),
+      transactionHash: log.transactionHash,
+    }));
+
+// Markers for a backtest's simulated trades
+export const getBacktestTradeMarkers = (
+  trades: BacktestTrade[]
+): TradeMarker[] =>
+  trades.map((trade, index) => ({
+    id: `backtest-${index}`,
+    source: "backtest" as const,
+    side: trade.side,
+    time: trade.time,
+    usdtAmount: trade.usdtAmount,
+    tokenAmount: trade.tokenAmount,
+    price: trade.price,
+  }));
+
+const getMarkerSourceLabel = (source: TradeMarkerSource) =>
+  source === "bot" ? "Bot" : source === "backtest" ? "Sim" : "You";
+
+// Series markers snapped to candle buckets, sorted by time as the chart requires
+export const toSeriesMarkers = (
+  markers: TradeMarker[],
+  intervalSeconds: number
+) =>
+  markers
+    .filter((marker) => !isNaN(marker.time))
+    .sort((a, b) => a.time - b.time)
+    .map((marker) => ({
+      id: marker.id,
+      time: getBucketTime(marker.time, intervalSeconds),
+      position:
+        marker.side === "buy" ? ("belowBar" as const) : ("aboveBar" as const),
+      shape:
+        marker.side === "buy" ? ("arrowUp" as const) : ("arrowDown" as const),
+      color:
+        marker.source === "backtest"
+          ? marker.side === "buy"
+            ? "#22d3ee"
+            : "#e879f9"
+          : marker.source === "bot"
+          ? marker.side === "buy"
+            ? "#3b82f6"
+            : "#f59e0b"
+          : marker.side === "buy"
+          ? "#10b981"
+          : "#ef4444",
+      text: `${getMarkerSourceLabel(marker.source)} ${
+        marker.side === "buy" ? "B" : "S"
+      }`,
+    }));
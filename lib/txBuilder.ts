@@ -0,0 +1,239 @@
+import {
+  createPublicClient,
+  formatUnits,
+  http,
+  type Address,
+  type Hash,
+} from "viem";
+import {
+  BONDING_CURVE_ADDRESS,
+  bondingCurveAbi,
+  erc20Abi,
+  RPC_URL,
+  USDT_ADDRESS,
+  walletChain,
+} from "@/lib/contracts";
+import { CURVE_DECIMALS } from "@/lib/bondingCurve";
+import {
+  ensureChain,
+  getWalletClient,
+  getWalletErrorMessage,
+  WalletError,
+} from "@/lib/wallet";
+
+// Client-side transaction builder for self-custody trades. A buy is an
+// optional USDT approval followed by the curve call; each transaction is
+// simulated, gas-estimated, signed in the browser wallet and awaited until
+// mined, reporting its progress so the UI can show a pending -> confirmed ->
+// failed lifecycle. Works against any RPC, including a local anvil node.
+
+export type TxStepId = "approve" | "trade";
+
+export type TxStepStatus =
+  | "waiting" // Not started yet
+  | "signing" // Waiting for the wallet signature
+  | "pending" // Sent, waiting to be mined
+  | "confirmed"
+  | "failed";
+
+export interface TxStep {
+  id: TxStepId;
+  label: string;
+  status: TxStepStatus;
+  hash?: Hash;
+  error?: string;
+}
+
+export interface WalletTradeParams {
+  account: Address;
+  side: "buy" | "sell";
+  tokenAddress: Address;
+  amountIn: bigint; // USDT wei for buys, token wei for sells
+  minAmountOut: bigint;
+  tokenSymbol?: string;
+}
+
+export interface WalletBalances {
+  usdt: bigint; // USDT wei
+  token: bigint; // Token wei
+}
+
+const GAS_BUFFER_PERCENT = BigInt(120); // Headroom over the estimate
+
+let publicClient: ReturnType<typeof createPublicClient> | null = null;
+
+const getPublicClient = () => {
+  if (!publicClient) {
+    publicClient = createPublicClient({
+      chain: walletChain,
+      transport: http(RPC_URL),
+    });
+  }
+  return publicClient;
+};
+
+const withGasBuffer = (gas: bigint) => (gas * GAS_BUFFER_PERCENT) / BigInt(100);
+
+const getUsdtAddress = () => {
+  if (!USDT_ADDRESS) {
+    throw new WalletError(
+      "failed",
+      "USDT contract is not configured (NEXT_PUBLIC_USDT_ADDRESS)"
+    );
+  }
+  return USDT_ADDRESS;
+};
+
+const readBalance = (contract: Address, account: Address) =>
+  getPublicClient().readContract({
+    address: contract,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: [account],
+  });
+
+// On-chain USDT and token balances of a browser wallet account, which may not
+// be the signed-in account's wallet
+export const getWalletBalances = async (
+  account: Address,
+  tokenAddress: Address
+): Promise<WalletBalances> => {
+  const [usdt, token] = await Promise.all([
+    readBalance(getUsdtAddress(), account),
+    readBalance(tokenAddress, account),
+  ]);
+  return { usdt, token };
+};
+
+// Steps a trade will go through, after checking the account holds enough to
+// trade and given its current allowance
+export const buildTradeSteps = async (
+  params: WalletTradeParams
+): Promise<TxStep[]> => {
+  const tradeStep: TxStep = {
+    id: "trade",
+    label:
+      params.side === "buy"
+        ? `Buy ${params.tokenSymbol ?? "tokens"}`
+        : `Sell ${params.tokenSymbol ?? "tokens"}`,
+    status: "waiting",
+  };
+
+  if (params.side === "sell") {
+    const balance = await readBalance(params.tokenAddress, params.account);
+    if (balance < params.amountIn) {
+      const symbol = params.tokenSymbol ?? "tokens";
+      throw new WalletError(
+        "failed",
+        `Insufficient ${symbol} in your wallet: ${formatUnits(
+          balance,
+          CURVE_DECIMALS
+        )} available`
+      );
+    }
+    return [tradeStep];
+  }
+
+  const usdtAddress = getUsdtAddress();
+  const [balance, allowance] = await Promise.all([
+    readBalance(usdtAddress, params.account),
+    getPublicClient().readContract({
+      address: usdtAddress,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [params.account, BONDING_CURVE_ADDRESS],
+    }),
+  ]);
+
+  if (balance < params.amountIn) {
+    throw new WalletError(
+      "failed",
+      `Insufficient USDT in your wallet: ${formatUnits(
+        balance,
+        CURVE_DECIMALS
+      )} available`
+    );
+  }
+
+  if (allowance >= params.amountIn) return [tradeStep];
+  return [
+    { id: "approve", label: "Approve USDT", status: "waiting" },
+    tradeStep,
+  ];
+};
+
+// Sign and send one transaction, then wait for its receipt
+const sendAndConfirm = async (
+  send: () => Promise<Hash>,
+  update: (patch: Partial<TxStep>) => void
+) => {
+  update({ status: "signing" });
+  const hash = await send();
+  update({ status: "pending", hash });
+
+  const receipt = await getPublicClient().waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new WalletError("failed", "Transaction reverted on-chain");
+  }
+  update({ status: "confirmed" });
+  return hash;
+};
+
+// Run a trade's steps in order. `onUpdate` receives the full step list after
+// every status change; the trade's transaction hash is returned on success.
+export const executeWalletTrade = async (
+  params: WalletTradeParams,
+  onUpdate: (steps: TxStep[]) => void
+): Promise<Hash> => {
+  const walletClient = getWalletClient();
+  await ensureChain(walletClient);
+  const client = getPublicClient();
+
+  let steps = await buildTradeSteps(params);
+  onUpdate(steps);
+
+  const updateStep = (id: TxStepId) => (patch: Partial<TxStep>) => {
+    steps = steps.map((step) => (step.id === id ? { ...step, ...patch } : step));
+    onUpdate(steps);
+  };
+
+  let current: TxStepId = steps[0].id;
+  try {
+    if (steps.some((step) => step.id === "approve")) {
+      // Approve exactly the trade amount rather than an unlimited allowance
+      await sendAndConfirm(async () => {
+        const { request } = await client.simulateContract({
+          account: params.account,
+          address: USDT_ADDRESS as Address,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [BONDING_CURVE_ADDRESS, params.amountIn],
+        });
+        const gas = await client.estimateContractGas(request);
+        return walletClient.writeContract({
+          ...request,
+          gas: withGasBuffer(gas),
+        });
+      }, updateStep("approve"));
+    }
+
+    current = "trade";
+    return await sendAndConfirm(async () => {
+      const { request } = await client.simulateContract({
+        account: params.account,
+        address: BONDING_CURVE_ADDRESS,
+        abi: bondingCurveAbi,
+        functionName: params.side === "buy" ? "buyTokens" : "sellTokens",
+        args: [params.tokenAddress, params.amountIn, params.minAmountOut],
+      });
+      const gas = await client.estimateContractGas(request);
+      return walletClient.writeContract({ ...request, gas: withGasBuffer(gas) });
+    }, updateStep("trade"));
+  } catch (error) {
+    updateStep(current)({
+      status: "failed",
+      error: getWalletErrorMessage(error, "Transaction failed"),
+    });
+    throw error;
+  }
+};
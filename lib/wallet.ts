@@ -0,0 +1,128 @@
+import {
+  BaseError,
+  createWalletClient,
+  custom,
+  getAddress,
+  UserRejectedRequestError,
+  type Address,
+} from "viem";
+import { createSiweMessage } from "viem/siwe";
+import { walletChain } from "@/lib/contracts";
+
+// Browser wallet (EIP-1193) support: connecting an injected wallet and signing
+// the SIWE-style sign-in message. Self-signed trades are built in lib/txBuilder.ts.
+
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown }): Promise<unknown>;
+}
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider;
+  }
+}
+
+export class WalletError extends Error {
+  code: "no_wallet" | "rejected" | "wrong_chain" | "failed";
+
+  constructor(code: WalletError["code"], message: string) {
+    super(message);
+    this.name = "WalletError";
+    this.code = code;
+  }
+}
+
+const SIGN_IN_STATEMENT = "Sign in to Sei DeFAI";
+const CHAIN_NOT_ADDED = 4902; // EIP-3085 "unrecognized chain" error code
+
+let mockProvider: Eip1193Provider | null = null;
+
+// The mock wallet module (and its signing key) is only fetched when enabled, so
+// production bundles never include it
+const loadMockProvider = (): Eip1193Provider => {
+  const provider = import("@/lib/mockWallet").then(({ createMockProvider }) =>
+    createMockProvider()
+  );
+  return { request: async (args) => (await provider).request(args) };
+};
+
+export const isMockWalletEnabled = () =>
+  process.env.NEXT_PUBLIC_MOCK_WALLET === "true";
+
+export const getWalletProvider = (): Eip1193Provider | null => {
+  if (typeof window === "undefined") return null;
+  if (isMockWalletEnabled()) {
+    if (!mockProvider) mockProvider = loadMockProvider();
+    return mockProvider;
+  }
+  return window.ethereum ?? null;
+};
+
+export const hasWalletProvider = () => getWalletProvider() !== null;
+
+export const getWalletClient = () => {
+  const provider = getWalletProvider();
+  if (!provider) {
+    throw new WalletError(
+      "no_wallet",
+      "No browser wallet found. Install MetaMask or another EIP-1193 wallet."
+    );
+  }
+  return createWalletClient({ chain: walletChain, transport: custom(provider) });
+};
+
+// Best user-facing message for an error thrown by the wallet or viem
+export const getWalletErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof WalletError) return error.message;
+  if (error instanceof BaseError) {
+    if (error.walk((cause) => cause instanceof UserRejectedRequestError)) {
+      return "Request rejected in your wallet";
+    }
+    return error.shortMessage || fallback;
+  }
+  return fallback;
+};
+
+// Make sure the wallet is on the app's chain, adding it if the wallet doesn't know it
+export const ensureChain = async (
+  client: ReturnType<typeof getWalletClient>
+) => {
+  if ((await client.getChainId()) === walletChain.id) return;
+  try {
+    await client.switchChain({ id: walletChain.id });
+  } catch (error) {
+    const code = (error as { cause?: { code?: number } })?.cause?.code;
+    if (code !== CHAIN_NOT_ADDED) {
+      throw new WalletError(
+        "wrong_chain",
+        `Switch your wallet to ${walletChain.name} to continue`
+      );
+    }
+    await client.addChain({ chain: walletChain });
+  }
+};
+
+// Ask the wallet for an account on the app's chain
+export const connectWallet = async (): Promise<Address> => {
+  const client = getWalletClient();
+  const [address] = await client.requestAddresses();
+  if (!address) throw new WalletError("failed", "No account was selected");
+  await ensureChain(client);
+  return getAddress(address);
+};
+
+// SIWE (EIP-4361) message binding the backend's nonce to this site and account
+export const createSignInMessage = (address: Address, nonce: string) =>
+  createSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: SIGN_IN_STATEMENT,
+    uri: window.location.origin,
+    version: "1",
+    chainId: walletChain.id,
+    nonce,
+    issuedAt: new Date(),
+  });
+
+export const signMessage = (address: Address, message: string) =>
+  getWalletClient().signMessage({ account: address, message });
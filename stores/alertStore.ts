@@ -0,0 +1,97 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { AlertCondition, PriceAlert } from "@/lib/alerts";
+
+interface NewAlert {
+  tokenAddress: string;
+  tokenName: string;
+  tokenSymbol: string;
+  condition: AlertCondition;
+}
+
+interface AlertState {
+  // Alerts are kept in this browser only
+  alerts: PriceAlert[];
+
+  // Panel UI state (not persisted)
+  isPanelOpen: boolean;
+  panelTokenAddress: string | null; // Token preselected in the create form
+
+  // Actions
+  addAlert: (alert: NewAlert) => void;
+  removeAlert: (id: string) => void;
+  setAlertEnabled: (id: string, enabled: boolean) => void;
+  markTriggered: (id: string, time: number, disarm: boolean) => void;
+  clearTriggered: () => void;
+  openPanel: (tokenAddress?: string) => void;
+  setPanelOpen: (open: boolean) => void;
+}
+
+export const useAlertStore = create<AlertState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      alerts: [],
+      isPanelOpen: false,
+      panelTokenAddress: null,
+
+      // Actions
+      addAlert: (alert) =>
+        set((state) => ({
+          alerts: [
+            {
+              ...alert,
+              id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+              enabled: true,
+              createdAt: Date.now(),
+              triggerCount: 0,
+            },
+            ...state.alerts,
+          ],
+        })),
+
+      removeAlert: (id) =>
+        set((state) => ({
+          alerts: state.alerts.filter((alert) => alert.id !== id),
+        })),
+
+      setAlertEnabled: (id, enabled) =>
+        set((state) => ({
+          alerts: state.alerts.map((alert) =>
+            alert.id === id ? { ...alert, enabled } : alert
+          ),
+        })),
+
+      markTriggered: (id, time, disarm) =>
+        set((state) => ({
+          alerts: state.alerts.map((alert) =>
+            alert.id === id
+              ? {
+                  ...alert,
+                  enabled: disarm ? false : alert.enabled,
+                  lastTriggeredAt: time,
+                  triggerCount: alert.triggerCount + 1,
+                }
+              : alert
+          ),
+        })),
+
+      // Remove one-shot alerts that have already fired
+      clearTriggered: () =>
+        set((state) => ({
+          alerts: state.alerts.filter(
+            (alert) => alert.enabled || !alert.triggerCount
+          ),
+        })),
+
+      openPanel: (tokenAddress) =>
+        set({ isPanelOpen: true, panelTokenAddress: tokenAddress ?? null }),
+
+      setPanelOpen: (isPanelOpen) => set({ isPanelOpen }),
+    }),
+    {
+      name: "alert-store",
+      partialize: (state) => ({ alerts: state.alerts }),
+    }
+  )
+);
@@ -0,0 +1,72 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+export type ChartType = "candles" | "line" | "area";
+export type OverlayIndicator = "sma" | "ema" | "vwap";
+
+export interface ChartPreferences {
+  chartType: ChartType;
+  showVolume: boolean;
+  overlays: Record<OverlayIndicator, boolean>;
+}
+
+export const DEFAULT_CHART_PREFERENCES: ChartPreferences = {
+  chartType: "candles",
+  showVolume: true,
+  overlays: {
+    sma: false,
+    ema: false,
+    vwap: false,
+  },
+};
+
+interface ChartState {
+  // Preferences keyed by user (email, or "guest" when signed out)
+  preferences: Record<string, ChartPreferences>;
+
+  // Actions
+  setPreferences: (userKey: string, update: Partial<ChartPreferences>) => void;
+  toggleOverlay: (userKey: string, overlay: OverlayIndicator) => void;
+}
+
+export const useChartStore = create<ChartState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      preferences: {},
+
+      // Actions
+      setPreferences: (userKey, update) =>
+        set((state) => ({
+          preferences: {
+            ...state.preferences,
+            [userKey]: {
+              ...(state.preferences[userKey] ?? DEFAULT_CHART_PREFERENCES),
+              ...update,
+            },
+          },
+        })),
+
+      toggleOverlay: (userKey, overlay) =>
+        set((state) => {
+          const current =
+            state.preferences[userKey] ?? DEFAULT_CHART_PREFERENCES;
+          return {
+            preferences: {
+              ...state.preferences,
+              [userKey]: {
+                ...current,
+                overlays: {
+                  ...current.overlays,
+                  [overlay]: !current.overlays[overlay],
+                },
+              },
+            },
+          };
+        }),
+    }),
+    {
+      name: "chart-store",
+    }
+  )
+);
@@ -9,11 +9,15 @@ interface TokenBalance {
   decimals: number;
 }
 
+// How the user signed in: magic link (custodial wallet) or browser wallet
+export type AuthMethod = "email" | "wallet";
+
 interface UserState {
   // Auth state
   isAuthenticated: boolean;
   userEmail: string;
   walletAddress: string;
+  authMethod: AuthMethod | null;
 
   // Balance state
   ethBalance: string;
@@ -28,6 +32,7 @@ interface UserState {
   // Actions
   setAuthenticated: (authenticated: boolean) => void;
   setUserData: (email: string, walletAddress: string) => void;
+  setAuthMethod: (authMethod: AuthMethod) => void;
   setBalances: (
     ethBalance: string,
     usdtBalance: string,
@@ -47,6 +52,7 @@ export const useUserStore = create<UserState>()(
       isAuthenticated: false,
       userEmail: "",
       walletAddress: "",
+      authMethod: null,
       ethBalance: "0",
       usdtBalance: "0",
       tokenBalances: [],
@@ -65,6 +71,8 @@ export const useUserStore = create<UserState>()(
           isAuthenticated: true,
         }),
 
+      setAuthMethod: (authMethod) => set({ authMethod }),
+
       setBalances: (ethBalance, usdtBalance, tokenBalances = []) =>
         set({ ethBalance, usdtBalance, tokenBalances }),
 
@@ -79,6 +87,7 @@ export const useUserStore = create<UserState>()(
           isAuthenticated: false,
           userEmail: "",
           walletAddress: "",
+          authMethod: null,
           ethBalance: "0",
           usdtBalance: "0",
           tokenBalances: [],
@@ -92,6 +101,7 @@ export const useUserStore = create<UserState>()(
           isAuthenticated: false,
           userEmail: "",
           walletAddress: "",
+          authMethod: null,
           ethBalance: "0",
           usdtBalance: "0",
           tokenBalances: [],
@@ -106,6 +116,7 @@ export const useUserStore = create<UserState>()(
         isAuthenticated: state.isAuthenticated,
         userEmail: state.userEmail,
         walletAddress: state.walletAddress,
+        authMethod: state.authMethod,
         ethBalance: state.ethBalance,
         usdtBalance: state.usdtBalance,
         tokenBalances: state.tokenBalances,
@@ -0,0 +1,41 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+// "server": executed by the backend from the custodial wallet
+// "wallet": signed and sent from the connected browser wallet
+export type TradeExecution = "server" | "wallet";
+
+interface WalletState {
+  // Browser wallet connected in this browser, if any
+  connectedAddress: string | null;
+
+  // Execution mode last used for a trade (the default for the next one)
+  preferredExecution: TradeExecution;
+
+  // Actions
+  setConnectedAddress: (address: string | null) => void;
+  setPreferredExecution: (execution: TradeExecution) => void;
+  disconnect: () => void;
+}
+
+export const useWalletStore = create<WalletState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      connectedAddress: null,
+      preferredExecution: "server",
+
+      // Actions
+      setConnectedAddress: (connectedAddress) => set({ connectedAddress }),
+
+      setPreferredExecution: (preferredExecution) =>
+        set({ preferredExecution }),
+
+      disconnect: () =>
+        set({ connectedAddress: null, preferredExecution: "server" }),
+    }),
+    {
+      name: "wallet-store",
+    }
+  )
+);
@@ -0,0 +1,37 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+interface WatchlistState {
+  // Watched token addresses (lowercase) keyed by user (email, wallet or "guest")
+  watchlists: Record<string, string[]>;
+
+  // Actions
+  toggleToken: (userKey: string, tokenAddress: string) => void;
+}
+
+export const useWatchlistStore = create<WatchlistState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      watchlists: {},
+
+      // Actions
+      toggleToken: (userKey, tokenAddress) =>
+        set((state) => {
+          const address = tokenAddress.toLowerCase();
+          const current = state.watchlists[userKey] ?? [];
+          return {
+            watchlists: {
+              ...state.watchlists,
+              [userKey]: current.includes(address)
+                ? current.filter((item) => item !== address)
+                : [...current, address],
+            },
+          };
+        }),
+    }),
+    {
+      name: "watchlist-store",
+    }
+  )
+);